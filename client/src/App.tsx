@@ -6,13 +6,18 @@ import { useState, useEffect } from "react";
 import Navbar from "@/components/layouts/navbar";
 import Statistics from "@/pages/statistics";
 import Profile from "@/pages/profile";
+import Team from "@/pages/team";
+import Admin from "@/pages/admin";
 import AddEntryModal from "@/components/modals/add-entry-modal";
 import ExportModal from "@/components/modals/export-modal";
+import ChangePasswordModal from "@/components/modals/change-password-modal";
 import AuthPage from "@/pages/auth-page";
 import SplashScreen from "@/pages/splash-screen";
 import NotFound from "@/pages/not-found";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import { ProtectedRoute } from "@/lib/protected-route";
+import { canViewTeams } from "@shared/teams";
+import { canManageUsers } from "@shared/admin";
 
 function MainApp() {
   const [isAddEntryModalOpen, setIsAddEntryModalOpen] = useState(false);
@@ -23,17 +28,28 @@ function MainApp() {
     <div className="flex flex-col min-h-screen">
       {currentPage === "statistics" && <Statistics />}
       {currentPage === "profile" && <Profile />}
+      {currentPage === "team" && <Team />}
+      {currentPage === "admin" && <Admin />}
       
       <Navbar
         activePage={currentPage}
         onNavigation={setCurrentPage}
         onAddEntry={() => setIsAddEntryModalOpen(true)}
+        showTeam={!!user && canViewTeams(user.role)}
+        showAdmin={!!user && canManageUsers(user.role)}
       />
       
       <AddEntryModal
         open={isAddEntryModalOpen}
         onClose={() => setIsAddEntryModalOpen(false)}
       />
+      
+      {/* Пароль, выданный администратором, нужно сменить до начала работы */}
+      <ChangePasswordModal
+        open={!!user?.mustChangePassword}
+        onClose={() => {}}
+        required
+      />
     </div>
   );
 }
@@ -3,12 +3,14 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { 
   BarChart3Icon, 
-  PlusIcon, 
   UserIcon, 
   BellIcon, 
   Menu, 
-  FileOutput
+  FileOutput,
+  UsersIcon,
+  ShieldIcon
 } from 'lucide-react';
+import TimerControls from './timer-controls';
 import { useTranslation } from 'react-i18next';
 
 interface NavbarProps {
@@ -16,13 +18,17 @@ interface NavbarProps {
   onNavigation: (page: string) => void;
   onAddEntry: () => void;
   onExport?: () => void;
+  showTeam?: boolean; // Обзор команды для руководителей и администраторов
+  showAdmin?: boolean; // Консоль управления пользователями
 }
 
 export default function Navbar({ 
   activePage, 
   onNavigation, 
   onAddEntry,
-  onExport 
+  onExport,
+  showTeam,
+  showAdmin
 }: NavbarProps) {
   const { t } = useTranslation();
 
@@ -59,15 +65,27 @@ export default function Navbar({
           <span className="text-xs mt-1">{t('statistics')}</span>
         </button>
         
-        <button 
-          className="flex flex-col items-center text-muted-foreground hover:text-primary transition-colors"
-          onClick={onAddEntry}
-        >
-          <div className="bg-primary w-12 h-12 rounded-full flex items-center justify-center text-white -mt-6">
-            <PlusIcon className="h-6 w-6" />
-          </div>
-          <span className="text-xs mt-1">{t('add')}</span>
-        </button>
+        {showTeam && (
+          <button 
+            className={`flex flex-col items-center ${activePage === 'team' ? 'text-primary' : 'text-muted-foreground hover:text-primary transition-colors'}`}
+            onClick={() => onNavigation('team')}
+          >
+            <UsersIcon className="h-6 w-6" />
+            <span className="text-xs mt-1">{t('team')}</span>
+          </button>
+        )}
+        
+        {showAdmin && (
+          <button 
+            className={`flex flex-col items-center ${activePage === 'admin' ? 'text-primary' : 'text-muted-foreground hover:text-primary transition-colors'}`}
+            onClick={() => onNavigation('admin')}
+          >
+            <ShieldIcon className="h-6 w-6" />
+            <span className="text-xs mt-1">{t('admin')}</span>
+          </button>
+        )}
+        
+        <TimerControls onAddEntry={onAddEntry} />
         
         <button 
           className={`flex flex-col items-center ${activePage === 'profile' ? 'text-primary' : 'text-muted-foreground hover:text-primary transition-colors'}`}
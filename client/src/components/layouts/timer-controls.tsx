@@ -0,0 +1,106 @@
+import React from 'react';
+import { PauseIcon, PlayIcon, PlusIcon, SquareIcon } from 'lucide-react';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { useRunningTimer, useTimerElapsed } from '@/hooks/use-timer';
+import { secondsToHMS } from '@/utils/time';
+import { useTranslation } from 'react-i18next';
+
+interface TimerControlsProps {
+  onAddEntry: () => void;
+}
+
+/**
+ * Центральная кнопка навигации: добавление записи и таймер с прошедшим временем
+ */
+export default function TimerControls({ onAddEntry }: TimerControlsProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { timer, isPaused, clockIn, pause, resume, clockOut, discard, isPending } = useRunningTimer();
+  const elapsed = useTimerElapsed(timer);
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('error'),
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const handleClockOut = () => {
+    clockOut(undefined, {
+      onSuccess: () => {
+        toast({
+          title: t('timer_stopped'),
+          description: t('timer_stopped_desc'),
+        });
+      },
+      // Таймер, который нельзя записать (например, дольше суток), можно только сбросить
+      onError: (error) => {
+        toast({
+          title: t('error'),
+          description: error.message,
+          variant: 'destructive',
+          action: (
+            <ToastAction altText={t('timer_discard')} onClick={() => discard(undefined, { onError })}>
+              {t('timer_discard')}
+            </ToastAction>
+          ),
+        });
+      },
+    });
+  };
+
+  const sideButtonClass = 'w-9 h-9 rounded-full flex items-center justify-center border border-gray-700 text-muted-foreground hover:text-primary transition-colors disabled:opacity-50';
+
+  return (
+    <div className="flex items-start space-x-3">
+      {timer ? (
+        <button
+          className={sideButtonClass}
+          onClick={() => isPaused ? resume(undefined, { onError }) : pause(undefined, { onError })}
+          disabled={isPending}
+          aria-label={isPaused ? t('timer_resume') : t('timer_pause')}
+        >
+          {isPaused ? <PlayIcon className="h-4 w-4" /> : <PauseIcon className="h-4 w-4" />}
+        </button>
+      ) : (
+        <button
+          className={sideButtonClass}
+          onClick={() => clockIn({}, { onError })}
+          disabled={isPending}
+          aria-label={t('timer_start')}
+        >
+          <PlayIcon className="h-4 w-4" />
+        </button>
+      )}
+
+      <button
+        className="flex flex-col items-center text-muted-foreground hover:text-primary transition-colors"
+        onClick={onAddEntry}
+      >
+        <div className="bg-primary w-12 h-12 rounded-full flex items-center justify-center text-white -mt-6">
+          <PlusIcon className="h-6 w-6" />
+        </div>
+        {timer ? (
+          <span className={`text-xs mt-1 font-mono ${isPaused ? 'text-muted-foreground' : 'text-primary'}`}>
+            {secondsToHMS(elapsed)}
+          </span>
+        ) : (
+          <span className="text-xs mt-1">{t('add')}</span>
+        )}
+      </button>
+
+      {timer && (
+        <button
+          className={sideButtonClass}
+          onClick={handleClockOut}
+          disabled={isPending}
+          aria-label={t('timer_stop')}
+        >
+          <SquareIcon className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
-import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useForm } from 'react-hook-form';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
@@ -15,7 +15,20 @@ import { uk } from 'date-fns/locale';
 import { getQueryFn } from '@/lib/queryClient';
 import { motion, AnimatePresence } from 'framer-motion';
 import { User } from '@shared/schema';
+import { crossesMidnight, type BreakSegment } from '@shared/time';
+import { entryKinds, entryKindRules, type EntryKind } from '@shared/entry-kinds';
+import { resolveHourlyRate } from '@shared/rates';
+import { type ImportRow } from '@shared/import';
+import { useRates } from '@/hooks/use-rates';
+import { useCalendarImport } from '@/hooks/use-calendar';
+import { invalidatePayBreakdowns } from '@/hooks/use-pay';
+import { invalidateMonthlyReports } from '@/hooks/use-time-entries';
+import { invalidateVacationBalances } from '@/hooks/use-vacation';
+import { getEntryKindLabel } from '@/utils/entries';
+import BreakFields from './break-fields';
+import ProjectSelect from './project-select';
 import { useTranslation } from 'react-i18next';
+import { CalendarDays } from 'lucide-react';
 
 interface AddEntryModalProps {
   open: boolean;
@@ -28,87 +41,138 @@ interface FormValues {
   endTime: string;
   hourlyRate: number; // Добавляем почасовую ставку
   notes: string;
-  didNotWork: boolean; // Добавляем флаг "Не вышел на работу"
-  dayOff: boolean; // Добавляем флаг "Выходной"
-  businessTrip: boolean; // Добавляем флаг "Cesta"
+  kind: EntryKind; // Тип записи: работа, отпуск, больничный и т.д.
+  breaks: BreakSegment[]; // Перерывы внутри смены
+  projectId: number | null;
+  halfDay: boolean; // Отсутствие на половину рабочего дня
 }
 
+const defaultStartTime = '08:00';
+const defaultEndTime = '18:00';
+
 export default function AddEntryModal({ open, onClose }: AddEntryModalProps) {
   const { toast } = useToast();
   const { t } = useTranslation();
   const queryClient = useQueryClient();
   const [currentEntryDate, setCurrentEntryDate] = useState<string>('');
-  const [didNotWork, setDidNotWork] = useState(false);
-  const [dayOff, setDayOff] = useState(false);
-  const [businessTrip, setBusinessTrip] = useState(false);
   
-  const { register, handleSubmit, reset, watch, setValue, formState: { errors } } = useForm<FormValues>({
+  // Черновики из календаря .ics проверяются и сохраняются по одному
+  const [drafts, setDrafts] = useState<ImportRow[]>([]);
+  const [draftIndex, setDraftIndex] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { importFile, isPending: isImporting } = useCalendarImport();
+  const draft = drafts[draftIndex] as ImportRow | undefined;
+  
+  const { register, control, handleSubmit, reset, watch, setValue, formState: { errors, dirtyFields } } = useForm<FormValues>({
     defaultValues: {
       date: format(new Date(), 'yyyy-MM-dd'),
-      startTime: '08:00',
-      endTime: '18:00',
-      hourlyRate: 190, // Значение по умолчанию для почасовой ставки в CZK
+      startTime: defaultStartTime,
+      endTime: defaultEndTime,
+      hourlyRate: 0, // Подставляется из истории ставок по дате и проекту
       notes: '',
-      didNotWork: false,
-      dayOff: false,
-      businessTrip: false
+      kind: 'work',
+      breaks: [],
+      projectId: null,
+      halfDay: false,
     }
   });
   
-  // Отслеживаем изменение флагов "Не вышел на работу" и "Выходной"
-  useEffect(() => {
-    const subscription = watch((value, { name }) => {
-      if (name === 'didNotWork') {
-        setDidNotWork(!!value.didNotWork);
-        // Если включили "Не вышел на работу", выключаем "Выходной" и "Cesta"
-        if (!!value.didNotWork) {
-          if (dayOff) {
-            setValue('dayOff', false);
-            setDayOff(false);
-          }
-          if (businessTrip) {
-            setValue('businessTrip', false);
-            setBusinessTrip(false);
-          }
-        }
-      }
-      if (name === 'dayOff') {
-        setDayOff(!!value.dayOff);
-        // Если включили "Выходной", выключаем "Не вышел на работу" и "Cesta"
-        if (!!value.dayOff) {
-          if (didNotWork) {
-            setValue('didNotWork', false);
-            setDidNotWork(false);
-          }
-          if (businessTrip) {
-            setValue('businessTrip', false);
-            setBusinessTrip(false);
-          }
-        }
+  // Для отсутствий (отпуск, больничный и т.д.) время и ставка не вводятся
+  const kind = watch('kind');
+  const kindRule = entryKindRules[kind];
+  const timesDisabled = !kindRule.hasTimes;
+  const timesRequired = kindRule.hasTimes && !kindRule.fullDayIfNoTimes;
+  
+  // Конец раньше начала — смена заканчивается на следующий день
+  const startTimeValue = watch('startTime');
+  const endTimeValue = watch('endTime');
+  const isOvernight = !timesDisabled && !!startTimeValue && !!endTimeValue && crossesMidnight(startTimeValue, endTimeValue);
+  
+  // Черновик подставляется в форму; у отсутствий поля времени остаются со значениями по умолчанию
+  const showDraft = (index: number, list: ImportRow[] = drafts) => {
+    const next = list[index];
+    if (!next) return;
+    const withTimes = entryKindRules[next.kind].hasTimes && !(next.startTime === '00:00' && next.endTime === '00:00');
+    reset({
+      date: next.date!.slice(0, 10),
+      kind: next.kind,
+      startTime: withTimes ? next.startTime : defaultStartTime,
+      endTime: withTimes ? next.endTime : defaultEndTime,
+      hourlyRate: next.hourlyRate ?? 0,
+      notes: next.notes ?? '',
+      breaks: next.breaks,
+      projectId: null,
+      halfDay: next.halfDay,
+    });
+    setDraftIndex(index);
+  };
+  
+  const handleClose = () => {
+    setDrafts([]);
+    setDraftIndex(0);
+    reset();
+    onClose();
+  };
+  
+  // После сохранения или пропуска черновика открывается следующий; после последнего форма закрывается
+  const nextDraft = () => {
+    if (draftIndex + 1 < drafts.length) {
+      showDraft(draftIndex + 1);
+    } else {
+      handleClose();
+    }
+  };
+  
+  const handleCalendarFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    
+    try {
+      const result = await importFile(file);
+      // Дубликаты уже сохранённых записей и события без даты не предлагаются
+      const list = result.drafts.filter(row => row.status !== 'duplicate' && row.date);
+      const skipped = result.drafts.length - list.length;
+      
+      if (list.length === 0) {
+        toast({
+          title: t('calendar_import_empty'),
+          description: skipped > 0 ? t('calendar_import_skipped', { count: skipped }) : undefined,
+        });
+        return;
       }
-      if (name === 'businessTrip') {
-        setBusinessTrip(!!value.businessTrip);
-        // Если включили "Cesta", выключаем "Не вышел на работу" и "Выходной"
-        if (!!value.businessTrip) {
-          if (didNotWork) {
-            setValue('didNotWork', false);
-            setDidNotWork(false);
-          }
-          if (dayOff) {
-            setValue('dayOff', false);
-            setDayOff(false);
-          }
-        }
+      
+      if (skipped > 0) {
+        toast({ title: t('calendar_import_skipped', { count: skipped }) });
       }
-    });
-    return () => subscription.unsubscribe();
-  }, [watch, setValue, didNotWork, dayOff, businessTrip]);
+      setDrafts(list);
+      showDraft(0, list);
+    } catch (error) {
+      toast({
+        title: t('error'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  };
   
   const { data: user } = useQuery<User>({
     queryKey: ['/api/user'],
     queryFn: getQueryFn({ on401: 'returnNull' }),
   });
   
+  // Ставка, действующая на дату записи; введённая вручную ставка не перезаписывается
+  const { rates } = useRates();
+  const dateValue = watch('date');
+  const projectIdValue = watch('projectId');
+  const rateEdited = !!dirtyFields.hourlyRate;
+  
+  useEffect(() => {
+    if (!open || rateEdited || !dateValue) return;
+    const rate = resolveHourlyRate(rates, `${dateValue}T12:00:00.000Z`, projectIdValue);
+    setValue('hourlyRate', rate ?? 0);
+  }, [open, rates, dateValue, projectIdValue, rateEdited, setValue]);
+  
   const addEntryMutation = useMutation({
     mutationFn: (data: any) => apiRequest('POST', '/api/time-entries', data),
     onSuccess: () => {
@@ -125,9 +189,14 @@ export default function AddEntryModal({ open, onClose }: AddEntryModalProps) {
       // Инвалидируем все необходимые запросы для обновления данных в различных компонентах
       queryClient.invalidateQueries({ queryKey: ['/api/time-entries'] });
       queryClient.invalidateQueries({ queryKey: [`/api/time-entries/${year}/${month}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/monthly-reports/${year}/${month}`] });
-      queryClient.invalidateQueries({ queryKey: ['/api/monthly-reports'] });
+      invalidateMonthlyReports(queryClient);
+      invalidatePayBreakdowns(queryClient);
+      invalidateVacationBalances(queryClient);
       
+      if (draft) {
+        nextDraft();
+        return;
+      }
       reset();
       onClose();
     },
@@ -149,36 +218,21 @@ export default function AddEntryModal({ open, onClose }: AddEntryModalProps) {
     const formattedDate = `${data.date}T12:00:00.000Z`;
     setCurrentEntryDate(formattedDate);
     
-    // Определяем специальные значения в зависимости от выбранных флагов
-    let notesValue = data.notes;
-    let startTimeValue = data.startTime;
-    let endTimeValue = data.endTime;
-    let hourlyRateValue = data.hourlyRate;
-    
-    if (data.didNotWork) {
-      startTimeValue = "00:00";
-      endTimeValue = "00:00";
-      hourlyRateValue = 0;
-      notesValue = "Nešel jsem do práce.";
-    } else if (data.dayOff) {
-      startTimeValue = "00:00";
-      endTimeValue = "00:00";
-      hourlyRateValue = 0;
-      notesValue = "Volný den";
-    } else if (data.businessTrip) {
-      startTimeValue = "00:00";
-      endTimeValue = "00:00";
-      hourlyRateValue = 0;
-      notesValue = "Cesta";
-    }
+    // Отсутствия хранятся без времени и ставки; у командировки время необязательно
+    const withTimes = entryKindRules[data.kind].hasTimes && !!data.startTime && !!data.endTime;
     
     const entryData = {
       userId: user.id,
       date: formattedDate, // Отправляем как строку в формате ISO, Zod преобразует на стороне сервера
-      startTime: startTimeValue,
-      endTime: endTimeValue,
-      hourlyRate: hourlyRateValue,
-      notes: notesValue,
+      kind: data.kind,
+      startTime: withTimes ? data.startTime : "00:00",
+      endTime: withTimes ? data.endTime : "00:00",
+      hourlyRate: withTimes ? data.hourlyRate : 0,
+      notes: data.notes,
+      projectId: data.projectId,
+      breaks: withTimes ? data.breaks : [],
+      // Половинный день есть только у отсутствий, уменьшающих норму
+      halfDay: entryKindRules[data.kind].reducesTarget && data.halfDay,
     };
     
     console.log('Отправка данных:', entryData);
@@ -202,7 +256,7 @@ export default function AddEntryModal({ open, onClose }: AddEntryModalProps) {
   };
 
   return (
-    <Dialog open={open} onOpenChange={(open) => !open && onClose()}>
+    <Dialog open={open} onOpenChange={(open) => !open && handleClose()}>
       <DialogContent className="bg-card max-w-md mx-auto">
         <DialogHeader className="bg-primary -mx-6 -mt-6 px-6 py-3 mb-4">
           <motion.div
@@ -212,11 +266,37 @@ export default function AddEntryModal({ open, onClose }: AddEntryModalProps) {
           >
             <DialogTitle className="text-white">{t('add_entry')}</DialogTitle>
             <DialogDescription className="text-white/80 text-sm mt-1">
-              {t('fill_fields')}
+              {draft ? t('calendar_draft_progress', { current: draftIndex + 1, total: drafts.length }) : t('fill_fields')}
             </DialogDescription>
           </motion.div>
         </DialogHeader>
         
+        {draft ? (
+          draft.message && (
+            <p className="text-sm text-amber-600 -mt-2">{draft.message}</p>
+          )
+        ) : (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={handleCalendarFile}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full -mt-2"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+            >
+              <CalendarDays size={16} className="mr-2" />
+              {isImporting ? t('calendar_import_reading') : t('calendar_import')}
+            </Button>
+          </>
+        )}
+        
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
             <motion.div
               custom={0}
@@ -239,21 +319,34 @@ export default function AddEntryModal({ open, onClose }: AddEntryModalProps) {
               initial="hidden"
               animate="visible"
               variants={formAnimation}
-              key="didNotWork-field"
-              className="flex items-center space-x-2"
+              key="kind-field"
             >
-              <Checkbox 
-                id="didNotWork" 
-                checked={didNotWork}
-                onCheckedChange={(checked) => {
-                  setValue('didNotWork', checked === true);
-                  setDidNotWork(checked === true);
-                }}
-                {...register('didNotWork')}
-              />
-              <Label htmlFor="didNotWork" className="text-muted-foreground font-medium">
-                {t('did_not_work')}
-              </Label>
+              <Label htmlFor="kind" className="text-muted-foreground">{t('entry_kind')}</Label>
+              <Select 
+                value={kind} 
+                onValueChange={(value) => setValue('kind', value as EntryKind)}
+              >
+                <SelectTrigger id="kind" className="bg-background border-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {entryKinds.map(entryKind => (
+                    <SelectItem key={entryKind} value={entryKind}>
+                      {getEntryKindLabel(entryKind)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {kindRule.reducesTarget && (
+                <div className="flex items-center justify-between mt-2">
+                  <Label htmlFor="halfDay" className="text-muted-foreground">{t('half_day')}</Label>
+                  <Switch
+                    id="halfDay"
+                    checked={watch('halfDay')}
+                    onCheckedChange={(checked) => setValue('halfDay', checked)}
+                  />
+                </div>
+              )}
             </motion.div>
             
             <motion.div
@@ -261,43 +354,12 @@ export default function AddEntryModal({ open, onClose }: AddEntryModalProps) {
               initial="hidden"
               animate="visible"
               variants={formAnimation}
-              key="dayOff-field"
-              className="flex items-center space-x-2"
+              key="project-field"
             >
-              <Checkbox 
-                id="dayOff" 
-                checked={dayOff}
-                onCheckedChange={(checked) => {
-                  setValue('dayOff', checked === true);
-                  setDayOff(checked === true);
-                }}
-                {...register('dayOff')}
+              <ProjectSelect
+                value={watch('projectId')}
+                onChange={(projectId) => setValue('projectId', projectId)}
               />
-              <Label htmlFor="dayOff" className="text-muted-foreground font-medium">
-                {t('day_off')}
-              </Label>
-            </motion.div>
-            
-            <motion.div
-              custom={1.7}
-              initial="hidden"
-              animate="visible"
-              variants={formAnimation}
-              key="businessTrip-field"
-              className="flex items-center space-x-2"
-            >
-              <Checkbox 
-                id="businessTrip" 
-                checked={businessTrip}
-                onCheckedChange={(checked) => {
-                  setValue('businessTrip', checked === true);
-                  setBusinessTrip(checked === true);
-                }}
-                {...register('businessTrip')}
-              />
-              <Label htmlFor="businessTrip" className="text-muted-foreground font-medium">
-                {t('business_trip')}
-              </Label>
             </motion.div>
             
             <motion.div
@@ -311,7 +373,6 @@ export default function AddEntryModal({ open, onClose }: AddEntryModalProps) {
               <Textarea 
                 id="notes" 
                 className="bg-background border-input h-20 resize-none" 
-                disabled={didNotWork || dayOff || businessTrip}
                 {...register('notes')} 
               />
             </motion.div>
@@ -330,8 +391,8 @@ export default function AddEntryModal({ open, onClose }: AddEntryModalProps) {
                   id="startTime" 
                   type="time" 
                   className="bg-background border-input" 
-                  disabled={didNotWork || dayOff || businessTrip}
-                  {...register('startTime', { required: !didNotWork && !dayOff && !businessTrip })} 
+                  disabled={timesDisabled}
+                  {...register('startTime', { required: timesRequired })} 
                 />
               </div>
               <div>
@@ -340,10 +401,29 @@ export default function AddEntryModal({ open, onClose }: AddEntryModalProps) {
                   id="endTime" 
                   type="time" 
                   className="bg-background border-input" 
-                  disabled={didNotWork || dayOff || businessTrip}
-                  {...register('endTime', { required: !didNotWork && !dayOff && !businessTrip })} 
+                  disabled={timesDisabled}
+                  {...register('endTime', { required: timesRequired })} 
                 />
               </div>
+              {isOvernight && (
+                <p className="col-span-2 text-xs text-muted-foreground">{t('overnight_shift_hint')}</p>
+              )}
+            </motion.div>
+            
+            <motion.div
+              custom={3.5}
+              initial="hidden"
+              animate="visible"
+              variants={formAnimation}
+              key="breaks-field"
+            >
+              <BreakFields
+                control={control}
+                register={register}
+                values={{ startTime: startTimeValue, endTime: endTimeValue, breaks: watch('breaks') }}
+                user={user}
+                disabled={timesDisabled}
+              />
             </motion.div>
             
             <motion.div
@@ -360,9 +440,9 @@ export default function AddEntryModal({ open, onClose }: AddEntryModalProps) {
                 className="bg-background border-input" 
                 min="0"
                 step="10"
-                disabled={didNotWork || dayOff || businessTrip}
+                disabled={timesDisabled}
                 {...register('hourlyRate', { 
-                  required: !didNotWork && !dayOff && !businessTrip,
+                  required: timesRequired,
                   valueAsNumber: true, 
                   min: 0 
                 })} 
@@ -375,8 +455,8 @@ export default function AddEntryModal({ open, onClose }: AddEntryModalProps) {
             transition={{ delay: 0.5, duration: 0.3 }}
           >
             <DialogFooter className="pt-2">
-              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
-                {t('cancel')}
+              <Button type="button" variant="outline" onClick={draft ? nextDraft : handleClose} className="flex-1">
+                {draft ? t('calendar_draft_skip') : t('cancel')}
               </Button>
               <motion.div
                 whileHover={{ scale: 1.03 }}
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Control, UseFormRegister, useFieldArray } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PlusIcon, Trash2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { User } from '@shared/schema';
+import { calculateShiftDurations, type BreakSegment } from '@shared/time';
+
+interface BreakFieldsValues {
+  startTime: string;
+  endTime: string;
+  breaks: BreakSegment[];
+}
+
+interface BreakFieldsProps {
+  control: Control<any>;
+  register: UseFormRegister<any>;
+  values: BreakFieldsValues;
+  user?: User | null;
+  disabled?: boolean;
+}
+
+/**
+ * Список перерывов внутри смены с подсказкой об автоматическом вычете перерыва
+ */
+export default function BreakFields({ control, register, values, user, disabled }: BreakFieldsProps) {
+  const { t } = useTranslation();
+  const { fields, append, remove } = useFieldArray({ control, name: 'breaks' });
+
+  if (disabled) {
+    return null;
+  }
+
+  const completeBreaks = (values.breaks ?? []).filter(segment => segment.startTime && segment.endTime);
+  const hasTimes = !!values.startTime && !!values.endTime;
+  const recorded = hasTimes
+    ? calculateShiftDurations(values.startTime, values.endTime, completeBreaks)
+    : null;
+  const withAutoBreak = hasTimes && user
+    ? calculateShiftDurations(values.startTime, values.endTime, completeBreaks, user)
+    : null;
+  const autoBreakApplied = !!recorded && !!withAutoBreak && withAutoBreak.breakMinutes > recorded.breakMinutes;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-muted-foreground">{t('breaks')}</Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-8 text-muted-foreground hover:text-primary"
+          onClick={() => append({ startTime: '12:00', endTime: '12:30' })}
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          {t('add_break')}
+        </Button>
+      </div>
+
+      {fields.map((field, index) => (
+        <div key={field.id} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+          <Input
+            type="time"
+            className="bg-background border-input"
+            {...register(`breaks.${index}.startTime` as const, { required: true })}
+          />
+          <Input
+            type="time"
+            className="bg-background border-input"
+            {...register(`breaks.${index}.endTime` as const, { required: true })}
+          />
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+            onClick={() => remove(index)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {autoBreakApplied && (
+        <p className="text-xs text-muted-foreground">
+          {t('auto_break_hint', { minutes: user!.breakMinutes })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { useForm } from 'react-hook-form';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -14,6 +14,7 @@ import { useTranslation } from 'react-i18next';
 interface ChangePasswordModalProps {
   open: boolean;
   onClose: () => void;
+  required?: boolean; // Пароль выдан администратором: окно нельзя закрыть, пока пароль не сменён
 }
 
 // Схема для проверки пароля
@@ -28,8 +29,9 @@ const passwordSchema = z.object({
 
 type PasswordFormValues = z.infer<typeof passwordSchema>;
 
-export default function ChangePasswordModal({ open, onClose }: ChangePasswordModalProps) {
+export default function ChangePasswordModal({ open, onClose, required }: ChangePasswordModalProps) {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [isPasswordVisible, setIsPasswordVisible] = useState(false);
   const { t } = useTranslation();
   
@@ -51,6 +53,8 @@ export default function ChangePasswordModal({ open, onClose }: ChangePasswordMod
         description: 'Ваш пароль успішно оновлено',
       });
       reset();
+      // С временным паролем остальные данные не загружались — запрашиваем всё заново
+      queryClient.invalidateQueries(required ? undefined : { queryKey: ['/api/user'] });
       onClose();
     },
     onError: (error) => {
@@ -70,12 +74,12 @@ export default function ChangePasswordModal({ open, onClose }: ChangePasswordMod
   };
   
   return (
-    <Dialog open={open} onOpenChange={(open) => !open && onClose()}>
+    <Dialog open={open} onOpenChange={(open) => !open && !required && onClose()}>
       <DialogContent className="bg-card max-w-md mx-auto">
         <DialogHeader className="bg-primary -mx-6 -mt-6 px-6 py-3 mb-4">
           <DialogTitle className="text-white">{t('change_password')}</DialogTitle>
           <DialogDescription className="text-white/80 text-sm mt-1">
-            {t('change_password_desc')}
+            {required ? t('change_password_required_desc') : t('change_password_desc')}
           </DialogDescription>
         </DialogHeader>
         
@@ -139,9 +143,11 @@ export default function ChangePasswordModal({ open, onClose }: ChangePasswordMod
           </div>
           
           <DialogFooter className="pt-2">
-            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
-              {t('cancel')}
-            </Button>
+            {!required && (
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                {t('cancel')}
+              </Button>
+            )}
             <Button 
               type="submit" 
               className="flex-1 bg-primary hover:bg-primary-dark text-white"
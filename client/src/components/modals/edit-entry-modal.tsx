@@ -3,7 +3,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogD
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useForm } from 'react-hook-form';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
@@ -11,7 +13,17 @@ import { apiRequest } from '@/lib/queryClient';
 import { format, parseISO } from 'date-fns';
 import { getQueryFn } from '@/lib/queryClient';
 import { motion } from 'framer-motion';
-import { type TimeEntry } from '@shared/schema';
+import { type TimeEntry, type User } from '@shared/schema';
+import { crossesMidnight, type BreakSegment } from '@shared/time';
+import { entryKinds, entryKindRules, type EntryKind } from '@shared/entry-kinds';
+import { resolveEntryRate } from '@shared/rates';
+import { useRates } from '@/hooks/use-rates';
+import { invalidatePayBreakdowns } from '@/hooks/use-pay';
+import { invalidateMonthlyReports } from '@/hooks/use-time-entries';
+import { invalidateVacationBalances } from '@/hooks/use-vacation';
+import { getEntryKindLabel } from '@/utils/entries';
+import BreakFields from './break-fields';
+import ProjectSelect from './project-select';
 import { useTranslation } from 'react-i18next';
 
 interface EditEntryModalProps {
@@ -26,6 +38,10 @@ interface FormValues {
   endTime: string;
   hourlyRate: number;
   notes: string;
+  kind: EntryKind;
+  breaks: BreakSegment[]; // Перерывы внутри смены
+  projectId: number | null;
+  halfDay: boolean; // Отсутствие на половину рабочего дня
 }
 
 export default function EditEntryModal({ open, onClose, entryId }: EditEntryModalProps) {
@@ -41,16 +57,38 @@ export default function EditEntryModal({ open, onClose, entryId }: EditEntryModa
     enabled: open && !!entryId, // запрос выполняется только когда модальное окно открыто и есть ID записи
   });
   
-  const { register, handleSubmit, reset, setValue, formState: { errors } } = useForm<FormValues>({
+  const { data: user } = useQuery<User>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+  
+  const { rates } = useRates();
+  
+  const { register, control, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<FormValues>({
     defaultValues: {
       date: new Date().toISOString().split('T')[0], // формат yyyy-MM-dd
       startTime: '08:00',
       endTime: '18:00',
-      hourlyRate: 190,
+      hourlyRate: 0,
       notes: '',
+      kind: 'work',
+      breaks: [],
+      projectId: null,
+      halfDay: false,
     }
   });
   
+  // Для отсутствий (отпуск, больничный и т.д.) время и ставка не вводятся
+  const kind = watch('kind');
+  const kindRule = entryKindRules[kind];
+  const timesDisabled = !kindRule.hasTimes;
+  const timesRequired = kindRule.hasTimes && !kindRule.fullDayIfNoTimes;
+  
+  // Конец раньше начала — смена заканчивается на следующий день
+  const startTimeValue = watch('startTime');
+  const endTimeValue = watch('endTime');
+  const isOvernight = !timesDisabled && !!startTimeValue && !!endTimeValue && crossesMidnight(startTimeValue, endTimeValue);
+  
   // Заполняем форму данными записи, когда она загружена
   useEffect(() => {
     if (timeEntry) {
@@ -62,10 +100,15 @@ export default function EditEntryModal({ open, onClose, entryId }: EditEntryModa
       setValue('date', formattedDate);
       setValue('startTime', timeEntry.startTime);
       setValue('endTime', timeEntry.endTime);
-      setValue('hourlyRate', timeEntry.hourlyRate || 190);
+      // Записи без сохранённой ставки получают ставку из истории
+      setValue('hourlyRate', resolveEntryRate(timeEntry, rates));
       setValue('notes', timeEntry.notes || '');
+      setValue('kind', timeEntry.kind);
+      setValue('breaks', timeEntry.breaks ?? []);
+      setValue('projectId', timeEntry.projectId ?? null);
+      setValue('halfDay', timeEntry.halfDay);
     }
-  }, [timeEntry, setValue]);
+  }, [timeEntry, rates, setValue]);
   
   // Мутация для обновления записи
   const updateEntryMutation = useMutation({
@@ -84,8 +127,9 @@ export default function EditEntryModal({ open, onClose, entryId }: EditEntryModa
       // Инвалидируем все необходимые запросы для обновления данных
       queryClient.invalidateQueries({ queryKey: ['/api/time-entries'] });
       queryClient.invalidateQueries({ queryKey: [`/api/time-entries/${year}/${month}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/monthly-reports/${year}/${month}`] });
-      queryClient.invalidateQueries({ queryKey: ['/api/monthly-reports'] });
+      invalidateMonthlyReports(queryClient);
+      invalidatePayBreakdowns(queryClient);
+      invalidateVacationBalances(queryClient);
       
       reset();
       onClose();
@@ -106,12 +150,20 @@ export default function EditEntryModal({ open, onClose, entryId }: EditEntryModa
     const formattedDate = `${data.date}T12:00:00.000Z`;
     setCurrentEntryDate(formattedDate);
     
+    // Отсутствия хранятся без времени и ставки; у командировки время необязательно
+    const withTimes = entryKindRules[data.kind].hasTimes && !!data.startTime && !!data.endTime;
+    
     const updateData = {
       date: formattedDate,
-      startTime: data.startTime,
-      endTime: data.endTime,
-      hourlyRate: data.hourlyRate,
+      kind: data.kind,
+      startTime: withTimes ? data.startTime : "00:00",
+      endTime: withTimes ? data.endTime : "00:00",
+      hourlyRate: withTimes ? data.hourlyRate : 0,
       notes: data.notes,
+      projectId: data.projectId,
+      breaks: withTimes ? data.breaks : [],
+      // Половинный день есть только у отсутствий, уменьшающих норму
+      halfDay: entryKindRules[data.kind].reducesTarget && data.halfDay,
     };
     
     updateEntryMutation.mutate(updateData);
@@ -182,6 +234,54 @@ export default function EditEntryModal({ open, onClose, entryId }: EditEntryModa
             />
           </motion.div>
           
+          <motion.div
+            custom={0.5}
+            initial="hidden"
+            animate="visible"
+            variants={formAnimation}
+            key="kind-field"
+          >
+            <Label htmlFor="kind" className="text-muted-foreground">{t('entry_kind')}</Label>
+            <Select 
+              value={kind} 
+              onValueChange={(value) => setValue('kind', value as EntryKind)}
+            >
+              <SelectTrigger id="kind" className="bg-background border-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {entryKinds.map(entryKind => (
+                  <SelectItem key={entryKind} value={entryKind}>
+                    {getEntryKindLabel(entryKind)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {kindRule.reducesTarget && (
+              <div className="flex items-center justify-between mt-2">
+                <Label htmlFor="halfDay" className="text-muted-foreground">{t('half_day')}</Label>
+                <Switch
+                  id="halfDay"
+                  checked={watch('halfDay')}
+                  onCheckedChange={(checked) => setValue('halfDay', checked)}
+                />
+              </div>
+            )}
+          </motion.div>
+          
+          <motion.div
+            custom={0.75}
+            initial="hidden"
+            animate="visible"
+            variants={formAnimation}
+            key="project-field"
+          >
+            <ProjectSelect
+              value={watch('projectId')}
+              onChange={(projectId) => setValue('projectId', projectId)}
+            />
+          </motion.div>
+          
           <motion.div
             custom={1}
             initial="hidden"
@@ -211,7 +311,8 @@ export default function EditEntryModal({ open, onClose, entryId }: EditEntryModa
                 id="startTime" 
                 type="time" 
                 className="bg-background border-input" 
-                {...register('startTime', { required: true })} 
+                disabled={timesDisabled}
+                {...register('startTime', { required: timesRequired })} 
               />
             </div>
             <div>
@@ -220,9 +321,29 @@ export default function EditEntryModal({ open, onClose, entryId }: EditEntryModa
                 id="endTime" 
                 type="time" 
                 className="bg-background border-input" 
-                {...register('endTime', { required: true })} 
+                disabled={timesDisabled}
+                {...register('endTime', { required: timesRequired })} 
               />
             </div>
+            {isOvernight && (
+              <p className="col-span-2 text-xs text-muted-foreground">{t('overnight_shift_hint')}</p>
+            )}
+          </motion.div>
+          
+          <motion.div
+            custom={3.5}
+            initial="hidden"
+            animate="visible"
+            variants={formAnimation}
+            key="breaks-field"
+          >
+            <BreakFields
+              control={control}
+              register={register}
+              values={{ startTime: startTimeValue, endTime: endTimeValue, breaks: watch('breaks') }}
+              user={user}
+              disabled={timesDisabled}
+            />
           </motion.div>
           
           <motion.div
@@ -239,8 +360,9 @@ export default function EditEntryModal({ open, onClose, entryId }: EditEntryModa
               className="bg-background border-input" 
               min="0"
               step="10"
+              disabled={timesDisabled}
               {...register('hourlyRate', { 
-                required: true,
+                required: timesRequired,
                 valueAsNumber: true, 
                 min: 0 
               })} 
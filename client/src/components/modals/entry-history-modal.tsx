@@ -0,0 +1,109 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { useAuditLog } from '@/hooks/use-audit';
+import { useProjects } from '@/hooks/use-projects';
+import { getProjectLabel } from '@/utils/projects';
+import { type AuditAction, type AuditValues } from '@shared/audit';
+import { type BreakSegment } from '@shared/time';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+
+// Служебные поля записи в истории не показываются
+const hiddenFields = new Set(['id', 'userId']);
+
+const actionClasses: Record<AuditAction, string> = {
+  create: 'bg-success/20 text-success',
+  update: 'bg-primary/20 text-primary',
+  delete: 'bg-destructive/20 text-destructive',
+};
+
+interface EntryHistoryModalProps {
+  open: boolean;
+  onClose: () => void;
+  entryId: number | null;
+}
+
+/**
+ * История записи рабочего времени: кто и когда её создал, менял и удалял, с прежними и новыми значениями
+ */
+export default function EntryHistoryModal({ open, onClose, entryId }: EntryHistoryModalProps) {
+  const { t } = useTranslation();
+  const { projects, clients } = useProjects();
+  const { records, isLoading } = useAuditLog(
+    { entityType: 'time_entry', entityId: entryId ?? undefined },
+    open && entryId !== null,
+  );
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    switch (field) {
+      case 'date':
+        return format(new Date(String(value)), 'dd.MM.yyyy');
+      case 'breaks':
+        return (value as BreakSegment[]).map(item => `${item.startTime}–${item.endTime}`).join(', ') || '—';
+      case 'kind':
+        return t(`entry_kinds.${value}`);
+      case 'projectId':
+        return getProjectLabel(projects.find(project => project.id === value), clients);
+      case 'halfDay':
+        return value ? t('audit_yes') : t('audit_no');
+      default:
+        return String(value);
+    }
+  };
+
+  const renderChanges = (before: AuditValues | null, after: AuditValues | null) => {
+    const fields = Object.keys(after ?? before ?? {}).filter(field => !hiddenFields.has(field));
+    return (
+      <ul className="mt-1 space-y-0.5">
+        {fields.map(field => (
+          <li key={field}>
+            <span className="text-muted-foreground">{t(`audit_fields.${field}`, { defaultValue: field })}: </span>
+            {before && after ? (
+              <>
+                <span className="line-through text-muted-foreground">{formatValue(field, before[field])}</span>
+                {' → '}
+                <span>{formatValue(field, after[field])}</span>
+              </>
+            ) : (
+              <span>{formatValue(field, (after ?? before)![field])}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-card max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('entry_history')}</DialogTitle>
+          <DialogDescription>{t('entry_history_desc')}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">{t('loading_data')}</p>
+        ) : records.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('entry_history_empty')}</p>
+        ) : (
+          <ul className="text-sm space-y-3">
+            {records.map(record => (
+              <li key={record.id} className="border-b border-border pb-2 last:border-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground">{format(new Date(record.createdAt), 'dd.MM.yyyy HH:mm')}</span>
+                  <span className="truncate">{record.actorName ?? t('audit_system')}</span>
+                  <Badge className={`ml-auto ${actionClasses[record.action]}`}>
+                    {t(`audit_actions.${record.action}`)}
+                  </Badge>
+                </div>
+                {renderChanges(record.before, record.after)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
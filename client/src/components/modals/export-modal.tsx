@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,35 +6,38 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { format } from 'date-fns';
-import { uk } from 'date-fns/locale';
-import { exportTimeTracking } from '@/utils/export';
-import { TimeEntry, MonthlyReport, User } from '@shared/schema';
+import { downloadExport, getMonthExportUrl, getMonthsExportUrl } from '@/utils/export';
+import { getDefaultExportFilename, type ExportFormat, type ExportPeriod } from '@shared/export';
 import { motion } from 'framer-motion';
 import { useTranslation } from 'react-i18next';
 
+// Месяц со страницы статистики, год по этот месяц, весь год или свой интервал месяцев
+type ExportRange = 'month' | 'year_to_date' | 'year' | 'custom';
+
 interface ExportModalProps {
   open: boolean;
   onClose: () => void;
-  user: User;
-  entries: TimeEntry[];
-  monthlyReport: MonthlyReport;
   year: number;
   month: number;
 }
 
+// Месяц в формате YYYY-MM, как у <input type="month">
+function toMonthValue(year: number, month: number): string {
+  return `${year}-${month.toString().padStart(2, '0')}`;
+}
+
 export default function ExportModal({ 
   open, 
   onClose, 
-  user, 
-  entries, 
-  monthlyReport,
   year,
   month
 }: ExportModalProps) {
   const { toast } = useToast();
-  const [fileFormat, setFileFormat] = useState<'pdf' | 'excel' | 'csv'>('pdf');
-  const [filename, setFilename] = useState<string>(`Výkaz_práce_${month}_${year}`);
+  const [fileFormat, setFileFormat] = useState<ExportFormat>('pdf');
+  const [range, setRange] = useState<ExportRange>('month');
+  const [customFrom, setCustomFrom] = useState(toMonthValue(year, 1));
+  const [customTo, setCustomTo] = useState(toMonthValue(year, month));
+  const [filename, setFilename] = useState<string>(getDefaultExportFilename({ year, month }));
   const [isExporting, setIsExporting] = useState(false);
   
   const [options, setOptions] = useState({
@@ -47,6 +50,35 @@ export default function ExportModal({
   
   const { t } = useTranslation();
   
+  // Интервал месяцев YYYY-MM для всего, кроме одного месяца
+  const months = useMemo(() => {
+    switch (range) {
+      case 'month':
+        return null;
+      case 'year_to_date':
+        return { from: toMonthValue(year, 1), to: toMonthValue(year, month) };
+      case 'year':
+        return { from: toMonthValue(year, 1), to: toMonthValue(year, 12) };
+      case 'custom':
+        return { from: customFrom, to: customTo };
+    }
+  }, [range, year, month, customFrom, customTo]);
+  
+  const isRangeValid = !months || (!!months.from && !!months.to && months.from <= months.to);
+  
+  // Имя файла по умолчанию следует за выбранным периодом
+  useEffect(() => {
+    if (!months) {
+      setFilename(getDefaultExportFilename({ year, month }));
+      return;
+    }
+    if (!isRangeValid) return;
+    const [fromYear, fromMonth] = months.from.split('-').map(Number);
+    const [toYear, toMonth] = months.to.split('-').map(Number);
+    const period: ExportPeriod = { from: new Date(fromYear, fromMonth - 1, 1), to: new Date(toYear, toMonth, 0) };
+    setFilename(getDefaultExportFilename(period));
+  }, [year, month, months, isRangeValid]);
+  
   const handleOptionChange = (option: keyof typeof options) => {
     setOptions(prev => ({
       ...prev,
@@ -57,14 +89,11 @@ export default function ExportModal({
   const handleExport = async () => {
     try {
       setIsExporting(true);
-      await exportTimeTracking(
-        fileFormat, 
-        user, 
-        entries, 
-        monthlyReport, 
-        options,
-        filename
-      );
+      // Табель формируется на сервере, модальное окно только передаёт параметры
+      const url = months
+        ? getMonthsExportUrl(months.from, months.to, fileFormat, options, filename)
+        : getMonthExportUrl(year, month, fileFormat, options, filename);
+      await downloadExport(url, fileFormat, filename);
       
       toast({
         title: t('export_done'),
@@ -122,14 +151,14 @@ export default function ExportModal({
             <Label htmlFor="fileFormat" className="text-muted-foreground">{t('file_format')}</Label>
             <Select 
               value={fileFormat} 
-              onValueChange={(value) => setFileFormat(value as 'pdf' | 'excel' | 'csv')}
+              onValueChange={(value) => setFileFormat(value as ExportFormat)}
             >
               <SelectTrigger className="bg-background border-input">
                 <SelectValue placeholder={t('choose_file_format')} />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="pdf">PDF</SelectItem>
-                <SelectItem value="excel">Excel</SelectItem>
+                <SelectItem value="xlsx">Excel</SelectItem>
                 <SelectItem value="csv">CSV</SelectItem>
               </SelectContent>
             </Select>
@@ -140,6 +169,61 @@ export default function ExportModal({
             initial="hidden"
             animate="visible"
             variants={formAnimation}
+            className="space-y-2"
+          >
+            <Label htmlFor="exportRange" className="text-muted-foreground">{t('export_range')}</Label>
+            <Select 
+              value={range} 
+              onValueChange={(value) => setRange(value as ExportRange)}
+            >
+              <SelectTrigger id="exportRange" className="bg-background border-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">{t('export_range_month')}</SelectItem>
+                <SelectItem value="year_to_date">{t('export_range_year_to_date')}</SelectItem>
+                <SelectItem value="year">{t('export_range_year', { year })}</SelectItem>
+                <SelectItem value="custom">{t('export_range_custom')}</SelectItem>
+              </SelectContent>
+            </Select>
+            
+            {range === 'custom' && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="exportFrom" className="text-muted-foreground text-sm">{t('export_range_from')}</Label>
+                  <Input 
+                    id="exportFrom" 
+                    type="month" 
+                    className="bg-background border-input" 
+                    value={customFrom}
+                    onChange={(e) => setCustomFrom(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="exportTo" className="text-muted-foreground text-sm">{t('export_range_to')}</Label>
+                  <Input 
+                    id="exportTo" 
+                    type="month" 
+                    className="bg-background border-input" 
+                    value={customTo}
+                    onChange={(e) => setCustomTo(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+            
+            {months && (
+              <p className="text-xs text-muted-foreground">
+                {isRangeValid ? t('export_range_hint') : t('export_range_invalid')}
+              </p>
+            )}
+          </motion.div>
+          
+          <motion.div
+            custom={2}
+            initial="hidden"
+            animate="visible"
+            variants={formAnimation}
           >
             <Label htmlFor="filename" className="text-muted-foreground">{t('file_name')}</Label>
             <Input 
@@ -152,7 +236,7 @@ export default function ExportModal({
           </motion.div>
           
           <motion.div
-            custom={2}
+            custom={3}
             initial="hidden"
             animate="visible"
             variants={formAnimation}
@@ -222,7 +306,7 @@ export default function ExportModal({
                   type="button" 
                   className="w-full bg-primary hover:bg-primary-dark text-white"
                   onClick={handleExport}
-                  disabled={isExporting}
+                  disabled={isExporting || !isRangeValid}
                 >
                   {isExporting ? 'Експорт...' : 'Експортувати'}
                 </Button>
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { readFileAsBase64, useImport } from '@/hooks/use-import';
+import { hasRecordedTimes } from '@shared/entry-kinds';
+import {
+  importFields,
+  importRowStatuses,
+  type ColumnMapping,
+  type ImportField,
+  type ImportFormat,
+  type ImportPreview,
+  type ImportRowStatus,
+} from '@shared/import';
+import { format, parseISO } from 'date-fns';
+import { motion } from 'framer-motion';
+import { useTranslation } from 'react-i18next';
+
+interface ImportModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const statusClasses: Record<ImportRowStatus, string> = {
+  new: 'text-success',
+  duplicate: 'text-muted-foreground',
+  overlap: 'text-destructive',
+  invalid: 'text-destructive',
+};
+
+export default function ImportModal({ open, onClose }: ImportModalProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { error, preview, commit, isPending } = useImport();
+  const [fileFormat, setFileFormat] = useState<ImportFormat>('vykaz');
+  const [file, setFile] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportPreview | null>(null);
+
+  const loadPreview = async (data: string, importFormat: ImportFormat, mapping?: ColumnMapping) => {
+    try {
+      setResult(await preview({ file: data, format: importFormat, mapping }));
+    } catch {
+      // Сообщение об ошибке показывается из useImport
+      setResult(null);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    const data = await readFileAsBase64(selected);
+    setFile(data);
+    await loadPreview(data, fileFormat);
+  };
+
+  const handleFormatChange = (value: ImportFormat) => {
+    setFileFormat(value);
+    if (file) loadPreview(file, value);
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    if (!file || !result) return;
+    const mapping = { ...result.mapping };
+    if (value === 'none') {
+      delete mapping[field];
+    } else {
+      mapping[field] = Number(value);
+    }
+    loadPreview(file, fileFormat, mapping);
+  };
+
+  const handleClose = () => {
+    setFile(null);
+    setResult(null);
+    onClose();
+  };
+
+  const counts = importRowStatuses.reduce((acc, status) => ({
+    ...acc,
+    [status]: result?.rows.filter(row => row.status === status).length ?? 0,
+  }), {} as Record<ImportRowStatus, number>);
+
+  // Строки с ошибками разбора не импортируются, а пересечения нужно сначала исправить
+  const canImport = !!result && counts.new > 0 && counts.overlap === 0 && !isPending;
+
+  const handleImport = async () => {
+    if (!result) return;
+    try {
+      const imported = await commit(result.rows.filter(row => row.status === 'new' || row.status === 'duplicate'));
+      toast({
+        title: t('import_done'),
+        description: t('import_done_desc', { imported: imported.imported, skipped: imported.skipped }),
+      });
+      handleClose();
+    } catch {
+      // Сообщение об ошибке показывается из useImport
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="bg-card max-w-2xl mx-auto">
+        <DialogHeader className="bg-primary -mx-6 -mt-6 px-6 py-3 mb-4">
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.4 }}
+          >
+            <DialogTitle className="text-white">{t('import_data')}</DialogTitle>
+            <DialogDescription className="text-white/80 text-sm mt-1">
+              {t('import_desc')}
+            </DialogDescription>
+          </motion.div>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="importFormat" className="text-muted-foreground">{t('file_format')}</Label>
+              <Select value={fileFormat} onValueChange={(value) => handleFormatChange(value as ImportFormat)}>
+                <SelectTrigger id="importFormat" className="bg-background border-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="vykaz">{t('import_format_vykaz')}</SelectItem>
+                  <SelectItem value="table">{t('import_format_table')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="importFile" className="text-muted-foreground">{t('import_file')}</Label>
+              <Input
+                id="importFile"
+                type="file"
+                accept=".xls,.xlsx,.csv"
+                className="bg-background border-input"
+                onChange={handleFileChange}
+              />
+            </div>
+          </div>
+
+          {result && result.format === 'table' && (
+            <div className="space-y-2">
+              <Label className="text-muted-foreground">{t('import_mapping')}</Label>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {importFields.map(field => (
+                  <div key={field}>
+                    <span className="text-xs text-muted-foreground">{t(`import_fields.${field}`)}</span>
+                    <Select
+                      value={result.mapping[field] === undefined ? 'none' : String(result.mapping[field])}
+                      onValueChange={(value) => handleMappingChange(field, value)}
+                      disabled={isPending}
+                    >
+                      <SelectTrigger className="bg-background border-input h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">{t('import_column_none')}</SelectItem>
+                        {result.columns.map((column, index) => (
+                          <SelectItem key={index} value={String(index)}>{column || `#${index + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {result.mapping.date === undefined && (
+                <p className="text-xs text-destructive">{t('import_map_date_hint')}</p>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {result && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">{t('import_summary', counts)}</p>
+              {counts.overlap > 0 && (
+                <p className="text-xs text-destructive">{t('import_overlap_hint')}</p>
+              )}
+              <div className="max-h-72 overflow-y-auto border border-gray-700 rounded-md">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-card">
+                    <tr className="text-muted-foreground">
+                      <th className="p-2 text-left">{t('import_row')}</th>
+                      <th className="p-2 text-left">{t('import_fields.date')}</th>
+                      <th className="p-2 text-left">{t('entry_kind')}</th>
+                      <th className="p-2 text-left">{t('import_time')}</th>
+                      <th className="p-2 text-left">{t('import_fields.notes')}</th>
+                      <th className="p-2 text-left">{t('import_status_header')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.rows.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="p-4 text-center text-muted-foreground">{t('import_no_rows')}</td>
+                      </tr>
+                    ) : result.rows.map(row => (
+                      <tr key={row.rowNumber} className="border-t border-gray-700">
+                        <td className="p-2">{row.rowNumber}</td>
+                        <td className="p-2">{row.date ? format(parseISO(row.date), 'dd.MM.yyyy') : '—'}</td>
+                        <td className="p-2">
+                          {t(`entry_kinds.${row.kind}`)}
+                          {row.halfDay && ` (${t('half_day')})`}
+                        </td>
+                        <td className="p-2">{hasRecordedTimes(row) ? `${row.startTime}–${row.endTime}` : '—'}</td>
+                        <td className="p-2">{row.notes || '—'}</td>
+                        <td className={`p-2 ${statusClasses[row.status]}`} title={row.message ?? undefined}>
+                          {t(`import_status.${row.status}`)}
+                          {row.message && <div className="text-muted-foreground">{row.message}</div>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter className="pt-2">
+            <Button type="button" variant="outline" onClick={handleClose} className="flex-1" disabled={isPending}>
+              {t('cancel')}
+            </Button>
+            <Button
+              type="button"
+              className="flex-1 bg-primary hover:bg-primary-dark text-white"
+              onClick={handleImport}
+              disabled={!canImport}
+            >
+              {t('import_button', { count: counts.new })}
+            </Button>
+          </DialogFooter>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTranslation } from 'react-i18next';
+import { useProjects } from '@/hooks/use-projects';
+import { getProjectLabel } from '@/utils/projects';
+
+// Select не допускает пустое значение, поэтому «без проекта» кодируется отдельной строкой
+const NO_PROJECT = 'none';
+
+interface ProjectSelectProps {
+  value: number | null;
+  onChange: (projectId: number | null) => void;
+}
+
+/**
+ * Выбор проекта записи; архивные проекты скрыты, кроме уже выбранного
+ */
+export default function ProjectSelect({ value, onChange }: ProjectSelectProps) {
+  const { t } = useTranslation();
+  const { projects, clients } = useProjects();
+
+  const options = projects.filter(project => !project.archived || project.id === value);
+
+  return (
+    <div>
+      <Label htmlFor="projectId" className="text-muted-foreground">{t('project')}</Label>
+      <Select
+        value={value ? value.toString() : NO_PROJECT}
+        onValueChange={(selected) => onChange(selected === NO_PROJECT ? null : Number(selected))}
+      >
+        <SelectTrigger id="projectId" className="bg-background border-input">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PROJECT}>{t('no_project')}</SelectItem>
+          {options.map(project => (
+            <SelectItem key={project.id} value={project.id.toString()}>
+              {getProjectLabel(project, clients)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
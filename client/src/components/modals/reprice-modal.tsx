@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useRates, type RepricePreview, type RepriceRange } from '@/hooks/use-rates';
+import { useProjects } from '@/hooks/use-projects';
+import { getProjectLabel } from '@/utils/projects';
+import { useTranslation } from 'react-i18next';
+
+const ALL_PROJECTS = 'all';
+
+interface RepriceModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Переоценка записей за период по истории ставок: сначала предпросмотр разницы, затем применение
+ */
+export default function RepriceModal({ open, onClose }: RepriceModalProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { previewReprice, applyReprice, isPending } = useRates();
+  const { projects, clients } = useProjects();
+
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [project, setProject] = useState(ALL_PROJECTS);
+  const [preview, setPreview] = useState<RepricePreview | null>(null);
+
+  const range: RepriceRange = {
+    from: `${from}T12:00:00.000Z`,
+    to: `${to}T12:00:00.000Z`,
+    projectId: project === ALL_PROJECTS ? undefined : Number(project),
+  };
+
+  const handleClose = () => {
+    setPreview(null);
+    onClose();
+  };
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t('error'),
+      description: error instanceof Error ? error.message : String(error),
+      variant: 'destructive',
+    });
+  };
+
+  const handlePreview = async () => {
+    try {
+      setPreview(await previewReprice(range));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleApply = async () => {
+    try {
+      const result = await applyReprice(range);
+      toast({
+        title: t('reprice_done'),
+        description: t('reprice_done_desc', { count: result.changes.length }),
+      });
+      handleClose();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  // Любое изменение параметров делает предпросмотр неактуальным
+  const resetPreview = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPreview(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="bg-card max-w-md mx-auto">
+        <DialogHeader className="bg-primary -mx-6 -mt-6 px-6 py-3 mb-4">
+          <DialogTitle className="text-white">{t('reprice_entries')}</DialogTitle>
+          <DialogDescription className="text-white/80 text-sm mt-1">
+            {t('reprice_desc')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="repriceFrom" className="text-muted-foreground">{t('period_from')}</Label>
+              <Input
+                id="repriceFrom"
+                type="date"
+                className="bg-background border-input"
+                value={from}
+                onChange={(e) => resetPreview(setFrom)(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="repriceTo" className="text-muted-foreground">{t('period_to')}</Label>
+              <Input
+                id="repriceTo"
+                type="date"
+                className="bg-background border-input"
+                value={to}
+                onChange={(e) => resetPreview(setTo)(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="repriceProject" className="text-muted-foreground">{t('project')}</Label>
+            <Select value={project} onValueChange={resetPreview(setProject)}>
+              <SelectTrigger id="repriceProject" className="bg-background border-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROJECTS}>{t('all_projects')}</SelectItem>
+                {projects.map(item => (
+                  <SelectItem key={item.id} value={item.id.toString()}>
+                    {getProjectLabel(item, clients)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {preview && (
+            <div className="rounded-md border border-input p-3 text-sm space-y-1">
+              <div>{t('reprice_entries_count', { count: preview.changes.length })}</div>
+              <div className="flex justify-between text-muted-foreground">
+                <span>{t('reprice_current_pay')}</span>
+                <span>{preview.currentPay} CZK</span>
+              </div>
+              <div className="flex justify-between text-muted-foreground">
+                <span>{t('reprice_new_pay')}</span>
+                <span>{preview.newPay} CZK</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>{t('reprice_difference')}</span>
+                <span>{preview.difference > 0 ? '+' : ''}{preview.difference} CZK</span>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter className="pt-2">
+            <Button type="button" variant="outline" onClick={handlePreview} className="flex-1" disabled={isPending}>
+              {t('reprice_preview')}
+            </Button>
+            <Button
+              type="button"
+              className="flex-1 bg-primary hover:bg-primary-dark text-white"
+              onClick={handleApply}
+              disabled={isPending || !preview || preview.changes.length === 0}
+            >
+              {t('reprice_apply')}
+            </Button>
+          </DialogFooter>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
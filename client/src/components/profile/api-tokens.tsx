@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useApiTokens } from '@/hooks/use-api-tokens';
+import { apiTokenExpiryDays, apiTokenScopes, type ApiTokenScope, type PublicApiToken } from '@shared/api-tokens';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { Copy, KeyRound, Trash2 } from 'lucide-react';
+
+// Ключи переводов без двоеточия: в i18next оно отделяет пространство имён
+const scopeLabelKeys: Record<ApiTokenScope, string> = {
+  'entries:read': 'api_token_scope_names.entries_read',
+  'entries:write': 'api_token_scope_names.entries_write',
+  'reports:read': 'api_token_scope_names.reports_read',
+};
+
+function formatDate(value: Date | string): string {
+  return format(new Date(value), 'dd.MM.yyyy HH:mm');
+}
+
+/**
+ * Личные токены для скриптов и интеграций: создание, список и отзыв
+ */
+export default function ApiTokens() {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { tokens, error, createToken, revokeToken, isPending } = useApiTokens();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['entries:read']);
+  const [expiresInDays, setExpiresInDays] = useState<number>(90);
+  // Токен показывается один раз, сразу после создания
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(current => checked
+      ? apiTokenScopes.filter(item => item === scope || current.includes(item))
+      : current.filter(item => item !== scope));
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const result = await createToken({ name: name.trim(), scopes, expiresInDays });
+      setCreatedToken(result.token);
+      setName('');
+    } catch {
+      // Ошибка показывается под карточкой
+    }
+  };
+
+  const handleRevoke = async (token: PublicApiToken) => {
+    if (!window.confirm(t('api_token_revoke_confirm', { name: token.name }))) return;
+    try {
+      await revokeToken(token.id);
+      toast({ title: t('api_token_revoked') });
+    } catch {
+      // Ошибка показывается под карточкой
+    }
+  };
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: t('two_factor_copied') });
+    } catch {
+      // Без доступа к буферу обмена текст можно выделить и скопировать вручную
+    }
+  };
+
+  return (
+    <Card className="bg-card rounded-lg shadow-lg p-4 mb-4">
+      <CardContent className="p-0">
+        <h3 className="text-lg font-medium mb-2">{t('api_tokens')}</h3>
+        <p className="text-sm text-muted-foreground mb-4">{t('api_tokens_description')}</p>
+
+        {createdToken ? (
+          <div className="space-y-3 mb-4">
+            <p className="text-sm text-muted-foreground">{t('api_token_created_desc')}</p>
+            <div className="flex gap-2">
+              <Input readOnly value={createdToken} className="bg-background border-input font-mono text-xs" />
+              <Button type="button" variant="outline" size="icon" onClick={() => handleCopy(createdToken)}>
+                <Copy size={16} />
+              </Button>
+            </div>
+            <Button type="button" className="w-full" onClick={() => setCreatedToken(null)}>
+              {t('two_factor_done')}
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleCreate} className="space-y-3 mb-4">
+            <div>
+              <Label htmlFor="apiTokenName" className="text-muted-foreground">{t('api_token_name')}</Label>
+              <Input
+                id="apiTokenName"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                maxLength={100}
+                className="bg-background border-input"
+              />
+            </div>
+            <div>
+              <Label className="text-muted-foreground">{t('api_token_scopes')}</Label>
+              <div className="space-y-2 mt-1">
+                {apiTokenScopes.map(scope => (
+                  <label key={scope} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    {t(scopeLabelKeys[scope])}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="apiTokenExpiry" className="text-muted-foreground">{t('api_token_expiry')}</Label>
+              <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+                <SelectTrigger id="apiTokenExpiry" className="bg-background border-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {apiTokenExpiryDays.map(days => (
+                    <SelectItem key={days} value={String(days)}>
+                      {t('api_token_expiry_days', { count: days })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" variant="outline" className="w-full" disabled={isPending || !name.trim() || scopes.length === 0}>
+              <KeyRound size={16} className="mr-2" />
+              {t('api_token_create')}
+            </Button>
+          </form>
+        )}
+
+        {tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('api_tokens_empty')}</p>
+        ) : (
+          <ul className="space-y-3">
+            {tokens.map(token => {
+              const isExpired = new Date(token.expiresAt) <= new Date();
+              return (
+                <li key={token.id} className="flex items-start gap-2 text-sm">
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{token.name}</span>
+                      <span className="font-mono text-xs text-muted-foreground">{token.tokenPrefix}…</span>
+                      {isExpired && (
+                        <Badge className="bg-destructive/20 text-destructive">{t('api_token_expired')}</Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map(scope => (
+                        <Badge key={scope} variant="outline">{t(scopeLabelKeys[scope])}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {t('api_token_expires', { date: formatDate(token.expiresAt) })}
+                      {' · '}
+                      {token.lastUsedAt
+                        ? t('api_token_last_used', { date: formatDate(token.lastUsedAt) })
+                        : t('api_token_never_used')}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRevoke(token)}
+                    disabled={isPending}
+                    title={t('api_token_revoke')}
+                  >
+                    <Trash2 size={16} />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {error && <p className="text-sm text-destructive mt-2">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useQuery } from '@tanstack/react-query';
+import { getQueryFn } from '@/lib/queryClient';
+import { getCalendarFeedUrl, useCalendarFeed } from '@/hooks/use-calendar';
+import { User } from '@shared/schema';
+import { useTranslation } from 'react-i18next';
+import { CalendarDays, Copy, RefreshCw } from 'lucide-react';
+
+/**
+ * Ссылка на календарь записей для подписки в Google, Apple или Outlook
+ */
+export default function CalendarFeed() {
+  const { toast } = useToast();
+  const { t, i18n } = useTranslation();
+  const { createToken, revokeToken, error, isPending } = useCalendarFeed();
+
+  const { data: user } = useQuery<User>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const feedUrl = user?.calendarToken ? getCalendarFeedUrl(user.calendarToken, i18n.language) : null;
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: t('calendar_feed_copied') });
+    } catch {
+      // Без доступа к буферу обмена ссылку можно скопировать из поля
+    }
+  };
+
+  const handleRegenerate = () => {
+    if (!window.confirm(t('calendar_feed_regenerate_confirm'))) return;
+    createToken().catch(() => {});
+  };
+
+  return (
+    <Card className="bg-card rounded-lg shadow-lg p-4 mb-4">
+      <CardContent className="p-0">
+        <h3 className="text-lg font-medium mb-2">{t('calendar_feed')}</h3>
+        <p className="text-sm text-muted-foreground mb-4">{t('calendar_feed_description')}</p>
+
+        {feedUrl ? (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={feedUrl}
+                className="bg-background border-input text-xs"
+                onFocus={(event) => event.target.select()}
+              />
+              <Button type="button" variant="outline" size="icon" onClick={handleCopy} title={t('calendar_feed_copy')}>
+                <Copy size={16} />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Button type="button" variant="outline" onClick={handleRegenerate} disabled={isPending}>
+                <RefreshCw size={16} className="mr-2" />
+                {t('calendar_feed_regenerate')}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => revokeToken().catch(() => {})} disabled={isPending}>
+                {t('calendar_feed_disable')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button type="button" variant="outline" className="w-full" onClick={() => createToken().catch(() => {})} disabled={isPending}>
+            <CalendarDays size={16} className="mr-2" />
+            {t('calendar_feed_enable')}
+          </Button>
+        )}
+
+        {error && <p className="text-sm text-destructive mt-2">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useLoginAttempts } from '@/hooks/use-login-attempts';
+import { LoginAttempt } from '@shared/schema';
+import { type LoginAttemptOutcome } from '@shared/login-attempts';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+
+const outcomeClasses: Record<LoginAttemptOutcome, string> = {
+  success: 'bg-success/20 text-success',
+  failed: 'bg-destructive/20 text-destructive',
+  blocked: 'bg-amber-500/20 text-amber-500',
+};
+
+interface LoginAttemptListProps {
+  attempts: LoginAttempt[];
+  showUsername?: boolean;
+}
+
+/**
+ * Список попыток входа: время, адрес и результат
+ */
+export function LoginAttemptList({ attempts, showUsername }: LoginAttemptListProps) {
+  const { t } = useTranslation();
+
+  if (attempts.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('login_history_empty')}</p>;
+  }
+
+  return (
+    <ul className="text-sm space-y-1">
+      {attempts.map(attempt => (
+        <li key={attempt.id} className="flex items-center gap-2">
+          <span className="text-muted-foreground">{format(new Date(attempt.createdAt), 'dd.MM.yyyy HH:mm')}</span>
+          {showUsername && <span className="font-medium truncate">{attempt.username}</span>}
+          <span className="text-muted-foreground truncate">{attempt.ip}</span>
+          <Badge className={`ml-auto ${outcomeClasses[attempt.outcome]}`}>
+            {t(`login_attempt_outcomes.${attempt.outcome}`)}
+          </Badge>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Последние входы в свою учётную запись, чтобы заметить чужие попытки
+ */
+export default function LoginHistory() {
+  const { t } = useTranslation();
+  const { attempts } = useLoginAttempts();
+
+  return (
+    <Card className="bg-card rounded-lg shadow-lg p-4 mb-4">
+      <CardContent className="p-0">
+        <h3 className="text-lg font-medium mb-4">{t('login_history')}</h3>
+        <LoginAttemptList attempts={attempts} />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { usePayRules } from '@/hooks/use-pay';
+import { getSurchargeLabel } from '@/utils/pay';
+import { type PayRuleMode, type PayRuleSettings } from '@shared/pay';
+import { useTranslation } from 'react-i18next';
+
+/**
+ * Настройка доплат: сверхурочные, ночная работа, выходные и праздники
+ */
+export default function PayRulesManager() {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { rules, updateRule, isPending } = usePayRules();
+  const [draft, setDraft] = useState<PayRuleSettings[]>([]);
+
+  // Пустой список до загрузки каждый раз новый, поэтому ждём данных с сервера
+  useEffect(() => {
+    if (rules.length > 0) {
+      setDraft(rules);
+    }
+  }, [rules]);
+
+  const changeRule = (index: number, changes: Partial<PayRuleSettings>) => {
+    setDraft(prev => prev.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const handleSave = () => {
+    const changed = draft.filter(rule => {
+      const saved = rules.find(item => item.kind === rule.kind);
+      return JSON.stringify(saved) !== JSON.stringify(rule);
+    });
+
+    for (const rule of changed) {
+      updateRule(rule, {
+        onSuccess: () => {
+          toast({
+            title: t('pay_rules_saved'),
+            description: getSurchargeLabel(rule.kind),
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: t('error'),
+            description: error.message,
+            variant: 'destructive',
+          });
+        },
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-card rounded-lg shadow-lg p-4 mb-4">
+      <CardContent className="p-0">
+        <h3 className="text-lg font-medium mb-4">{t('pay_rules')}</h3>
+
+        <div className="space-y-4">
+          {draft.map((rule, index) => (
+            <div key={rule.kind} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor={`payRule-${rule.kind}`}>{getSurchargeLabel(rule.kind)}</Label>
+                <Switch
+                  id={`payRule-${rule.kind}`}
+                  checked={rule.enabled}
+                  onCheckedChange={(checked) => changeRule(index, { enabled: checked })}
+                />
+              </div>
+
+              {rule.enabled && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Select
+                    value={rule.mode}
+                    onValueChange={(value) => changeRule(index, { mode: value as PayRuleMode })}
+                  >
+                    <SelectTrigger className="bg-background border-input">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percent">{t('pay_rule_percent')}</SelectItem>
+                      <SelectItem value="fixed">{t('pay_rule_fixed')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    className="bg-background border-input"
+                    value={rule.value}
+                    onChange={(e) => changeRule(index, { value: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                  />
+
+                  {rule.kind === 'night' && (
+                    <>
+                      <Input
+                        type="time"
+                        className="bg-background border-input"
+                        value={rule.windowStart ?? ''}
+                        onChange={(e) => changeRule(index, { windowStart: e.target.value })}
+                      />
+                      <Input
+                        type="time"
+                        className="bg-background border-input"
+                        value={rule.windowEnd ?? ''}
+                        onChange={(e) => changeRule(index, { windowEnd: e.target.value })}
+                      />
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <Button
+          type="button"
+          className="w-full mt-4 bg-primary hover:bg-primary-dark text-white"
+          onClick={handleSave}
+          disabled={isPending}
+        >
+          {t('save')}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
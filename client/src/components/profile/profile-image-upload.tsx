@@ -1,5 +1,5 @@
 import React, { useState, useRef } from 'react';
-import { User } from '@shared/schema';
+import { User, type ProfileUpdate } from '@shared/schema';
 import { UserIcon, Upload, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
@@ -17,7 +17,7 @@ export default function ProfileImageUpload({ user }: ProfileImageUploadProps) {
   const [previewUrl, setPreviewUrl] = useState<string | null>(user?.profileImage || null);
 
   const updateProfileImageMutation = useMutation({
-    mutationFn: (data: { profileImage: string }) => apiRequest('PATCH', '/api/user', data),
+    mutationFn: (data: Pick<ProfileUpdate, 'profileImage'>) => apiRequest('PATCH', '/api/user', data),
     onSuccess: () => {
       toast({
         title: 'Фото профілю оновлено',
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Archive, ArchiveRestore, PlusIcon, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useProjects } from '@/hooks/use-projects';
+import { getProjectLabel } from '@/utils/projects';
+import { useTranslation } from 'react-i18next';
+
+const NO_CLIENT = 'none';
+
+/**
+ * Управление проектами и клиентами пользователя
+ */
+export default function ProjectsManager() {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const {
+    projects,
+    clients,
+    createProject,
+    updateProject,
+    deleteProject,
+    createClient,
+    deleteClient,
+    isPending,
+  } = useProjects();
+
+  const [projectName, setProjectName] = useState('');
+  const [projectClient, setProjectClient] = useState(NO_CLIENT);
+  const [clientName, setClientName] = useState('');
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('error'),
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const handleAddProject = () => {
+    if (!projectName.trim()) return;
+    createProject(
+      {
+        name: projectName.trim(),
+        clientId: projectClient === NO_CLIENT ? null : Number(projectClient),
+      },
+      {
+        onSuccess: () => setProjectName(''),
+        onError,
+      }
+    );
+  };
+
+  const handleAddClient = () => {
+    if (!clientName.trim()) return;
+    createClient({ name: clientName.trim() }, {
+      onSuccess: () => setClientName(''),
+      onError,
+    });
+  };
+
+  return (
+    <Card className="bg-card rounded-lg shadow-lg p-4 mb-4">
+      <CardContent className="p-0">
+        <h3 className="text-lg font-medium mb-4">{t('projects')}</h3>
+
+        <div className="space-y-2 mb-4">
+          {projects.length === 0 && (
+            <p className="text-sm text-muted-foreground">{t('no_projects')}</p>
+          )}
+          {projects.map(project => (
+            <div key={project.id} className="flex items-center">
+              <span className={`text-sm truncate ${project.archived ? 'text-muted-foreground line-through' : ''}`}>
+                {getProjectLabel(project, clients)}
+              </span>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 ml-auto text-muted-foreground hover:text-primary"
+                title={project.archived ? t('restore_project') : t('archive_project')}
+                onClick={() => updateProject({ id: project.id, data: { archived: !project.archived } }, { onError })}
+              >
+                {project.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+              </Button>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                onClick={() => deleteProject(project.id, { onError })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-[1fr_auto] gap-2 mb-2">
+          <Input
+            placeholder={t('project_name')}
+            className="bg-background border-input"
+            value={projectName}
+            onChange={(e) => setProjectName(e.target.value)}
+          />
+          <Button type="button" size="icon" onClick={handleAddProject} disabled={isPending || !projectName.trim()}>
+            <PlusIcon className="h-4 w-4" />
+          </Button>
+        </div>
+        <Select value={projectClient} onValueChange={setProjectClient}>
+          <SelectTrigger className="bg-background border-input">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_CLIENT}>{t('no_client')}</SelectItem>
+            {clients.map(client => (
+              <SelectItem key={client.id} value={client.id.toString()}>{client.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Label className="block text-muted-foreground text-sm mt-6 mb-2">{t('clients')}</Label>
+        <div className="space-y-2 mb-2">
+          {clients.map(client => (
+            <div key={client.id} className="flex items-center">
+              <span className="text-sm truncate">{client.name}</span>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 ml-auto text-muted-foreground hover:text-destructive"
+                onClick={() => deleteClient(client.id, { onError })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-[1fr_auto] gap-2">
+          <Input
+            placeholder={t('client_name')}
+            className="bg-background border-input"
+            value={clientName}
+            onChange={(e) => setClientName(e.target.value)}
+          />
+          <Button type="button" size="icon" onClick={handleAddClient} disabled={isPending || !clientName.trim()}>
+            <PlusIcon className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PlusIcon, RefreshCw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useRates } from '@/hooks/use-rates';
+import { useProjects } from '@/hooks/use-projects';
+import { findProject, getProjectLabel } from '@/utils/projects';
+import RepriceModal from '@/components/modals/reprice-modal';
+import { useTranslation } from 'react-i18next';
+
+const ALL_PROJECTS = 'all';
+
+/**
+ * История почасовых ставок: общая ставка пользователя и ставки отдельных проектов
+ */
+export default function RatesManager() {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { rates, createRate, deleteRate, isPending } = useRates();
+  const { projects, clients } = useProjects();
+
+  const [effectiveFrom, setEffectiveFrom] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [rateProject, setRateProject] = useState(ALL_PROJECTS);
+  const [rate, setRate] = useState('');
+  const [repriceOpen, setRepriceOpen] = useState(false);
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('error'),
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const handleAddRate = () => {
+    const value = Number(rate);
+    if (!rate || Number.isNaN(value) || value < 0) return;
+    createRate(
+      {
+        projectId: rateProject === ALL_PROJECTS ? null : Number(rateProject),
+        rate: Math.round(value),
+        effectiveFrom: `${effectiveFrom}T12:00:00.000Z`,
+      },
+      {
+        onSuccess: () => setRate(''),
+        onError,
+      }
+    );
+  };
+
+  return (
+    <Card className="bg-card rounded-lg shadow-lg p-4 mb-4">
+      <CardContent className="p-0">
+        <div className="flex items-center mb-4">
+          <h3 className="text-lg font-medium">{t('hourly_rates')}</h3>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-8 text-muted-foreground hover:text-primary"
+            onClick={() => setRepriceOpen(true)}
+          >
+            <RefreshCw className="h-4 w-4 mr-1" />
+            {t('reprice_entries')}
+          </Button>
+        </div>
+
+        <div className="space-y-2 mb-4">
+          {rates.length === 0 && (
+            <p className="text-sm text-muted-foreground">{t('no_rates')}</p>
+          )}
+          {rates.map(item => {
+            const project = findProject(projects, item.projectId);
+            return (
+              <div key={item.id} className="flex items-center text-sm">
+                <span className="w-24">{format(new Date(item.effectiveFrom), 'dd.MM.yyyy')}</span>
+                <span className="truncate text-muted-foreground">
+                  {project ? getProjectLabel(project, clients) : t('all_projects')}
+                </span>
+                <span className="ml-auto font-medium">{item.rate} CZK</span>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 ml-2 text-muted-foreground hover:text-destructive"
+                  onClick={() => deleteRate(item.id, { onError })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          <Input
+            type="date"
+            className="bg-background border-input"
+            value={effectiveFrom}
+            onChange={(e) => setEffectiveFrom(e.target.value)}
+          />
+          <Select value={rateProject} onValueChange={setRateProject}>
+            <SelectTrigger className="bg-background border-input">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_PROJECTS}>{t('all_projects')}</SelectItem>
+              {projects.filter(project => !project.archived).map(project => (
+                <SelectItem key={project.id} value={project.id.toString()}>
+                  {getProjectLabel(project, clients)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-[1fr_auto] gap-2">
+          <Input
+            type="number"
+            min="0"
+            step="10"
+            placeholder={t('rate')}
+            className="bg-background border-input"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+          />
+          <Button type="button" size="icon" onClick={handleAddRate} disabled={isPending || !rate}>
+            <PlusIcon className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+
+      <RepriceModal open={repriceOpen} onClose={() => setRepriceOpen(false)} />
+    </Card>
+  );
+}
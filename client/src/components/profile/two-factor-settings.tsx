@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useToast } from '@/hooks/use-toast';
+import { useTwoFactor } from '@/hooks/use-two-factor';
+import { type TwoFactorSetup } from '@shared/two-factor';
+import { useTranslation } from 'react-i18next';
+import { Copy, ShieldCheck } from 'lucide-react';
+
+/**
+ * Двухфакторная аутентификация: подключение приложения по QR-коду, коды восстановления и выключение
+ */
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { status, error, startSetup, enable, disable, regenerateCodes, isPending } = useTwoFactor();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  // Коды восстановления показываются один раз, сразу после выдачи
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+
+  const handleStart = async () => {
+    try {
+      setSetup(await startSetup());
+      setCode('');
+    } catch {
+      // Ошибка показывается под карточкой
+    }
+  };
+
+  const handleEnable = async () => {
+    try {
+      const result = await enable(code);
+      setRecoveryCodes(result.recoveryCodes);
+      setSetup(null);
+      toast({ title: t('two_factor_enabled') });
+    } catch {
+      // Ошибка показывается под карточкой
+    } finally {
+      setCode('');
+    }
+  };
+
+  const handleRegenerate = async () => {
+    try {
+      const result = await regenerateCodes(code.trim());
+      setRecoveryCodes(result.recoveryCodes);
+    } catch {
+      // Ошибка показывается под карточкой
+    } finally {
+      setCode('');
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!window.confirm(t('two_factor_disable_confirm'))) return;
+    try {
+      await disable(code.trim());
+      toast({ title: t('two_factor_disabled') });
+    } catch {
+      // Ошибка показывается под карточкой
+    } finally {
+      setCode('');
+    }
+  };
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: t('two_factor_copied') });
+    } catch {
+      // Без доступа к буферу обмена текст можно выделить и скопировать вручную
+    }
+  };
+
+  const renderContent = () => {
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">{t('two_factor_recovery_codes_desc')}</p>
+          <div className="grid grid-cols-2 gap-1 font-mono text-sm bg-background rounded p-3">
+            {recoveryCodes.map(item => <span key={item}>{item}</span>)}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button type="button" variant="outline" onClick={() => handleCopy(recoveryCodes.join('\n'))}>
+              <Copy size={16} className="mr-2" />
+              {t('two_factor_copy')}
+            </Button>
+            <Button type="button" onClick={() => setRecoveryCodes(null)}>
+              {t('two_factor_done')}
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (setup) {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">{t('two_factor_scan')}</p>
+          <img src={setup.qrCode} alt={setup.otpauthUri} className="w-48 h-48 mx-auto rounded bg-white p-2" />
+          <div className="flex gap-2">
+            <Input readOnly value={setup.secret} className="bg-background border-input font-mono text-xs" />
+            <Button type="button" variant="outline" size="icon" onClick={() => handleCopy(setup.secret)}>
+              <Copy size={16} />
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">{t('two_factor_enter_code')}</p>
+          <div className="flex justify-center">
+            <InputOTP maxLength={6} value={code} onChange={setCode}>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+              {t('cancel')}
+            </Button>
+            <Button type="button" onClick={handleEnable} disabled={isPending || code.length !== 6}>
+              {t('two_factor_confirm')}
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (status?.enabled) {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {t('two_factor_recovery_left', { count: status.recoveryCodesLeft })}
+          </p>
+          <Input
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            placeholder={t('two_factor_code_placeholder')}
+            className="bg-background border-input"
+            autoComplete="one-time-code"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Button type="button" variant="outline" onClick={handleRegenerate} disabled={isPending || !code.trim()}>
+              {t('two_factor_new_codes')}
+            </Button>
+            <Button type="button" variant="destructive" onClick={handleDisable} disabled={isPending || !code.trim()}>
+              {t('two_factor_disable')}
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <Button type="button" variant="outline" className="w-full" onClick={handleStart} disabled={isPending}>
+        <ShieldCheck size={16} className="mr-2" />
+        {t('two_factor_enable')}
+      </Button>
+    );
+  };
+
+  return (
+    <Card className="bg-card rounded-lg shadow-lg p-4 mb-4">
+      <CardContent className="p-0">
+        <div className="flex items-center mb-2">
+          <h3 className="text-lg font-medium">{t('two_factor')}</h3>
+          {status?.enabled && (
+            <Badge className="ml-auto bg-success/20 text-success">{t('two_factor_on')}</Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground mb-4">{t('two_factor_description')}</p>
+
+        {renderContent()}
+
+        {error && <p className="text-sm text-destructive mt-2">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,8 +2,11 @@ import React, { useState } from "react";
 import { cn, formatMinutesToHours } from "@/lib/utils";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { reportStatusClasses } from "@/components/ui/report-status-card";
 import { MonthlyReport } from "@shared/schema";
 import { motion } from "framer-motion";
+import { useTranslation } from "react-i18next";
 
 interface MonthCardProps {
   report: MonthlyReport;
@@ -32,6 +35,7 @@ export function MonthCard({ report, className }: MonthCardProps) {
       : 0;
 
   const [isHovered, setIsHovered] = useState(false);
+  const { t } = useTranslation();
 
   return (
     <motion.div
@@ -45,13 +49,20 @@ export function MonthCard({ report, className }: MonthCardProps) {
         className={cn("bg-card mb-4", className, isHovered ? "shadow-lg" : "")}
       >
         <CardContent className="p-4">
-          <motion.h4
-            className="font-medium"
-            animate={{ color: isHovered ? "#4ade80" : "#e0e0e0" }}
-            transition={{ duration: 0.2 }}
-          >
-            {MONTH_NAMES[report.month - 1]}
-          </motion.h4>
+          <div className="flex items-center justify-between">
+            <motion.h4
+              className="font-medium"
+              animate={{ color: isHovered ? "#4ade80" : "#e0e0e0" }}
+              transition={{ duration: 0.2 }}
+            >
+              {MONTH_NAMES[report.month - 1]}
+            </motion.h4>
+            {report.status !== "draft" && (
+              <Badge className={reportStatusClasses[report.status]}>
+                {t(`report_statuses.${report.status}`)}
+              </Badge>
+            )}
+          </div>
 
           <div className="flex items-center justify-between mt-2">
             <div className="flex items-center">
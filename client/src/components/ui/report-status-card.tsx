@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useReportStatus } from '@/hooks/use-report-status';
+import { MonthlyReport } from '@shared/schema';
+import { getAvailableReportActions, isReportLocked, reportTransitions, type ReportAction, type ReportStatus } from '@shared/report-status';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, ChevronUp, Lock } from 'lucide-react';
+
+interface ReportStatusCardProps {
+  report: MonthlyReport;
+}
+
+export const reportStatusClasses: Record<ReportStatus, string> = {
+  draft: 'bg-muted text-muted-foreground',
+  submitted: 'bg-amber-500/20 text-amber-500',
+  approved: 'bg-success/20 text-success',
+  rejected: 'bg-destructive/20 text-destructive',
+};
+
+/**
+ * Согласование табеля за месяц: статус, действия и журнал
+ */
+export function ReportStatusCard({ report }: ReportStatusCardProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { history, changeStatus, isPending } = useReportStatus(report.year, report.month);
+  // Действие, для которого вводится причина (отклонение или возврат в черновик)
+  const [pendingAction, setPendingAction] = useState<ReportAction | null>(null);
+  const [comment, setComment] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+
+  const runAction = async (action: ReportAction, reason?: string) => {
+    try {
+      await changeStatus({ action, comment: reason });
+      toast({ title: t(`report_statuses.${reportTransitions[action].to}`) });
+      setPendingAction(null);
+      setComment('');
+    } catch (error) {
+      toast({
+        title: t('error'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAction = (action: ReportAction) => {
+    if (reportTransitions[action].requiresComment) {
+      setPendingAction(action);
+      return;
+    }
+    runAction(action);
+  };
+
+  return (
+    <Card className="bg-card mx-4 mt-4">
+      <CardContent className="p-4">
+        <div className="flex items-center">
+          <h3 className="text-lg font-medium">{t('report_approval')}</h3>
+          <Badge className={`ml-auto ${reportStatusClasses[report.status]}`}>
+            {isReportLocked(report.status) && <Lock className="h-3 w-3 mr-1" />}
+            {t(`report_statuses.${report.status}`)}
+          </Badge>
+        </div>
+
+        {isReportLocked(report.status) && (
+          <p className="text-sm text-muted-foreground mt-2">{t('report_locked_hint')}</p>
+        )}
+
+        {pendingAction ? (
+          <div className="space-y-2 mt-3">
+            <Textarea
+              value={comment}
+              onChange={(event) => setComment(event.target.value)}
+              placeholder={t('report_action_reason')}
+              className="bg-background border-input h-20 resize-none"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Button type="button" variant="outline" onClick={() => setPendingAction(null)}>
+                {t('cancel')}
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={() => runAction(pendingAction, comment.trim())}
+                disabled={isPending || !comment.trim()}
+              >
+                {t(`report_actions.${pendingAction}`)}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {getAvailableReportActions(report.status).map(action => (
+              <Button
+                key={action}
+                type="button"
+                size="sm"
+                variant={action === 'submit' || action === 'approve' ? 'default' : 'outline'}
+                onClick={() => handleAction(action)}
+                disabled={isPending}
+              >
+                {t(`report_actions.${action}`)}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="mt-3">
+            <button
+              type="button"
+              className="flex items-center text-sm text-muted-foreground"
+              onClick={() => setShowHistory(prev => !prev)}
+            >
+              {t('report_history')}
+              {showHistory ? <ChevronUp className="h-4 w-4 ml-1" /> : <ChevronDown className="h-4 w-4 ml-1" />}
+            </button>
+            {showHistory && (
+              <ul className="text-sm text-muted-foreground mt-2 space-y-1">
+                {[...history].reverse().map(item => (
+                  <li key={item.id}>
+                    <span>{format(new Date(item.changedAt), 'dd.MM.yyyy HH:mm')}</span>
+                    {' — '}
+                    <span className="text-foreground">{t(`report_actions.${item.action}`)}</span>
+                    {item.changedByName && <span> ({item.changedByName})</span>}
+                    {item.comment && <div className="ml-4 italic">{item.comment}</div>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { getQueryFn, apiRequest } from '@/lib/queryClient';
+import { AppSettings, Team } from '@shared/schema';
+import {
+  type AdminPasswordResult,
+  type AdminTeam,
+  type AdminTeamUpdate,
+  type AdminUser,
+  type AdminUserCreate,
+  type AdminUserUpdate,
+  type AppSettingsUpdate,
+} from '@shared/admin';
+import { type TeamWithMembers } from '@shared/teams';
+
+// Состав команд меняется вместе с ролью и командой пользователя
+function invalidateAdminUsers(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/teams'] });
+}
+
+/**
+ * Настройки приложения; доступны и без входа, например для страницы регистрации
+ */
+export function useAppSettings() {
+  const { data: settings } = useQuery<AppSettings>({
+    queryKey: ['/api/settings'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  return { settings };
+}
+
+/**
+ * Консоль администратора: пользователи, команды для выбора и настройки приложения
+ */
+export function useAdminUsers(enabled = true) {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: users = [], isLoading } = useQuery<AdminUser[]>({
+    queryKey: ['/api/admin/users'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    enabled,
+  });
+
+  const { data: teams = [] } = useQuery<TeamWithMembers[]>({
+    queryKey: ['/api/teams'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    enabled,
+  });
+
+  const onError = (error: Error) => {
+    setError(error.message);
+  };
+
+  const createUser = useMutation({
+    mutationFn: async (data: AdminUserCreate): Promise<AdminPasswordResult> => {
+      const res = await apiRequest('POST', '/api/admin/users', data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateAdminUsers(queryClient);
+      setError(null);
+    },
+    onError,
+  });
+
+  const updateUser = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: AdminUserUpdate }): Promise<AdminUser> => {
+      const res = await apiRequest('PATCH', `/api/admin/users/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateAdminUsers(queryClient);
+      setError(null);
+    },
+    onError,
+  });
+
+  const setActive = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }): Promise<AdminUser> => {
+      const res = await apiRequest('POST', `/api/admin/users/${id}/${isActive ? 'reactivate' : 'deactivate'}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateAdminUsers(queryClient);
+      setError(null);
+    },
+    onError,
+  });
+
+  const resetPassword = useMutation({
+    mutationFn: async (id: number): Promise<AdminPasswordResult> => {
+      const res = await apiRequest('POST', `/api/admin/users/${id}/reset-password`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateAdminUsers(queryClient);
+      setError(null);
+    },
+    onError,
+  });
+
+  const updateSettings = useMutation({
+    mutationFn: async (data: AppSettingsUpdate): Promise<AppSettings> => {
+      const res = await apiRequest('PATCH', '/api/admin/settings', data);
+      return res.json();
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['/api/settings'], settings);
+      setError(null);
+    },
+    onError,
+  });
+
+  return {
+    users,
+    teams,
+    isLoading,
+    error,
+    createUser: createUser.mutateAsync,
+    updateUser: updateUser.mutateAsync,
+    setActive: setActive.mutateAsync,
+    resetPassword: resetPassword.mutateAsync,
+    updateSettings: updateSettings.mutateAsync,
+    isPending: createUser.isPending || updateUser.isPending || setActive.isPending
+      || resetPassword.isPending || updateSettings.isPending,
+  };
+}
+
+/**
+ * Команды в консоли администратора: создание, изменение и удаление
+ */
+export function useAdminTeams() {
+  const queryClient = useQueryClient();
+
+  const onSuccess = () => {
+    invalidateAdminUsers(queryClient);
+  };
+
+  const createTeam = useMutation({
+    mutationFn: async (data: AdminTeam): Promise<Team> => {
+      const res = await apiRequest('POST', '/api/admin/teams', data);
+      return res.json();
+    },
+    onSuccess,
+  });
+
+  const updateTeam = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: AdminTeamUpdate }): Promise<Team> => {
+      const res = await apiRequest('PATCH', `/api/admin/teams/${id}`, data);
+      return res.json();
+    },
+    onSuccess,
+  });
+
+  // Без команды остаются и её сотрудники, поэтому обновляется и список пользователей
+  const deleteTeam = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/admin/teams/${id}`),
+    onSuccess,
+  });
+
+  return {
+    createTeam: createTeam.mutateAsync,
+    updateTeam: updateTeam.mutateAsync,
+    deleteTeam: deleteTeam.mutateAsync,
+    isPending: createTeam.isPending || updateTeam.isPending || deleteTeam.isPending,
+  };
+}
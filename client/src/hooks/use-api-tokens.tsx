@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getQueryFn, apiRequest } from '@/lib/queryClient';
+import { type ApiTokenCreate, type CreatedApiToken, type PublicApiToken } from '@shared/api-tokens';
+
+/**
+ * Личные токены доступа к API: список, создание и отзыв
+ */
+export function useApiTokens() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ['/api/user/tokens'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/user/tokens'] });
+    setError(null);
+  };
+
+  const onError = (error: Error) => {
+    setError(error.message);
+  };
+
+  // Сам токен приходит только в ответе на создание
+  const createToken = useMutation({
+    mutationFn: async (data: ApiTokenCreate): Promise<CreatedApiToken> => {
+      const res = await apiRequest('POST', '/api/user/tokens', data);
+      return res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const revokeToken = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/user/tokens/${id}`),
+    onSuccess,
+    onError,
+  });
+
+  return {
+    tokens,
+    isLoading,
+    error,
+    createToken: createToken.mutateAsync,
+    revokeToken: revokeToken.mutateAsync,
+    isPending: createToken.isPending || revokeToken.isPending,
+  };
+}
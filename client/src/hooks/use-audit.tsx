@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { getQueryFn } from '@/lib/queryClient';
+import { type AuditEntityType, type AuditLogItem } from '@shared/audit';
+
+export interface AuditFilter {
+  entityType?: AuditEntityType;
+  entityId?: number;
+  from?: string; // YYYY-MM-DD
+  to?: string;
+}
+
+/**
+ * Журнал изменений по фильтру, от новых изменений к старым
+ */
+export function useAuditLog(filter: AuditFilter, enabled = true) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+
+  const { data: records = [], isLoading } = useQuery<AuditLogItem[]>({
+    queryKey: [`/api/audit?${params.toString()}`],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    enabled,
+  });
+
+  return { records, isLoading };
+}
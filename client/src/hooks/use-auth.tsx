@@ -4,7 +4,8 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { type RegisterUser } from "@shared/schema";
+import { type PublicUser as SelectUser, type TwoFactorChallenge } from "@shared/two-factor";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -12,12 +13,13 @@ type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<SelectUser | TwoFactorChallenge, Error, LoginData>;
+  verifyTwoFactorMutation: UseMutationResult<SelectUser, Error, string>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<SelectUser, Error, RegisterUser>;
 };
 
-type LoginData = Pick<InsertUser, "username" | "password">;
+type LoginData = Pick<RegisterUser, "username" | "password">;
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -36,6 +38,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
+    onSuccess: (result: SelectUser | TwoFactorChallenge) => {
+      // С двухфакторной аутентификацией пользователь войдёт только после кода
+      if ("twoFactorRequired" in result) return;
+      queryClient.setQueryData(["/api/user"], result);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Второй шаг входа: код из приложения или код восстановления
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/login/2fa", { code });
+      return await res.json();
+    },
     onSuccess: (user: SelectUser) => {
       queryClient.setQueryData(["/api/user"], user);
     },
@@ -49,7 +71,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
+    mutationFn: async (credentials: RegisterUser) => {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
@@ -88,6 +110,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        verifyTwoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
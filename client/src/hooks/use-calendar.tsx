@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { type CalendarDrafts } from '@shared/import';
+import { readFileAsBase64 } from './use-import';
+
+/**
+ * Адрес календаря .ics для подписки; токен хранится в профиле пользователя
+ */
+export function getCalendarFeedUrl(token: string, language?: string): string {
+  const params = new URLSearchParams({ token });
+  if (language) params.set('lang', language);
+  return `${window.location.origin}/api/calendar.ics?${params}`;
+}
+
+/**
+ * Включение, смена и отключение ссылки на календарь
+ */
+export function useCalendarFeed() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+    setError(null);
+  };
+
+  const onError = (error: Error) => {
+    setError(error.message);
+  };
+
+  // Новый токен заменяет прежний: старая ссылка перестаёт работать
+  const createToken = useMutation({
+    mutationFn: async (): Promise<{ token: string }> => {
+      const res = await apiRequest('POST', '/api/calendar/token');
+      return res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const revokeToken = useMutation({
+    mutationFn: () => apiRequest('DELETE', '/api/calendar/token'),
+    onSuccess,
+    onError,
+  });
+
+  return {
+    error,
+    createToken: createToken.mutateAsync,
+    revokeToken: revokeToken.mutateAsync,
+    isPending: createToken.isPending || revokeToken.isPending,
+  };
+}
+
+/**
+ * Черновики записей из файла .ics; время событий переводится в часовой пояс браузера
+ */
+export function useCalendarImport() {
+  const [error, setError] = useState<string | null>(null);
+
+  const importFile = useMutation({
+    mutationFn: async (file: File): Promise<CalendarDrafts> => {
+      const res = await apiRequest('POST', '/api/calendar/import', {
+        file: await readFileAsBase64(file),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      return res.json();
+    },
+    onSuccess: () => setError(null),
+    onError: (error: Error) => setError(error.message),
+  });
+
+  return {
+    error,
+    importFile: importFile.mutateAsync,
+    isPending: importFile.isPending,
+  };
+}
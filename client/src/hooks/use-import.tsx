@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { type ColumnMapping, type ImportFormat, type ImportPreview, type ImportResult, type ImportRow } from '@shared/import';
+import { invalidateMonthlyReports } from './use-time-entries';
+import { invalidatePayBreakdowns } from './use-pay';
+import { invalidateVacationBalances } from './use-vacation';
+
+export interface ImportFileData {
+  file: string; // Содержимое файла в base64
+  format: ImportFormat;
+  mapping?: ColumnMapping;
+}
+
+/**
+ * Чтение выбранного файла в base64 для отправки на сервер
+ */
+export function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Импорт записей из файла: предпросмотр на сервере, затем импорт строк предпросмотра
+ */
+export function useImport() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const onError = (error: Error) => {
+    setError(error.message);
+  };
+
+  const preview = useMutation({
+    mutationFn: async (data: ImportFileData): Promise<ImportPreview> => {
+      const res = await apiRequest('POST', '/api/imports/preview', data);
+      return res.json();
+    },
+    onSuccess: () => setError(null),
+    onError,
+  });
+
+  const commit = useMutation({
+    mutationFn: async (rows: ImportRow[]): Promise<ImportResult> => {
+      const res = await apiRequest('POST', '/api/imports', { rows });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/time-entries'),
+      });
+      invalidateMonthlyReports(queryClient);
+      invalidatePayBreakdowns(queryClient);
+      invalidateVacationBalances(queryClient);
+      setError(null);
+    },
+    onError,
+  });
+
+  return {
+    error,
+    preview: preview.mutateAsync,
+    commit: commit.mutateAsync,
+    isPending: preview.isPending || commit.isPending,
+  };
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { getQueryFn } from '@/lib/queryClient';
+import { LoginAttempt } from '@shared/schema';
+
+/**
+ * Последние попытки входа: свои или, для администратора, всех пользователей
+ */
+export function useLoginAttempts(all = false) {
+  const { data: attempts = [], isLoading } = useQuery<LoginAttempt[]>({
+    queryKey: [all ? '/api/admin/login-attempts' : '/api/user/login-attempts'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  return { attempts, isLoading };
+}
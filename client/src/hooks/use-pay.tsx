@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { QueryClient, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getQueryFn, apiRequest } from '@/lib/queryClient';
+import { type PayBreakdown, type PayRuleSettings } from '@shared/pay';
+
+// Оплата месяца зависит и от соседних месяцев (ночные смены), поэтому сбрасываются все расчёты
+export function invalidatePayBreakdowns(queryClient: QueryClient) {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith('/api/pay/'),
+  });
+}
+
+export function usePayBreakdown(year: number, month: number, enabled = true) {
+  const { data: breakdown, isLoading } = useQuery<PayBreakdown>({
+    queryKey: [`/api/pay/${year}/${month}`],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    enabled,
+  });
+
+  return { breakdown, isLoading };
+}
+
+export function usePayRules() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery<PayRuleSettings[]>({
+    queryKey: ['/api/pay-rules'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const updateRule = useMutation({
+    mutationFn: ({ kind, ...data }: PayRuleSettings) => apiRequest('PUT', `/api/pay-rules/${kind}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pay-rules'] });
+      invalidatePayBreakdowns(queryClient);
+      setError(null);
+    },
+    onError: (error: Error) => {
+      setError(error.message);
+    }
+  });
+
+  return {
+    rules,
+    isLoading,
+    error,
+    updateRule: updateRule.mutate,
+    isPending: updateRule.isPending,
+  };
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getQueryFn, apiRequest } from '@/lib/queryClient';
+import { Client, Project, InsertClient, InsertProject } from '@shared/schema';
+
+export function useProjects() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: projects = [], isLoading: projectsLoading } = useQuery<Project[]>({
+    queryKey: ['/api/projects'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const { data: clients = [], isLoading: clientsLoading } = useQuery<Client[]>({
+    queryKey: ['/api/clients'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+    setError(null);
+  };
+
+  const onError = (error: Error) => {
+    setError(error.message);
+  };
+
+  const createProject = useMutation({
+    mutationFn: (project: Omit<InsertProject, 'userId'>) => apiRequest('POST', '/api/projects', project),
+    onSuccess,
+    onError,
+  });
+
+  const updateProject = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<Omit<InsertProject, 'userId'>> }) =>
+      apiRequest('PATCH', `/api/projects/${id}`, data),
+    onSuccess,
+    onError,
+  });
+
+  const deleteProject = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/projects/${id}`),
+    onSuccess: () => {
+      onSuccess();
+      // Записи удалённого проекта остаются без проекта
+      queryClient.invalidateQueries({ queryKey: ['/api/time-entries'] });
+    },
+    onError,
+  });
+
+  const createClient = useMutation({
+    mutationFn: (client: Omit<InsertClient, 'userId'>) => apiRequest('POST', '/api/clients', client),
+    onSuccess,
+    onError,
+  });
+
+  const deleteClient = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/clients/${id}`),
+    onSuccess,
+    onError,
+  });
+
+  return {
+    projects,
+    clients,
+    isLoading: projectsLoading || clientsLoading,
+    error,
+    createProject: createProject.mutate,
+    updateProject: updateProject.mutate,
+    deleteProject: deleteProject.mutate,
+    createClient: createClient.mutate,
+    deleteClient: deleteClient.mutate,
+    isPending: createProject.isPending || updateProject.isPending || deleteProject.isPending
+      || createClient.isPending || deleteClient.isPending,
+  };
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getQueryFn, apiRequest } from '@/lib/queryClient';
+import { HourlyRate } from '@shared/schema';
+import { invalidatePayBreakdowns } from './use-pay';
+
+export interface NewHourlyRate {
+  projectId: number | null;
+  rate: number;
+  effectiveFrom: string; // ISO строка с полуднем, как у даты записи
+}
+
+export interface RepriceRange {
+  from: string;
+  to: string;
+  projectId?: number | null;
+}
+
+export interface RepricePreview {
+  changes: {
+    entryId: number;
+    date: string;
+    projectId: number | null;
+    minutes: number;
+    currentRate: number;
+    newRate: number;
+    currentPay: number;
+    newPay: number;
+  }[];
+  currentPay: number;
+  newPay: number;
+  difference: number;
+}
+
+export function useRates() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: rates = [], isLoading } = useQuery<HourlyRate[]>({
+    queryKey: ['/api/rates'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/rates'] });
+    // Записи без сохранённой ставки оплачиваются по истории ставок
+    invalidatePayBreakdowns(queryClient);
+    setError(null);
+  };
+
+  const onError = (error: Error) => {
+    setError(error.message);
+  };
+
+  const createRate = useMutation({
+    mutationFn: (rate: NewHourlyRate) => apiRequest('POST', '/api/rates', rate),
+    onSuccess,
+    onError,
+  });
+
+  const deleteRate = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/rates/${id}`),
+    onSuccess,
+    onError,
+  });
+
+  const previewReprice = useMutation({
+    mutationFn: async (range: RepriceRange): Promise<RepricePreview> => {
+      const res = await apiRequest('POST', '/api/rates/reprice/preview', range);
+      return res.json();
+    },
+    onError,
+  });
+
+  const applyReprice = useMutation({
+    mutationFn: async (range: RepriceRange): Promise<RepricePreview> => {
+      const res = await apiRequest('POST', '/api/rates/reprice', range);
+      return res.json();
+    },
+    onSuccess: () => {
+      // Ставки записей изменились — обновляем все списки записей
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/time-entries'),
+      });
+      invalidatePayBreakdowns(queryClient);
+      setError(null);
+    },
+    onError,
+  });
+
+  return {
+    rates,
+    isLoading,
+    error,
+    createRate: createRate.mutate,
+    deleteRate: deleteRate.mutate,
+    previewReprice: previewReprice.mutateAsync,
+    applyReprice: applyReprice.mutateAsync,
+    isPending: createRate.isPending || deleteRate.isPending
+      || previewReprice.isPending || applyReprice.isPending,
+  };
+}
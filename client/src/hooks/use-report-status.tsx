@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getQueryFn, apiRequest } from '@/lib/queryClient';
+import { MonthlyReport } from '@shared/schema';
+import { type ReportAction, type ReportHistoryItem } from '@shared/report-status';
+import { invalidateMonthlyReports } from './use-time-entries';
+
+export interface ReportStatusChangeData {
+  action: ReportAction;
+  comment?: string; // Обязательна для отклонения и возврата в черновик
+}
+
+/**
+ * Согласование табеля за месяц: журнал действий и смена статуса
+ */
+export function useReportStatus(year: number, month: number, enabled = true) {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const historyKey = `/api/monthly-reports/${year}/${month}/history`;
+
+  const { data: history = [] } = useQuery<ReportHistoryItem[]>({
+    queryKey: [historyKey],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    enabled,
+  });
+
+  const changeStatus = useMutation({
+    mutationFn: async (data: ReportStatusChangeData): Promise<MonthlyReport> => {
+      const res = await apiRequest('POST', `/api/monthly-reports/${year}/${month}/status`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      // Журнал лежит под тем же префиксом, что и отчёты
+      invalidateMonthlyReports(queryClient);
+      setError(null);
+    },
+    onError: (error: Error) => {
+      setError(error.message);
+    },
+  });
+
+  return {
+    history,
+    error,
+    changeStatus: changeStatus.mutateAsync,
+    isPending: changeStatus.isPending,
+  };
+}
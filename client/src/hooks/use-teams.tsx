@@ -0,0 +1,55 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getQueryFn, apiRequest } from '@/lib/queryClient';
+import { MonthlyReport, TimeEntry } from '@shared/schema';
+import { type TeamOverview } from '@shared/teams';
+import { type ReportStatusChangeData } from './use-report-status';
+
+/**
+ * Обзор команд руководителя за месяц: часы, переработка и статус табеля каждого сотрудника
+ */
+export function useTeamOverview(year: number, month: number, enabled = true) {
+  const { data: overview, isLoading } = useQuery<TeamOverview>({
+    queryKey: [`/api/teams/overview/${year}/${month}`],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    enabled,
+  });
+
+  return { overview, isLoading };
+}
+
+/**
+ * Записи сотрудника команды за месяц, только для просмотра; userId null — не загружать
+ */
+export function useTeamMemberEntries(userId: number | null, year: number, month: number) {
+  const { data: entries = [], isLoading } = useQuery<TimeEntry[]>({
+    queryKey: [`/api/teams/members/${userId}/time-entries/${year}/${month}`],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    enabled: userId !== null,
+  });
+
+  return { entries, isLoading };
+}
+
+/**
+ * Утверждение и отклонение табеля сотрудника руководителем или администратором
+ */
+export function useReviewReport(userId: number, year: number, month: number) {
+  const queryClient = useQueryClient();
+
+  const reviewReport = useMutation({
+    mutationFn: async (data: ReportStatusChangeData): Promise<MonthlyReport> => {
+      const res = await apiRequest('POST', `/api/teams/members/${userId}/monthly-reports/${year}/${month}/status`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/teams'),
+      });
+    },
+  });
+
+  return {
+    reviewReport: reviewReport.mutateAsync,
+    isPending: reviewReport.isPending,
+  };
+}
@@ -1,7 +1,16 @@
 import { useState, useEffect } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { QueryClient, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getQueryFn, apiRequest } from '@/lib/queryClient';
 import { TimeEntry, InsertTimeEntry } from '@shared/schema';
+import { invalidatePayBreakdowns } from './use-pay';
+import { invalidateVacationBalances } from './use-vacation';
+
+// Остаток переработки переносится между месяцами, поэтому запись меняет и все последующие отчёты
+export function invalidateMonthlyReports(queryClient: QueryClient) {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith('/api/monthly-reports'),
+  });
+}
 
 export function useTimeEntries(year: number, month: number) {
   const queryClient = useQueryClient();
@@ -23,10 +32,10 @@ export function useTimeEntries(year: number, month: number) {
     onSuccess: () => {
       // Обновляем данные записей времени
       queryClient.invalidateQueries({ queryKey: [`/api/time-entries/${year}/${month}`] });
-      // Также обновляем ежемесячный отчет для корректного отображения отработанных часов
-      queryClient.invalidateQueries({ queryKey: [`/api/monthly-reports/${year}/${month}`] });
-      // И обновляем все отчеты
-      queryClient.invalidateQueries({ queryKey: ['/api/monthly-reports'] });
+      // Также обновляем месячные отчёты для корректного отображения отработанных часов
+      invalidateMonthlyReports(queryClient);
+      invalidatePayBreakdowns(queryClient);
+      invalidateVacationBalances(queryClient);
       setError(null);
     },
     onError: (error: Error) => {
@@ -40,10 +49,10 @@ export function useTimeEntries(year: number, month: number) {
     onSuccess: () => {
       // Обновляем данные записей времени
       queryClient.invalidateQueries({ queryKey: [`/api/time-entries/${year}/${month}`] });
-      // Также обновляем ежемесячный отчет
-      queryClient.invalidateQueries({ queryKey: [`/api/monthly-reports/${year}/${month}`] });
-      // И обновляем все отчеты
-      queryClient.invalidateQueries({ queryKey: ['/api/monthly-reports'] });
+      // Также обновляем месячные отчёты для корректного отображения отработанных часов
+      invalidateMonthlyReports(queryClient);
+      invalidatePayBreakdowns(queryClient);
+      invalidateVacationBalances(queryClient);
       setError(null);
     },
     onError: (error: Error) => {
@@ -56,10 +65,10 @@ export function useTimeEntries(year: number, month: number) {
     onSuccess: () => {
       // Обновляем данные записей времени
       queryClient.invalidateQueries({ queryKey: [`/api/time-entries/${year}/${month}`] });
-      // Также обновляем ежемесячный отчет
-      queryClient.invalidateQueries({ queryKey: [`/api/monthly-reports/${year}/${month}`] });
-      // И обновляем все отчеты
-      queryClient.invalidateQueries({ queryKey: ['/api/monthly-reports'] });
+      // Также обновляем месячные отчёты для корректного отображения отработанных часов
+      invalidateMonthlyReports(queryClient);
+      invalidatePayBreakdowns(queryClient);
+      invalidateVacationBalances(queryClient);
       setError(null);
     },
     onError: (error: Error) => {
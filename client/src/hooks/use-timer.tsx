@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getQueryFn, apiRequest } from '@/lib/queryClient';
+import { RunningTimer } from '@shared/schema';
+import { getTimerElapsedSeconds, isTimerPaused } from '@shared/timer';
+import { invalidateMonthlyReports } from './use-time-entries';
+import { invalidatePayBreakdowns } from './use-pay';
+import { invalidateVacationBalances } from './use-vacation';
+
+export interface ClockInData {
+  projectId?: number | null;
+  notes?: string | null;
+}
+
+/**
+ * Таймер рабочего времени хранится на сервере, поэтому переживает перезагрузку и виден на всех устройствах
+ */
+export function useRunningTimer() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: timer, isLoading } = useQuery<RunningTimer | null>({
+    queryKey: ['/api/time-entries/running'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/time-entries/running'] });
+    setError(null);
+  };
+
+  const onError = (error: Error) => {
+    setError(error.message);
+  };
+
+  const clockIn = useMutation({
+    mutationFn: (data: ClockInData = {}) =>
+      apiRequest('POST', '/api/time-entries/clock-in', { ...data, timezoneOffset: new Date().getTimezoneOffset() }),
+    onSuccess,
+    onError,
+  });
+
+  const pause = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/time-entries/pause'),
+    onSuccess,
+    onError,
+  });
+
+  const resume = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/time-entries/resume'),
+    onSuccess,
+    onError,
+  });
+
+  const clockOut = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/time-entries/clock-out'),
+    onSuccess: () => {
+      onSuccess();
+      // Остановленный таймер становится обычной записью
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/time-entries'),
+      });
+      invalidateMonthlyReports(queryClient);
+      invalidatePayBreakdowns(queryClient);
+      invalidateVacationBalances(queryClient);
+    },
+    onError,
+  });
+
+  const discard = useMutation({
+    mutationFn: () => apiRequest('DELETE', '/api/time-entries/running'),
+    onSuccess,
+    onError,
+  });
+
+  return {
+    timer: timer ?? null,
+    isPaused: !!timer && isTimerPaused(timer),
+    isLoading,
+    error,
+    clockIn: clockIn.mutate,
+    pause: pause.mutate,
+    resume: resume.mutate,
+    clockOut: clockOut.mutate,
+    discard: discard.mutate,
+    isPending: clockIn.isPending || pause.isPending || resume.isPending
+      || clockOut.isPending || discard.isPending,
+  };
+}
+
+/**
+ * Прошедшее время таймера в секундах, обновляется каждую секунду
+ */
+export function useTimerElapsed(timer: RunningTimer | null): number {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!timer) return;
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  return timer ? getTimerElapsedSeconds(timer, now) : 0;
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getQueryFn, apiRequest } from '@/lib/queryClient';
+import { type TwoFactorSetup, type TwoFactorStatus } from '@shared/two-factor';
+
+interface RecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+/**
+ * Двухфакторная аутентификация: подключение приложения, коды восстановления и выключение
+ */
+export function useTwoFactor() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/user/2fa'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/user/2fa'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+    setError(null);
+  };
+
+  const onError = (error: Error) => {
+    setError(error.message);
+  };
+
+  // Секрет действует, пока подключение не подтверждено первым кодом из приложения
+  const startSetup = useMutation({
+    mutationFn: async (): Promise<TwoFactorSetup> => {
+      const res = await apiRequest('POST', '/api/user/2fa/setup');
+      return res.json();
+    },
+    onSuccess: () => setError(null),
+    onError,
+  });
+
+  const enable = useMutation({
+    mutationFn: async (code: string): Promise<RecoveryCodesResponse> => {
+      const res = await apiRequest('POST', '/api/user/2fa/enable', { code });
+      return res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const disable = useMutation({
+    mutationFn: (code: string) => apiRequest('POST', '/api/user/2fa/disable', { code }),
+    onSuccess,
+    onError,
+  });
+
+  // Новый набор заменяет прежние коды восстановления
+  const regenerateCodes = useMutation({
+    mutationFn: async (code: string): Promise<RecoveryCodesResponse> => {
+      const res = await apiRequest('POST', '/api/user/2fa/recovery-codes', { code });
+      return res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  return {
+    status,
+    error,
+    startSetup: startSetup.mutateAsync,
+    enable: enable.mutateAsync,
+    disable: disable.mutateAsync,
+    regenerateCodes: regenerateCodes.mutateAsync,
+    isPending: startSetup.isPending || enable.isPending || disable.isPending || regenerateCodes.isPending,
+  };
+}
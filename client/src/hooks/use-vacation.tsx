@@ -0,0 +1,20 @@
+import { QueryClient, useQuery } from '@tanstack/react-query';
+import { getQueryFn } from '@/lib/queryClient';
+import { type VacationBalance } from '@shared/vacation';
+
+// Остаток отпуска переходит на следующий год, поэтому сбрасываются балансы всех лет
+export function invalidateVacationBalances(queryClient: QueryClient) {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith('/api/vacation/'),
+  });
+}
+
+export function useVacationBalance(year: number, enabled = true) {
+  const { data: balance, isLoading } = useQuery<VacationBalance>({
+    queryKey: [`/api/vacation/${year}`],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    enabled,
+  });
+
+  return { balance, isLoading };
+}
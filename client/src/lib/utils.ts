@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { calculateShiftMinutes } from "@shared/time";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -17,13 +18,7 @@ export function parseTimeString(timeString: string): { hours: number; minutes: n
 }
 
 export function calculateTotalMinutes(start: string, end: string): number {
-  const startTime = parseTimeString(start);
-  const endTime = parseTimeString(end);
-  
-  const startMinutes = startTime.hours * 60 + startTime.minutes;
-  const endMinutes = endTime.hours * 60 + endTime.minutes;
-  
-  return endMinutes - startMinutes;
+  return calculateShiftMinutes(start, end);
 }
 
 export function formatMinutesToHours(minutes: number): string {
@@ -0,0 +1,682 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AnimatedEntry, AnimatedFade } from '@/components/ui/animated-entry';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useAdminTeams, useAdminUsers, useAppSettings } from '@/hooks/use-admin';
+import { useLoginAttempts } from '@/hooks/use-login-attempts';
+import { LoginAttemptList } from '@/components/profile/login-history';
+import { adminUserUpdateSchema, type AdminPasswordResult, type AdminUser, type AdminUserUpdate } from '@shared/admin';
+import { parseWorkDays } from '@shared/calendar';
+import { canViewTeams, userRoles, type UserRole } from '@shared/teams';
+import { Team } from '@shared/schema';
+import { useForm, type FieldErrors } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, ChevronUp, Copy, KeyRound, Plus, Trash2, UserPlus } from 'lucide-react';
+
+// Select не допускает пустое значение, поэтому «без команды» и «без руководителя» кодируются отдельной строкой
+const NO_TEAM = 'none';
+
+const WEEK_DAYS = [1, 2, 3, 4, 5, 6, 7];
+
+// Пустое поле означает «без ограничения»
+const toOptionalNumber = (value: unknown) => value === '' || value === null ? null : Number(value);
+
+interface RoleTeamSelectProps {
+  role: UserRole;
+  teamId: number | null;
+  teams: Team[];
+  onRoleChange: (role: UserRole) => void;
+  onTeamChange: (teamId: number | null) => void;
+  disableRole?: boolean;
+}
+
+function RoleTeamSelect({ role, teamId, teams, onRoleChange, onTeamChange, disableRole }: RoleTeamSelectProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <Label className="text-muted-foreground text-sm">{t('admin_role')}</Label>
+        <Select value={role} onValueChange={(value) => onRoleChange(value as UserRole)} disabled={disableRole}>
+          <SelectTrigger className="bg-background border-input">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {userRoles.map(item => (
+              <SelectItem key={item} value={item}>{t(`roles.${item}`)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label className="text-muted-foreground text-sm">{t('admin_team')}</Label>
+        <Select
+          value={teamId ? teamId.toString() : NO_TEAM}
+          onValueChange={(value) => onTeamChange(value === NO_TEAM ? null : Number(value))}
+        >
+          <SelectTrigger className="bg-background border-input">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_TEAM}>{t('admin_no_team')}</SelectItem>
+            {teams.map(team => (
+              <SelectItem key={team.id} value={team.id.toString()}>{team.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+interface UserSettingsProps {
+  user: AdminUser;
+  teams: Team[];
+  isSelf: boolean;
+  onIssuedPassword: (result: AdminPasswordResult) => void;
+}
+
+// Норма, рабочие дни, перерыв, отпуск, перенос переработки, роль и команда пользователя, сброс пароля и отключение
+function UserSettings({ user, teams, isSelf, onIssuedPassword }: UserSettingsProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { updateUser, setActive, resetPassword, isPending } = useAdminUsers();
+
+  // Та же схема, что проверяет PATCH /api/admin/users/:id на сервере
+  const { register, handleSubmit, setValue, watch } = useForm<AdminUserUpdate>({
+    resolver: zodResolver(adminUserUpdateSchema),
+    defaultValues: {
+      workHoursPerDay: user.workHoursPerDay,
+      workDays: parseWorkDays(user.workDays).join(','),
+      breakMinutes: user.breakMinutes,
+      autoBreak: user.autoBreak,
+      autoBreakAfterMinutes: user.autoBreakAfterMinutes,
+      vacationDaysPerYear: user.vacationDaysPerYear,
+      vacationCarryOverDays: user.vacationCarryOverDays,
+      overtimeCapHours: user.overtimeCapHours,
+      overtimeExpiryMonths: user.overtimeExpiryMonths,
+      role: user.role,
+      teamId: user.teamId,
+    },
+  });
+
+  const workDays = (watch('workDays') ?? '').split(',').filter(Boolean).map(Number);
+  const autoBreak = !!watch('autoBreak');
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t('error'),
+      description: error instanceof Error ? error.message : String(error),
+      variant: 'destructive',
+    });
+  };
+
+  const toggleDay = (day: number) => {
+    const next = workDays.includes(day) ? workDays.filter(item => item !== day) : [...workDays, day].sort((a, b) => a - b);
+    setValue('workDays', next.join(','));
+  };
+
+  const onSubmit = async (data: AdminUserUpdate) => {
+    try {
+      await updateUser({ id: user.id, data });
+      toast({ title: t('admin_user_saved') });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const onInvalid = (errors: FieldErrors<AdminUserUpdate>) => {
+    const firstError = Object.values(errors)[0];
+    toast({
+      title: t('error'),
+      description: firstError?.message,
+      variant: 'destructive',
+    });
+  };
+
+  const handleResetPassword = async () => {
+    if (!window.confirm(t('admin_reset_password_confirm', { name: user.fullName }))) return;
+    try {
+      onIssuedPassword(await resetPassword(user.id));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleToggleActive = async () => {
+    try {
+      await setActive({ id: user.id, isActive: !user.isActive });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit, onInvalid)} className="space-y-3 p-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-muted-foreground text-sm">{t('admin_work_hours_per_day')}</Label>
+          <Input
+            type="number"
+            min={1}
+            max={24}
+            className="bg-background border-input"
+            {...register('workHoursPerDay', { valueAsNumber: true })}
+          />
+        </div>
+        <div>
+          <Label className="text-muted-foreground text-sm">{t('break_minutes')}</Label>
+          <Input
+            type="number"
+            min={0}
+            className="bg-background border-input"
+            {...register('breakMinutes', { valueAsNumber: true })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label className="text-muted-foreground text-sm">{t('admin_work_days')}</Label>
+        <div className="flex gap-1 mt-1">
+          {WEEK_DAYS.map(day => (
+            <Button
+              key={day}
+              type="button"
+              size="sm"
+              variant={workDays.includes(day) ? 'default' : 'outline'}
+              className="flex-1 px-0"
+              onClick={() => toggleDay(day)}
+            >
+              {t(`dates.days.${day - 1}`)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={`autoBreak-${user.id}`} className="text-muted-foreground text-sm">{t('auto_break')}</Label>
+        <Switch id={`autoBreak-${user.id}`} checked={autoBreak} onCheckedChange={(checked) => setValue('autoBreak', checked)} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-muted-foreground text-sm">{t('auto_break_after_minutes')}</Label>
+          <Input
+            type="number"
+            min={0}
+            step={15}
+            className="bg-background border-input"
+            {...register('autoBreakAfterMinutes', { valueAsNumber: true })}
+            disabled={!autoBreak}
+          />
+        </div>
+        <div>
+          <Label className="text-muted-foreground text-sm">{t('vacation_days_per_year')}</Label>
+          <Input
+            type="number"
+            min={0}
+            className="bg-background border-input"
+            {...register('vacationDaysPerYear', { valueAsNumber: true })}
+          />
+        </div>
+        <div>
+          <Label className="text-muted-foreground text-sm">{t('vacation_carry_over_days')}</Label>
+          <Input
+            type="number"
+            min={0}
+            className="bg-background border-input"
+            {...register('vacationCarryOverDays', { valueAsNumber: true })}
+          />
+        </div>
+        <div>
+          <Label className="text-muted-foreground text-sm">{t('overtime_cap_hours')}</Label>
+          <Input
+            type="number"
+            min={0}
+            placeholder={t('overtime_no_limit')}
+            className="bg-background border-input"
+            {...register('overtimeCapHours', { setValueAs: toOptionalNumber })}
+          />
+        </div>
+        <div>
+          <Label className="text-muted-foreground text-sm">{t('overtime_expiry_months')}</Label>
+          <Input
+            type="number"
+            min={1}
+            placeholder={t('overtime_no_limit')}
+            className="bg-background border-input"
+            {...register('overtimeExpiryMonths', { setValueAs: toOptionalNumber })}
+          />
+        </div>
+      </div>
+
+      <RoleTeamSelect
+        role={watch('role') ?? user.role}
+        teamId={watch('teamId') ?? null}
+        teams={teams}
+        onRoleChange={(role) => setValue('role', role)}
+        onTeamChange={(teamId) => setValue('teamId', teamId)}
+        disableRole={isSelf}
+      />
+
+      <Button type="submit" className="w-full" disabled={isPending || workDays.length === 0}>
+        {isPending ? t('saving') : t('save')}
+      </Button>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button type="button" variant="outline" onClick={handleResetPassword} disabled={isPending}>
+          <KeyRound size={16} className="mr-2" />
+          {t('admin_reset_password')}
+        </Button>
+        <Button
+          type="button"
+          variant={user.isActive ? 'destructive' : 'outline'}
+          onClick={handleToggleActive}
+          disabled={isPending || isSelf}
+        >
+          {user.isActive ? t('admin_deactivate') : t('admin_reactivate')}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface TeamFormProps {
+  team?: Team; // Без команды — форма создания
+  teams: Team[];
+  users: AdminUser[];
+  onDone: () => void;
+}
+
+// Название, руководитель и вышестоящая команда; у существующей команды — ещё и удаление
+function TeamForm({ team, teams, users, onDone }: TeamFormProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { createTeam, updateTeam, deleteTeam, isPending } = useAdminTeams();
+  const [name, setName] = useState(team?.name ?? '');
+  const [managerId, setManagerId] = useState<number | null>(team?.managerId ?? null);
+  const [parentId, setParentId] = useState<number | null>(team?.parentId ?? null);
+
+  // Руководителем может быть только тот, кто видит обзор команд
+  const managers = users.filter(user => canViewTeams(user.role) && user.isActive);
+  const parents = teams.filter(item => item.id !== team?.id);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t('error'),
+      description: error instanceof Error ? error.message : String(error),
+      variant: 'destructive',
+    });
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const data = { name: name.trim(), managerId, parentId };
+      if (team) {
+        await updateTeam({ id: team.id, data });
+      } else {
+        await createTeam(data);
+      }
+      toast({ title: t('admin_team_saved') });
+      onDone();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!team || !window.confirm(t('admin_team_delete_confirm', { name: team.name }))) return;
+    try {
+      await deleteTeam(team.id);
+      onDone();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-3 p-3">
+      <div>
+        <Label className="text-muted-foreground text-sm">{t('admin_team_name')}</Label>
+        <Input className="bg-background border-input" value={name} onChange={(event) => setName(event.target.value)} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-muted-foreground text-sm">{t('admin_team_manager')}</Label>
+          <Select
+            value={managerId ? managerId.toString() : NO_TEAM}
+            onValueChange={(value) => setManagerId(value === NO_TEAM ? null : Number(value))}
+          >
+            <SelectTrigger className="bg-background border-input">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TEAM}>{t('admin_no_manager')}</SelectItem>
+              {managers.map(user => (
+                <SelectItem key={user.id} value={user.id.toString()}>{user.fullName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-muted-foreground text-sm">{t('admin_team_parent')}</Label>
+          <Select
+            value={parentId ? parentId.toString() : NO_TEAM}
+            onValueChange={(value) => setParentId(value === NO_TEAM ? null : Number(value))}
+          >
+            <SelectTrigger className="bg-background border-input">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TEAM}>{t('admin_no_parent_team')}</SelectItem>
+              {parents.map(item => (
+                <SelectItem key={item.id} value={item.id.toString()}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {team ? (
+          <Button type="button" variant="destructive" onClick={handleDelete} disabled={isPending}>
+            <Trash2 size={16} className="mr-2" />
+            {t('admin_team_delete')}
+          </Button>
+        ) : (
+          <Button type="button" variant="outline" onClick={onDone}>
+            {t('cancel')}
+          </Button>
+        )}
+        <Button type="submit" disabled={isPending || !name.trim()}>
+          {isPending ? t('saving') : t('save')}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface CreateUserFormValues {
+  username: string;
+  fullName: string;
+  email: string;
+  position: string;
+}
+
+/**
+ * Консоль администратора: пользователи, их норма и доступ, команды, открытая регистрация
+ */
+export default function Admin() {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { user: currentUser } = useAuth();
+  const { settings } = useAppSettings();
+  const { users, teams, isLoading, createUser, updateSettings, isPending } = useAdminUsers();
+  const { attempts } = useLoginAttempts(true);
+  const [expandedUserId, setExpandedUserId] = useState<number | null>(null);
+  const [expandedTeamId, setExpandedTeamId] = useState<number | null>(null);
+  const [showTeamForm, setShowTeamForm] = useState(false);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [newRole, setNewRole] = useState<UserRole>('employee');
+  const [newTeamId, setNewTeamId] = useState<number | null>(null);
+  // Временный пароль показывается один раз, чтобы администратор передал его пользователю
+  const [issuedPassword, setIssuedPassword] = useState<AdminPasswordResult | null>(null);
+
+  const { register, handleSubmit, reset } = useForm<CreateUserFormValues>({
+    defaultValues: { username: '', fullName: '', email: '', position: '' },
+  });
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t('error'),
+      description: error instanceof Error ? error.message : String(error),
+      variant: 'destructive',
+    });
+  };
+
+  const onCreateSubmit = async (data: CreateUserFormValues) => {
+    try {
+      const result = await createUser({
+        username: data.username,
+        fullName: data.fullName,
+        email: data.email || null,
+        position: data.position || null,
+        role: newRole,
+        teamId: newTeamId,
+      });
+      setIssuedPassword(result);
+      setShowCreateForm(false);
+      setNewRole('employee');
+      setNewTeamId(null);
+      reset();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRegistrationChange = (registrationEnabled: boolean) => {
+    updateSettings({ registrationEnabled }).catch(showError);
+  };
+
+  const handleCopyPassword = async () => {
+    if (!issuedPassword) return;
+    try {
+      await navigator.clipboard.writeText(issuedPassword.temporaryPassword);
+      toast({ title: t('admin_temporary_password_copied') });
+    } catch {
+      // Без доступа к буферу обмена пароль можно скопировать из поля
+    }
+  };
+
+  const getTeamName = (teamId: number | null) => teams.find(team => team.id === teamId)?.name ?? '';
+  const getUserName = (userId: number | null) => users.find(user => user.id === userId)?.fullName ?? '';
+
+  return (
+    <div className="pb-24">
+      <AnimatedFade>
+        <div className="bg-card px-4 py-3 border-b border-gray-700">
+          <h2 className="text-lg font-medium text-center">{t('admin_users')}</h2>
+        </div>
+      </AnimatedFade>
+
+      <AnimatedEntry delay={0.1}>
+        <Card className="bg-card mx-4 mt-4">
+          <CardContent className="p-4 flex items-center gap-4">
+            <div className="flex-1">
+              <Label htmlFor="registrationEnabled" className="font-medium">{t('admin_registration')}</Label>
+              <p className="text-sm text-muted-foreground">{t('admin_registration_desc')}</p>
+            </div>
+            <Switch
+              id="registrationEnabled"
+              checked={settings?.registrationEnabled ?? true}
+              onCheckedChange={handleRegistrationChange}
+              disabled={isPending}
+            />
+          </CardContent>
+        </Card>
+      </AnimatedEntry>
+
+      {issuedPassword && (
+        <Card className="bg-card mx-4 mt-4 border-primary">
+          <CardContent className="p-4 space-y-2">
+            <h3 className="font-medium">
+              {t('admin_temporary_password')}: {issuedPassword.user.fullName} ({issuedPassword.user.username})
+            </h3>
+            <p className="text-sm text-muted-foreground">{t('admin_temporary_password_desc')}</p>
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={issuedPassword.temporaryPassword}
+                className="bg-background border-input font-mono"
+                onFocus={(event) => event.target.select()}
+              />
+              <Button type="button" variant="outline" size="icon" onClick={handleCopyPassword}>
+                <Copy size={16} />
+              </Button>
+            </div>
+            <Button type="button" variant="outline" className="w-full" onClick={() => setIssuedPassword(null)}>
+              {t('admin_temporary_password_done')}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <AnimatedEntry delay={0.2}>
+        <Card className="bg-card mx-4 mt-4">
+          <CardContent className="p-4">
+            {showCreateForm ? (
+              <form onSubmit={handleSubmit(onCreateSubmit)} className="space-y-3">
+                <h3 className="font-medium">{t('admin_create_user')}</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="newUsername" className="text-muted-foreground text-sm">{t('username')}</Label>
+                    <Input id="newUsername" className="bg-background border-input" {...register('username', { required: true })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="newFullName" className="text-muted-foreground text-sm">{t('full_name')}</Label>
+                    <Input id="newFullName" className="bg-background border-input" {...register('fullName', { required: true })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="newEmail" className="text-muted-foreground text-sm">{t('email')}</Label>
+                    <Input id="newEmail" type="email" className="bg-background border-input" {...register('email')} />
+                  </div>
+                  <div>
+                    <Label htmlFor="newPosition" className="text-muted-foreground text-sm">{t('position')}</Label>
+                    <Input id="newPosition" className="bg-background border-input" {...register('position')} />
+                  </div>
+                </div>
+                <RoleTeamSelect
+                  role={newRole}
+                  teamId={newTeamId}
+                  teams={teams}
+                  onRoleChange={setNewRole}
+                  onTeamChange={setNewTeamId}
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <Button type="button" variant="outline" onClick={() => setShowCreateForm(false)}>
+                    {t('cancel')}
+                  </Button>
+                  <Button type="submit" disabled={isPending}>
+                    {t('admin_create')}
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <Button type="button" variant="outline" className="w-full" onClick={() => setShowCreateForm(true)}>
+                <UserPlus size={16} className="mr-2" />
+                {t('admin_create_user')}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </AnimatedEntry>
+
+      <AnimatedEntry delay={0.3}>
+        <Card className="bg-card mx-4 mt-4">
+          <CardContent className="p-0">
+            {isLoading ? (
+              <p className="text-center p-4">{t('loading_data')}</p>
+            ) : (
+              <ul>
+                {users.map(user => {
+                  const isExpanded = expandedUserId === user.id;
+                  return (
+                    <li key={user.id} className="border-b border-gray-700 last:border-b-0">
+                      <button
+                        type="button"
+                        className="w-full flex items-center gap-2 p-3 text-left"
+                        onClick={() => setExpandedUserId(isExpanded ? null : user.id)}
+                      >
+                        <div className="flex-1">
+                          <div className={`font-medium ${user.isActive ? '' : 'text-muted-foreground line-through'}`}>
+                            {user.fullName}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {[user.username, getTeamName(user.teamId), user.position].filter(Boolean).join(' · ')}
+                          </div>
+                        </div>
+                        {!user.isActive && <Badge variant="destructive">{t('admin_inactive')}</Badge>}
+                        {user.mustChangePassword && <Badge variant="outline">{t('admin_must_change_password')}</Badge>}
+                        <Badge variant="secondary">{t(`roles.${user.role}`)}</Badge>
+                        {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </button>
+                      {isExpanded && (
+                        <UserSettings
+                          user={user}
+                          teams={teams}
+                          isSelf={user.id === currentUser?.id}
+                          onIssuedPassword={setIssuedPassword}
+                        />
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </AnimatedEntry>
+
+      <AnimatedEntry delay={0.4}>
+        <Card className="bg-card mx-4 mt-4">
+          <CardContent className="p-0">
+            <h3 className="font-medium p-4 pb-2">{t('admin_teams')}</h3>
+            <ul>
+              {teams.map(team => {
+                const isExpanded = expandedTeamId === team.id;
+                return (
+                  <li key={team.id} className="border-b border-gray-700">
+                    <button
+                      type="button"
+                      className="w-full flex items-center gap-2 p-3 text-left"
+                      onClick={() => setExpandedTeamId(isExpanded ? null : team.id)}
+                    >
+                      <div className="flex-1">
+                        <div className="font-medium">{team.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {[getUserName(team.managerId), getTeamName(team.parentId)].filter(Boolean).join(' · ')}
+                        </div>
+                      </div>
+                      <Badge variant="secondary">{team.members.length}</Badge>
+                      {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    </button>
+                    {isExpanded && (
+                      <TeamForm team={team} teams={teams} users={users} onDone={() => setExpandedTeamId(null)} />
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            {showTeamForm ? (
+              <TeamForm teams={teams} users={users} onDone={() => setShowTeamForm(false)} />
+            ) : (
+              <div className="p-4">
+                <Button type="button" variant="outline" className="w-full" onClick={() => setShowTeamForm(true)}>
+                  <Plus size={16} className="mr-2" />
+                  {t('admin_create_team')}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </AnimatedEntry>
+
+      <AnimatedEntry delay={0.5}>
+        <Card className="bg-card mx-4 mt-4">
+          <CardContent className="p-4">
+            <h3 className="font-medium mb-3">{t('admin_login_attempts')}</h3>
+            <LoginAttemptList attempts={attempts} showUsername />
+          </CardContent>
+        </Card>
+      </AnimatedEntry>
+    </div>
+  );
+}
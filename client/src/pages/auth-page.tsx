@@ -13,7 +13,10 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { useAuth } from '@/hooks/use-auth';
+import { useAppSettings } from '@/hooks/use-admin';
+import { registerUserSchema, type RegisterUser } from '@shared/schema';
 
 // Схема для формы входа
 const loginSchema = z.object({
@@ -21,23 +24,20 @@ const loginSchema = z.object({
   password: z.string().min(6, { message: 'Пароль должен содержать минимум 6 символов' }),
 });
 
-// Схема для формы регистрации
-const registerSchema = z.object({
-  username: z.string().min(3, { message: 'Имя пользователя должно содержать минимум 3 символа' }),
-  password: z.string().min(6, { message: 'Пароль должен содержать минимум 6 символов' }),
-  fullName: z.string().min(2, { message: 'Введите ваше полное имя' }),
-  email: z.string().email({ message: 'Введите корректный email адрес' }),
-  position: z.string().optional(),
-});
-
 type LoginFormValues = z.infer<typeof loginSchema>;
-type RegisterFormValues = z.infer<typeof registerSchema>;
 
 export default function AuthPage() {
   const [activeTab, setActiveTab] = useState<string>('login');
   const { toast } = useToast();
   const [, setLocation] = useLocation();
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, verifyTwoFactorMutation, registerMutation } = useAuth();
+  // Второй шаг входа: пароль верный, нужен код из приложения или код восстановления
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const { settings } = useAppSettings();
+  // Пока настройки не загружены, регистрация считается открытой
+  const registrationEnabled = settings?.registrationEnabled ?? true;
   const { t } = useTranslation();
 
   // Форма входа
@@ -50,8 +50,8 @@ export default function AuthPage() {
   });
 
   // Форма регистрации
-  const registerForm = useForm<RegisterFormValues>({
-    resolver: zodResolver(registerSchema),
+  const registerForm = useForm<RegisterUser>({
+    resolver: zodResolver(registerUserSchema),
     defaultValues: {
       username: '',
       password: '',
@@ -64,7 +64,11 @@ export default function AuthPage() {
   // Обработчик входа
   const onLoginSubmit = (data: LoginFormValues) => {
     loginMutation.mutate(data, {
-      onSuccess: () => {
+      onSuccess: (result) => {
+        if ('twoFactorRequired' in result) {
+          setTwoFactorStep(true);
+          return;
+        }
         toast({
           title: 'Успешный вход',
           description: 'Добро пожаловать в систему учета рабочего времени!',
@@ -74,8 +78,33 @@ export default function AuthPage() {
     });
   };
 
+  const onTwoFactorSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    verifyTwoFactorMutation.mutate(twoFactorCode.trim(), {
+      onSuccess: () => {
+        toast({
+          title: 'Успешный вход',
+          description: 'Добро пожаловать в систему учета рабочего времени!',
+        });
+        setLocation('/');
+      },
+      onError: () => setTwoFactorCode(''),
+    });
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(prev => !prev);
+    setTwoFactorCode('');
+  };
+
+  const cancelTwoFactor = () => {
+    setTwoFactorStep(false);
+    setUseRecoveryCode(false);
+    setTwoFactorCode('');
+  };
+
   // Обработчик регистрации
-  const onRegisterSubmit = (data: RegisterFormValues) => {
+  const onRegisterSubmit = (data: RegisterUser) => {
     registerMutation.mutate(data, {
       onSuccess: () => {
         toast({
@@ -111,51 +140,93 @@ export default function AuthPage() {
           </div>
 
           <Tabs defaultValue="login" value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-2 mb-6">
+            <TabsList className={`grid w-full ${registrationEnabled ? 'grid-cols-2' : 'grid-cols-1'} mb-6`}>
               <TabsTrigger value="login">{t('login')}</TabsTrigger>
-              <TabsTrigger value="register">{t('register')}</TabsTrigger>
+              {registrationEnabled && <TabsTrigger value="register">{t('register')}</TabsTrigger>}
             </TabsList>
 
             <TabsContent value="login" className="mt-4">
-              <Form {...loginForm}>
-                <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                  <FormField
-                    control={loginForm.control}
-                    name="username"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>{t('username')}</FormLabel>
-                        <FormControl>
-                          <Input placeholder={t('username_placeholder')} {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={loginForm.control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>{t('password')}</FormLabel>
-                        <FormControl>
-                          <Input type="password" placeholder={t('password_placeholder')} {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <Button 
-                    type="submit" 
-                    className="w-full" 
-                    disabled={loginMutation.isPending}
+              {twoFactorStep ? (
+                <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    {useRecoveryCode ? t('two_factor_recovery_hint') : t('two_factor_login_hint')}
+                  </p>
+                  {useRecoveryCode ? (
+                    <Input
+                      value={twoFactorCode}
+                      onChange={(event) => setTwoFactorCode(event.target.value)}
+                      placeholder="XXXXX-XXXXX"
+                      autoComplete="one-time-code"
+                      autoFocus
+                    />
+                  ) : (
+                    <div className="flex justify-center">
+                      <InputOTP maxLength={6} value={twoFactorCode} onChange={setTwoFactorCode} autoFocus>
+                        <InputOTPGroup>
+                          {Array.from({ length: 6 }, (_, index) => (
+                            <InputOTPSlot key={index} index={index} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                    </div>
+                  )}
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={verifyTwoFactorMutation.isPending || !twoFactorCode.trim()}
                   >
-                    {loginMutation.isPending ? t('logging_in') : t('login')}
+                    {verifyTwoFactorMutation.isPending ? t('logging_in') : t('login')}
                   </Button>
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <button type="button" className="hover:text-primary" onClick={toggleRecoveryCode}>
+                      {useRecoveryCode ? t('two_factor_use_app') : t('two_factor_use_recovery')}
+                    </button>
+                    <button type="button" className="hover:text-primary" onClick={cancelTwoFactor}>
+                      {t('two_factor_back')}
+                    </button>
+                  </div>
                 </form>
-              </Form>
+              ) : (
+                <Form {...loginForm}>
+                  <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+                    <FormField
+                      control={loginForm.control}
+                      name="username"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t('username')}</FormLabel>
+                          <FormControl>
+                            <Input placeholder={t('username_placeholder')} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={loginForm.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t('password')}</FormLabel>
+                          <FormControl>
+                            <Input type="password" placeholder={t('password_placeholder')} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <Button 
+                      type="submit" 
+                      className="w-full" 
+                      disabled={loginMutation.isPending}
+                    >
+                      {loginMutation.isPending ? t('logging_in') : t('login')}
+                    </Button>
+                  </form>
+                </Form>
+              )}
             </TabsContent>
 
             <TabsContent value="register" className="mt-4">
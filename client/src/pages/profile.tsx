@@ -3,18 +3,32 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { useForm } from 'react-hook-form';
+import { Switch } from '@/components/ui/switch';
+import { useForm, type FieldErrors } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest, getQueryFn } from '@/lib/queryClient';
-import { User } from '@shared/schema';
+import { User, userUpdateSchema, type UserUpdate } from '@shared/schema';
 import ProfileImageUpload from '@/components/profile/profile-image-upload';
 import ChangePasswordButton from '@/components/profile/change-password-button';
 import LogoutButton from '@/components/profile/logout-button';
 import LanguageSwitcher from '@/components/profile/language-switcher';
+import ProjectsManager from '@/components/profile/projects-manager';
+import RatesManager from '@/components/profile/rates-manager';
+import PayRulesManager from '@/components/profile/pay-rules-manager';
+import CalendarFeed from '@/components/profile/calendar-feed';
+import LoginHistory from '@/components/profile/login-history';
+import TwoFactorSettings from '@/components/profile/two-factor-settings';
+import ApiTokens from '@/components/profile/api-tokens';
+import { invalidateMonthlyReports } from '@/hooks/use-time-entries';
+import { invalidateVacationBalances } from '@/hooks/use-vacation';
 import { useTranslation } from 'react-i18next';
 import { UserCircle } from 'lucide-react';
 
+// Пустое поле означает «без ограничения»
+const toOptionalNumber = (value: unknown) => value === '' || value === null ? null : Number(value);
+
 export default function Profile() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -25,12 +39,21 @@ export default function Profile() {
     queryFn: getQueryFn({ on401: 'returnNull' }),
   });
   
-  const { register, handleSubmit, setValue, formState: { errors } } = useForm<Partial<User>>({
+  // Та же схема, что проверяет PATCH /api/user на сервере
+  const { register, handleSubmit, setValue, watch } = useForm<UserUpdate>({
+    resolver: zodResolver(userUpdateSchema),
     defaultValues: {
       fullName: user?.fullName || '',
       email: user?.email || '',
       phone: user?.phone || '',
       position: user?.position || '',
+      autoBreak: user?.autoBreak ?? true,
+      breakMinutes: user?.breakMinutes ?? 60,
+      autoBreakAfterMinutes: user?.autoBreakAfterMinutes ?? 360,
+      overtimeCapHours: user?.overtimeCapHours ?? null,
+      overtimeExpiryMonths: user?.overtimeExpiryMonths ?? null,
+      vacationDaysPerYear: user?.vacationDaysPerYear ?? 20,
+      vacationCarryOverDays: user?.vacationCarryOverDays ?? 0,
     }
   });
   
@@ -41,17 +64,26 @@ export default function Profile() {
       setValue('email', user.email || '');
       setValue('phone', user.phone || '');
       setValue('position', user.position || '');
+      setValue('autoBreak', user.autoBreak);
+      setValue('breakMinutes', user.breakMinutes);
+      setValue('autoBreakAfterMinutes', user.autoBreakAfterMinutes);
+      setValue('overtimeCapHours', user.overtimeCapHours);
+      setValue('overtimeExpiryMonths', user.overtimeExpiryMonths);
+      setValue('vacationDaysPerYear', user.vacationDaysPerYear);
+      setValue('vacationCarryOverDays', user.vacationCarryOverDays);
     }
   }, [user, setValue]);
   
   const updateProfileMutation = useMutation({
-    mutationFn: (data: Partial<User>) => apiRequest('PATCH', '/api/user', data),
+    mutationFn: (data: UserUpdate) => apiRequest('PATCH', '/api/user', data),
     onSuccess: () => {
       toast({
         title: 'Профіль оновлено',
         description: 'Ваші особисті дані успішно оновлено',
       });
       queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      invalidateMonthlyReports(queryClient);
+      invalidateVacationBalances(queryClient);
     },
     onError: (error) => {
       toast({
@@ -62,10 +94,19 @@ export default function Profile() {
     }
   });
   
-  const onSubmit = (data: Partial<User>) => {
+  const onSubmit = (data: UserUpdate) => {
     updateProfileMutation.mutate(data);
   };
   
+  const onInvalid = (errors: FieldErrors<UserUpdate>) => {
+    const firstError = Object.values(errors)[0];
+    toast({
+      title: 'Помилка',
+      description: firstError?.message,
+      variant: 'destructive',
+    });
+  };
+  
   if (isLoading) {
     return (
       <div className="px-4 py-6 pb-16 flex justify-center items-center min-h-[60vh]">
@@ -92,7 +133,7 @@ export default function Profile() {
         <span className="text-xs text-muted-foreground">{t('profile_note')}</span>
       </div>
       
-      <form onSubmit={handleSubmit(onSubmit)}>
+      <form onSubmit={handleSubmit(onSubmit, onInvalid)}>
         {/* Personal Data */}
         <Card className="bg-card rounded-lg shadow-lg p-4 mb-4">
           <CardContent className="p-0">
@@ -142,6 +183,112 @@ export default function Profile() {
           </CardContent>
         </Card>
         
+        {/* Break Settings */}
+        <Card className="bg-card rounded-lg shadow-lg p-4 mb-4">
+          <CardContent className="p-0">
+            <h3 className="text-lg font-medium mb-4">{t('break_settings')}</h3>
+            
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="autoBreak">{t('auto_break')}</Label>
+                <Switch 
+                  id="autoBreak" 
+                  checked={!!watch('autoBreak')}
+                  onCheckedChange={(checked) => setValue('autoBreak', checked)}
+                />
+              </div>
+              
+              <div>
+                <Label htmlFor="breakMinutes" className="text-muted-foreground text-sm mb-1">{t('break_minutes')}</Label>
+                <Input 
+                  id="breakMinutes" 
+                  type="number" 
+                  min="0"
+                  step="5"
+                  className="w-full bg-background border-input" 
+                  {...register('breakMinutes', { valueAsNumber: true, min: 0 })}
+                />
+              </div>
+              
+              <div>
+                <Label htmlFor="autoBreakAfterMinutes" className="text-muted-foreground text-sm mb-1">{t('auto_break_after_minutes')}</Label>
+                <Input 
+                  id="autoBreakAfterMinutes" 
+                  type="number" 
+                  min="0"
+                  step="15"
+                  className="w-full bg-background border-input" 
+                  {...register('autoBreakAfterMinutes', { valueAsNumber: true, min: 0 })}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        
+        {/* Vacation */}
+        <Card className="bg-card rounded-lg shadow-lg p-4 mb-4">
+          <CardContent className="p-0">
+            <h3 className="text-lg font-medium mb-4">{t('vacation_settings')}</h3>
+            
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="vacationDaysPerYear" className="text-muted-foreground text-sm mb-1">{t('vacation_days_per_year')}</Label>
+                <Input 
+                  id="vacationDaysPerYear" 
+                  type="number" 
+                  min="0"
+                  className="w-full bg-background border-input" 
+                  {...register('vacationDaysPerYear', { valueAsNumber: true, min: 0 })}
+                />
+              </div>
+              
+              <div>
+                <Label htmlFor="vacationCarryOverDays" className="text-muted-foreground text-sm mb-1">{t('vacation_carry_over_days')}</Label>
+                <Input 
+                  id="vacationCarryOverDays" 
+                  type="number" 
+                  min="0"
+                  className="w-full bg-background border-input" 
+                  {...register('vacationCarryOverDays', { valueAsNumber: true, min: 0 })}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        
+        {/* Overtime Carry-over */}
+        <Card className="bg-card rounded-lg shadow-lg p-4 mb-4">
+          <CardContent className="p-0">
+            <h3 className="text-lg font-medium mb-4">{t('overtime_settings')}</h3>
+            
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="overtimeCapHours" className="text-muted-foreground text-sm mb-1">{t('overtime_cap_hours')}</Label>
+                <Input 
+                  id="overtimeCapHours" 
+                  type="number" 
+                  min="0"
+                  placeholder={t('overtime_no_limit')}
+                  className="w-full bg-background border-input" 
+                  {...register('overtimeCapHours', { setValueAs: toOptionalNumber, min: 0 })}
+                />
+              </div>
+              
+              <div>
+                <Label htmlFor="overtimeExpiryMonths" className="text-muted-foreground text-sm mb-1">{t('overtime_expiry_months')}</Label>
+                <Input 
+                  id="overtimeExpiryMonths" 
+                  type="number" 
+                  min="1"
+                  placeholder={t('overtime_no_limit')}
+                  className="w-full bg-background border-input" 
+                  {...register('overtimeExpiryMonths', { setValueAs: toOptionalNumber, min: 1 })}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        
         <Button 
           type="submit" 
           className="w-full bg-primary hover:bg-primary-dark text-white font-medium mb-4"
@@ -162,6 +309,27 @@ export default function Profile() {
           </CardContent>
         </Card>
       </form>
+      
+      {/* Projects and Clients */}
+      <ProjectsManager />
+      
+      {/* Hourly Rates */}
+      <RatesManager />
+      
+      {/* Pay Rules */}
+      <PayRulesManager />
+      
+      {/* Calendar Feed */}
+      <CalendarFeed />
+      
+      {/* Two-Factor Authentication */}
+      <TwoFactorSettings />
+      
+      {/* API Tokens */}
+      <ApiTokens />
+      
+      {/* Login History */}
+      <LoginHistory />
     </div>
   );
 }
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { ProgressCircle } from '@/components/ui/progress-circle';
 import { MonthCard } from '@/components/ui/month-card';
+import { ReportStatusCard } from '@/components/ui/report-status-card';
 import { AnimatedEntry, AnimatedEntryRow, AnimatedFade } from '@/components/ui/animated-entry';
 import { formatMinutesToHours, getProgressPercentage } from '@/lib/utils';
 import { useQuery } from '@tanstack/react-query';
@@ -12,15 +13,33 @@ import {
   UmbrellaIcon,
   ChevronLeft,
   ChevronRight,
+  ChevronDown,
+  ChevronUp,
   Settings,
   Pencil,
-  Trash2
+  Trash2,
+  History,
+  FolderOpen,
+  Upload
 } from 'lucide-react';
 import { MonthlyReport, TimeEntry, User } from '@shared/schema';
+import { getIsoDayOfWeek, isWorkingDay, parseWorkDays } from '@shared/calendar';
+import { formatShiftEnd } from '@/utils/time';
+import { getEntryDurations } from '@/utils/entries';
+import { getSurchargeLabel, indexEntryPay } from '@/utils/pay';
+import { describeEntryWithProject, summarizeByProject } from '@/utils/projects';
+import { useProjects } from '@/hooks/use-projects';
+import { invalidatePayBreakdowns, usePayBreakdown } from '@/hooks/use-pay';
+import { invalidateMonthlyReports } from '@/hooks/use-time-entries';
+import { invalidateVacationBalances, useVacationBalance } from '@/hooks/use-vacation';
+import { hasRecordedTimes } from '@shared/entry-kinds';
+import { isReportLocked } from '@shared/report-status';
 import { add, format, getMonth, getYear, parseISO, setMonth, setYear } from 'date-fns';
 import { uk } from 'date-fns/locale';
 import EditEntryModal from '@/components/modals/edit-entry-modal';
+import EntryHistoryModal from '@/components/modals/entry-history-modal';
 import ExportModal from '@/components/modals/export-modal';
+import ImportModal from '@/components/modals/import-modal';
 import { motion } from 'framer-motion';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
@@ -43,8 +62,11 @@ export default function Statistics() {
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [exportModalOpen, setExportModalOpen] = useState(false);
+  const [importModalOpen, setImportModalOpen] = useState(false);
   const [selectedEntryId, setSelectedEntryId] = useState<number | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [historyEntryId, setHistoryEntryId] = useState<number | null>(null);
+  const [expandedDays, setExpandedDays] = useState<Set<number>>(new Set());
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { t } = useTranslation();
@@ -75,12 +97,18 @@ export default function Statistics() {
     enabled: !!user,
   });
   
-  const calculateMinutes = (start: string, end: string): number => {
-    const [startHour, startMinute] = start.split(':').map(Number);
-    const [endHour, endMinute] = end.split(':').map(Number);
-    
-    return (endHour * 60 + endMinute) - (startHour * 60 + startMinute);
-  };
+  const { projects, clients } = useProjects();
+  
+  // Оплата с доплатами рассчитывается на сервере по правилам пользователя
+  const { breakdown: payBreakdown } = usePayBreakdown(year, month, !!user);
+  const { balance: vacationBalance } = useVacationBalance(year, !!user);
+  const payByEntry = indexEntryPay(payBreakdown);
+  const getEntryPayment = (entry: TimeEntry): number => payByEntry.get(entry.id)?.totalPay ?? 0;
+  
+  // Итоги по проектам показываются, только если у пользователя есть проекты
+  const projectTotals = projects.length > 0 && Array.isArray(timeEntries)
+    ? summarizeByProject(timeEntries, projects, clients, user, getEntryPayment)
+    : [];
   
   const formatMinutes = (minutes: number): string => {
     const hours = Math.floor(Math.abs(minutes) / 60);
@@ -88,22 +116,8 @@ export default function Statistics() {
     return `${hours}:${mins.toString().padStart(2, '0')}`;
   };
   
-  // Helper function for calculating the total payment for the month
-  const calculateTotalPayment = (): number => {
-    if (!timeEntries || !Array.isArray(timeEntries) || timeEntries.length === 0) return 0;
-    
-    return timeEntries.reduce((total, entry) => {
-      // Calculate total minutes worked for this entry
-      const totalMinutes = calculateMinutes(entry.startTime, entry.endTime);
-      const hours = totalMinutes / 60;
-      
-      // Calculate payment based on hourly rate
-      const hourlyRate = entry.hourlyRate || 0;
-      const payment = Math.round(hours * hourlyRate);
-      
-      return total + payment;
-    }, 0);
-  };
+  // Total payment for the month including surcharges
+  const calculateTotalPayment = (): number => payBreakdown?.month.totalPay ?? 0;
   
   const handlePreviousPeriod = () => {
     setSelectedDate(prev => {
@@ -139,8 +153,9 @@ export default function Statistics() {
       
       // Обновляем данные
       queryClient.invalidateQueries({ queryKey: [`/api/time-entries/${year}/${month}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/monthly-reports/${year}/${month}`] });
-      queryClient.invalidateQueries({ queryKey: ['/api/monthly-reports'] });
+      invalidateMonthlyReports(queryClient);
+      invalidatePayBreakdowns(queryClient);
+      invalidateVacationBalances(queryClient);
       
       setDeleteDialogOpen(false);
       setSelectedEntryId(null);
@@ -180,60 +195,127 @@ export default function Statistics() {
     const daysInMonth = new Date(year, month, 0).getDate();
     const rows = [];
     
-    const workDays = user?.workDays?.split(',').map(Number) || [1, 2, 3, 4, 5];
+    const workDays = parseWorkDays(user?.workDays);
     
     for (let day = 1; day <= daysInMonth; day++) {
       const date = new Date(year, month - 1, day);
-      const dayOfWeek = date.getDay() === 0 ? 7 : date.getDay(); // Convert Sunday from 0 to 7
-      const isWorkDay = workDays.includes(dayOfWeek);
+      const dayOfWeek = getIsoDayOfWeek(date);
+      // Праздничные дни выделяются так же, как выходные
+      const isWorkDay = isWorkingDay(date, workDays);
       
-      const entriesForDay = timeEntries.filter(entry => {
-        // Проверяем, является ли entry.date строкой или объектом Date
-        const entryDate = typeof entry.date === 'string' ? parseISO(entry.date) : new Date(entry.date);
-        return entryDate.getDate() === day;
-      });
-      
-      let startTime = '-';
-      let endTime = '-';
-      let hoursWorked = '-';
-      let payment = '-';
-      let notes = '';
-      let entryId: number | null = null;
+      const entriesForDay = timeEntries
+        .filter(entry => {
+          // Проверяем, является ли entry.date строкой или объектом Date
+          const entryDate = typeof entry.date === 'string' ? parseISO(entry.date) : new Date(entry.date);
+          return entryDate.getDate() === day;
+        })
+        .sort((a, b) => a.startTime.localeCompare(b.startTime));
       
-      if (entriesForDay.length > 0) {
-        const entry = entriesForDay[0];
-        startTime = entry.startTime;
-        endTime = entry.endTime;
-        notes = entry.notes || '';
-        entryId = entry.id;
+      // Каждая запись дня — отдельный отрезок (например, разделённая смена или вторая работа)
+      const segments = entriesForDay.map(entry => {
+        const segment = {
+          entryId: entry.id,
+          notes: describeEntryWithProject(entry, projects, clients),
+          startTime: '-',
+          endTime: '-',
+          breakTime: '-',
+          hoursWorked: '-',
+          payment: '-',
+          breakMinutes: 0,
+          minutes: 0,
+          paymentValue: 0,
+        };
         
-        // Calculate total worked minutes
-        let totalMinutes = calculateMinutes(entry.startTime, entry.endTime);
-        hoursWorked = formatMinutes(totalMinutes);
+        // Отсутствия (отпуск, больничный и т.д.) не имеют времени и оплаты
+        if (hasRecordedTimes(entry)) {
+          const durations = getEntryDurations(entry, user);
+          const totalMinutes = durations.netMinutes;
+          const paymentValue = getEntryPayment(entry);
+          
+          segment.startTime = entry.startTime;
+          segment.endTime = formatShiftEnd(entry.startTime, entry.endTime);
+          segment.breakTime = durations.breakMinutes > 0 ? formatMinutes(durations.breakMinutes) : '-';
+          segment.hoursWorked = formatMinutes(totalMinutes);
+          segment.payment = `${paymentValue} CZK`;
+          segment.breakMinutes = durations.breakMinutes;
+          segment.minutes = totalMinutes;
+          segment.paymentValue = paymentValue;
+        }
         
-        // Calculate payment based on hourly rate and worked time
-        const hourlyRate = entry.hourlyRate || 0;
-        const hours = totalMinutes / 60;
-        const paymentValue = Math.round(hours * hourlyRate);
-        payment = `${paymentValue} CZK`;
-      }
+        return segment;
+      });
+      
+      const totalMinutes = segments.reduce((total, segment) => total + segment.minutes, 0);
+      const totalBreakMinutes = segments.reduce((total, segment) => total + segment.breakMinutes, 0);
+      const totalPayment = segments.reduce((total, segment) => total + segment.paymentValue, 0);
+      const timedSegments = segments.filter(segment => segment.startTime !== '-');
       
       rows.push({
         day,
         dayOfWeek: getDayOfWeek(dayOfWeek),
         isWeekend: !isWorkDay,
-        startTime,
-        endTime,
-        hoursWorked,
-        payment,
-        notes,
-        entryId
+        segments,
+        // Итог дня: начало первого отрезка, конец последнего и сумма часов
+        startTime: timedSegments.length > 0 ? timedSegments[0].startTime : '-',
+        endTime: timedSegments.length > 0 ? timedSegments[timedSegments.length - 1].endTime : '-',
+        breakTime: totalBreakMinutes > 0 ? formatMinutes(totalBreakMinutes) : '-',
+        hoursWorked: timedSegments.length > 0 ? formatMinutes(totalMinutes) : '-',
+        payment: timedSegments.length > 0 ? `${totalPayment} CZK` : '-',
+        notes: segments.map(segment => segment.notes).filter(Boolean).join('; '),
       });
     }
     
     return rows;
   };
   
+  const toggleDayExpanded = (day: number) => {
+    setExpandedDays(prev => {
+      const next = new Set(prev);
+      if (next.has(day)) {
+        next.delete(day);
+      } else {
+        next.add(day);
+      }
+      return next;
+    });
+  };
+  
+  // Записи отправленного или утверждённого месяца не редактируются, пока месяц не вернут в черновик
+  const isMonthLocked = !!currentMonthReport && isReportLocked(currentMonthReport.status);
+  
+  const renderEntryActions = (entryId: number) => (
+    <div className="flex justify-center space-x-2">
+      <Button 
+        size="icon" 
+        variant="ghost" 
+        className="h-8 w-8 text-muted-foreground hover:text-primary"
+        onClick={() => handleEditEntry(entryId)}
+        disabled={isMonthLocked}
+      >
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button 
+        size="icon" 
+        variant="ghost" 
+        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+        onClick={() => handleDeleteEntry(entryId)}
+        disabled={isMonthLocked}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+      {/* История доступна и в закрытом месяце */}
+      <Button 
+        size="icon" 
+        variant="ghost" 
+        className="h-8 w-8 text-muted-foreground hover:text-primary"
+        onClick={() => setHistoryEntryId(entryId)}
+        title={t('entry_history')}
+      >
+        <History className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+  
   // Sort reports in reverse chronological order
   const sortedReports = allMonthlyReports && Array.isArray(allMonthlyReports)
     ? [...allMonthlyReports]
@@ -297,6 +379,14 @@ export default function Statistics() {
                       {formatMinutesToHours(currentMonthReport.workedMinutes)} ч
                     </span>
                   </div>
+                  {currentMonthReport.grossMinutes > currentMonthReport.workedMinutes && (
+                    <div className="text-sm text-muted-foreground ml-8 mt-1">
+                      {t('gross_and_breaks', {
+                        gross: formatMinutesToHours(currentMonthReport.grossMinutes),
+                        breaks: formatMinutesToHours(currentMonthReport.grossMinutes - currentMonthReport.workedMinutes),
+                      })}
+                    </div>
+                  )}
                 </AnimatedEntry>
                 
                 <AnimatedEntry delay={0.3}>
@@ -307,6 +397,52 @@ export default function Statistics() {
                       {calculateTotalPayment()} CZK
                     </span>
                   </div>
+                  {payBreakdown && payBreakdown.month.surcharges.length > 0 && (
+                    <div className="text-sm text-muted-foreground ml-8 mt-1 space-y-1">
+                      <div className="flex justify-between">
+                        <span>{t('base_pay')}</span>
+                        <span>{payBreakdown.month.basePay} CZK</span>
+                      </div>
+                      {payBreakdown.month.surcharges.map(item => (
+                        <div key={item.kind} className="flex justify-between">
+                          <span>{getSurchargeLabel(item.kind)} ({formatMinutesToHours(item.minutes)} ч)</span>
+                          <span>+{item.amount} CZK</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </AnimatedEntry>
+                
+                <AnimatedEntry delay={0.35}>
+                  <div className="flex items-center mt-3">
+                    <Clock className="text-primary mr-3 h-5 w-5" />
+                    <span>{t('overtime_balance')}</span>
+                    <span className="ml-auto font-medium">
+                      {formatMinutesToHours(currentMonthReport.carriedToMinutes)} ч
+                    </span>
+                  </div>
+                  <div className="text-sm text-muted-foreground ml-8 mt-1 space-y-1">
+                    <div className="flex justify-between">
+                      <span>{t('overtime_carried_from')}</span>
+                      <span>{formatMinutesToHours(currentMonthReport.carriedFromMinutes)} ч</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>{t('overtime_this_month')}</span>
+                      <span>{formatMinutesToHours(currentMonthReport.overtimeMinutes)} ч</span>
+                    </div>
+                    {currentMonthReport.timeOffMinutes > 0 && (
+                      <div className="flex justify-between">
+                        <span>{t('overtime_time_off')}</span>
+                        <span>-{formatMinutesToHours(currentMonthReport.timeOffMinutes)} ч</span>
+                      </div>
+                    )}
+                    {currentMonthReport.expiredMinutes > 0 && (
+                      <div className="flex justify-between">
+                        <span>{t('overtime_expired')}</span>
+                        <span>-{formatMinutesToHours(currentMonthReport.expiredMinutes)} ч</span>
+                      </div>
+                    )}
+                  </div>
                 </AnimatedEntry>
                 
                 <AnimatedEntry delay={0.4}>
@@ -325,6 +461,13 @@ export default function Statistics() {
         </AnimatedEntry>
       )}
       
+      {/* Timesheet Approval */}
+      {currentMonthReport && (
+        <AnimatedEntry delay={0.45}>
+          <ReportStatusCard report={currentMonthReport} />
+        </AnimatedEntry>
+      )}
+      
       {/* Work Time Chart */}
       <AnimatedEntry delay={0.5}>
         <Card className="bg-card mx-4 mt-4">
@@ -351,6 +494,68 @@ export default function Statistics() {
         </Card>
       </AnimatedEntry>
       
+      {/* Project Totals */}
+      {projectTotals.length > 0 && (
+        <AnimatedEntry delay={0.85}>
+          <Card className="bg-card mx-4 mt-4">
+            <CardContent className="p-4">
+              <h3 className="text-lg font-medium mb-3">{t('project_totals')}</h3>
+              <div className="space-y-2">
+                {projectTotals.map(item => (
+                  <div key={item.projectId ?? 'none'} className="flex items-center text-sm">
+                    <FolderOpen className="text-primary mr-3 h-4 w-4" />
+                    <span className="truncate">{item.label}</span>
+                    <span className="ml-auto text-muted-foreground">{formatMinutesToHours(item.minutes)} ч</span>
+                    <span className="ml-4 w-24 text-right font-medium">{Math.round(item.payment)} CZK</span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </AnimatedEntry>
+      )}
+      
+      {/* Vacation Balance */}
+      {vacationBalance && (
+        <AnimatedEntry delay={0.87}>
+          <Card className="bg-card mx-4 mt-4">
+            <CardContent className="p-4">
+              <div className="flex items-center mb-3">
+                <UmbrellaIcon className="text-primary mr-3 h-5 w-5" />
+                <h3 className="text-lg font-medium">{t('vacation_balance', { year: vacationBalance.year })}</h3>
+                <span className="ml-auto font-medium">{t('vacation_days_value', { days: vacationBalance.remainingDays })}</span>
+              </div>
+              <div className="text-sm text-muted-foreground ml-8 space-y-1">
+                <div className="flex justify-between">
+                  <span>{t('vacation_entitled')}</span>
+                  <span>{vacationBalance.entitledDays}</span>
+                </div>
+                {vacationBalance.carriedOverDays > 0 && (
+                  <div className="flex justify-between">
+                    <span>{t('vacation_carried_over')}</span>
+                    <span>{vacationBalance.carriedOverDays}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>{t('vacation_taken')}</span>
+                  <span>{vacationBalance.takenDays}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{t('vacation_planned')}</span>
+                  <span>{vacationBalance.plannedDays}</span>
+                </div>
+                {currentMonthReport && currentMonthReport.vacationDays > 0 && (
+                  <div className="flex justify-between">
+                    <span>{t('vacation_this_month')}</span>
+                    <span>{currentMonthReport.vacationDays}</span>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </AnimatedEntry>
+      )}
+      
       {/* Calendar View */}
       <AnimatedEntry delay={0.9}>
         <div className="mt-4 mx-4 overflow-x-auto">
@@ -361,6 +566,7 @@ export default function Statistics() {
                 <th className="p-2 text-center">Название акции</th>
                 <th className="p-2 text-center">Вхід</th>
                 <th className="p-2 text-center">Вихід</th>
+                <th className="p-2 text-center">{t('break')}</th>
                 <th className="p-2 text-center">Годин</th>
                 <th className="p-2 text-center">Оплата</th>
                 <th className="p-2 text-center">Дії</th>
@@ -369,59 +575,88 @@ export default function Statistics() {
             <tbody>
               {isEntriesLoading ? (
                 <tr>
-                  <td colSpan={7} className="p-4 text-center">Завантаження даних...</td>
+                  <td colSpan={8} className="p-4 text-center">Завантаження даних...</td>
                 </tr>
               ) : (
-                calendarRows.map((row, index) => (
-                  <AnimatedEntryRow 
-                    key={row.day} 
-                    index={index}
-                    className={`border-b border-gray-700 ${row.isWeekend ? 'bg-weekend/30' : ''}`}
-                  >
-                    <td className="p-2 text-center">{row.day} {row.dayOfWeek}</td>
-                    <td className="p-2 text-center">{row.notes || "-"}</td>
-                    <td className="p-2 text-center text-primary">{row.startTime}</td>
-                    <td className="p-2 text-center text-primary">{row.endTime}</td>
-                    <td className="p-2 text-center">{row.hoursWorked}</td>
-                    <td className="p-2 text-center text-success">{row.payment}</td>
-                    <td className="p-2 text-center">
-                      {row.entryId ? (
-                        <div className="flex justify-center space-x-2">
-                          <Button 
-                            size="icon" 
-                            variant="ghost" 
-                            className="h-8 w-8 text-muted-foreground hover:text-primary"
-                            onClick={() => handleEditEntry(row.entryId!)}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button 
-                            size="icon" 
-                            variant="ghost" 
-                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                            onClick={() => handleDeleteEntry(row.entryId!)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      ) : (
-                        <span className="text-muted-foreground">-</span>
-                      )}
-                    </td>
-                  </AnimatedEntryRow>
-                ))
+                calendarRows.map((row, index) => {
+                  const segment = row.segments.length === 1 ? row.segments[0] : null;
+                  const hasSegments = row.segments.length > 1;
+                  const isExpanded = expandedDays.has(row.day);
+                  
+                  return (
+                    <React.Fragment key={row.day}>
+                      <AnimatedEntryRow 
+                        index={index}
+                        className={`border-b border-gray-700 ${row.isWeekend ? 'bg-weekend/30' : ''}`}
+                      >
+                        <td className="p-2 text-center">{row.day} {row.dayOfWeek}</td>
+                        <td className="p-2 text-center">
+                          {hasSegments ? t('day_segments', { count: row.segments.length }) : (row.notes || "-")}
+                        </td>
+                        <td className="p-2 text-center text-primary">{row.startTime}</td>
+                        <td className="p-2 text-center text-primary">{row.endTime}</td>
+                        <td className="p-2 text-center text-muted-foreground">{row.breakTime}</td>
+                        <td className={`p-2 text-center ${hasSegments ? 'font-medium' : ''}`}>{row.hoursWorked}</td>
+                        <td className={`p-2 text-center text-success ${hasSegments ? 'font-medium' : ''}`}>{row.payment}</td>
+                        <td className="p-2 text-center">
+                          {hasSegments ? (
+                            <Button 
+                              size="icon" 
+                              variant="ghost" 
+                              className="h-8 w-8 text-muted-foreground hover:text-primary"
+                              onClick={() => toggleDayExpanded(row.day)}
+                            >
+                              {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                            </Button>
+                          ) : segment ? (
+                            renderEntryActions(segment.entryId)
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </td>
+                      </AnimatedEntryRow>
+                      
+                      {/* Отрезки дня с несколькими записями */}
+                      {hasSegments && isExpanded && row.segments.map(daySegment => (
+                        <tr 
+                          key={daySegment.entryId}
+                          className={`border-b border-gray-700 text-sm text-muted-foreground ${row.isWeekend ? 'bg-weekend/20' : 'bg-background/40'}`}
+                        >
+                          <td className="p-2 text-center"></td>
+                          <td className="p-2 text-center">{daySegment.notes || "-"}</td>
+                          <td className="p-2 text-center text-primary">{daySegment.startTime}</td>
+                          <td className="p-2 text-center text-primary">{daySegment.endTime}</td>
+                          <td className="p-2 text-center">{daySegment.breakTime}</td>
+                          <td className="p-2 text-center">{daySegment.hoursWorked}</td>
+                          <td className="p-2 text-center text-success">{daySegment.payment}</td>
+                          <td className="p-2 text-center">{renderEntryActions(daySegment.entryId)}</td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  );
+                })
               )}
             </tbody>
           </table>
           
-          {/* Export Button */}
+          {/* Import and Export Buttons */}
           <div className="flex justify-end mt-4">
             <motion.div
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: 1, duration: 0.3 }}
-              className="w-full sm:w-auto"
+              className="w-full sm:w-auto flex flex-col sm:flex-row gap-2"
             >
+              <Button 
+                variant="outline"
+                onClick={() => setImportModalOpen(true)}
+                className="w-full sm:w-auto"
+              >
+                <span className="flex items-center">
+                  <Upload className="w-5 h-5 mr-2" />
+                  {t('import_data')}
+                </span>
+              </Button>
               <Button 
                 onClick={() => setExportModalOpen(true)}
                 className="w-full sm:w-auto bg-primary hover:bg-primary-dark text-white"
@@ -469,6 +704,13 @@ export default function Statistics() {
         entryId={selectedEntryId} 
       />
       
+      {/* История изменений записи */}
+      <EntryHistoryModal
+        open={historyEntryId !== null}
+        onClose={() => setHistoryEntryId(null)}
+        entryId={historyEntryId}
+      />
+      
       {/* Диалог подтверждения удаления */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent className="bg-card">
@@ -492,17 +734,18 @@ export default function Statistics() {
       </AlertDialog>
       
       {/* Модальное окно экспорта */}
-      {user && currentMonthReport && timeEntries && (
-        <ExportModal
-          open={exportModalOpen}
-          onClose={() => setExportModalOpen(false)}
-          user={user}
-          entries={timeEntries}
-          monthlyReport={currentMonthReport}
-          year={year}
-          month={month}
-        />
-      )}
+      <ExportModal
+        open={exportModalOpen}
+        onClose={() => setExportModalOpen(false)}
+        year={year}
+        month={month}
+      />
+      
+      {/* Модальное окно импорта */}
+      <ImportModal
+        open={importModalOpen}
+        onClose={() => setImportModalOpen(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { AnimatedEntry, AnimatedFade } from '@/components/ui/animated-entry';
+import { reportStatusClasses } from '@/components/ui/report-status-card';
+import { formatMinutesToHours } from '@/lib/utils';
+import { useReviewReport, useTeamMemberEntries, useTeamOverview } from '@/hooks/use-teams';
+import { useToast } from '@/hooks/use-toast';
+import { describeEntry } from '@/utils/entries';
+import { formatShiftEnd } from '@/utils/time';
+import { hasRecordedTimes } from '@shared/entry-kinds';
+import { getAvailableReportActions, reportTransitions, type ReportAction, type ReportStatus } from '@shared/report-status';
+import { type TeamOverviewRow } from '@shared/teams';
+import { format, getMonth, getYear } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from 'lucide-react';
+
+interface MemberEntriesProps {
+  userId: number;
+  year: number;
+  month: number;
+}
+
+// Записи сотрудника за месяц: руководитель их только просматривает и согласует табель целиком
+function MemberEntries({ userId, year, month }: MemberEntriesProps) {
+  const { t } = useTranslation();
+  const { entries, isLoading } = useTeamMemberEntries(userId, year, month);
+
+  if (isLoading) {
+    return <p className="p-2 text-sm text-muted-foreground">{t('loading_data')}</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="p-2 text-sm text-muted-foreground">{t('team_no_entries')}</p>;
+  }
+
+  const sorted = [...entries].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime() || a.startTime.localeCompare(b.startTime)
+  );
+
+  return (
+    <table className="w-full text-sm text-muted-foreground">
+      <tbody>
+        {sorted.map(entry => (
+          <tr key={entry.id} className="border-t border-gray-700">
+            <td className="p-2 w-24">{format(new Date(entry.date), 'dd.MM.yyyy')}</td>
+            <td className="p-2 w-28 text-primary">
+              {hasRecordedTimes(entry) ? `${entry.startTime}–${formatShiftEnd(entry.startTime, entry.endTime)}` : '-'}
+            </td>
+            <td className="p-2">{describeEntry(entry) || '-'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface MemberReviewProps {
+  userId: number;
+  year: number;
+  month: number;
+  status: ReportStatus;
+}
+
+// Утверждение или отклонение отправленного табеля; для отклонения нужна причина
+function MemberReview({ userId, year, month, status }: MemberReviewProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { reviewReport, isPending } = useReviewReport(userId, year, month);
+  const [pendingAction, setPendingAction] = useState<ReportAction | null>(null);
+  const [comment, setComment] = useState('');
+
+  const actions = getAvailableReportActions(status, true);
+  if (actions.length === 0) return null;
+
+  const runAction = async (action: ReportAction, reason?: string) => {
+    try {
+      await reviewReport({ action, comment: reason });
+      toast({ title: t(`report_statuses.${reportTransitions[action].to}`) });
+      setPendingAction(null);
+      setComment('');
+    } catch (error) {
+      toast({
+        title: t('error'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAction = (action: ReportAction) => {
+    if (reportTransitions[action].requiresComment) {
+      setPendingAction(action);
+      return;
+    }
+    runAction(action);
+  };
+
+  if (pendingAction) {
+    return (
+      <div className="space-y-2 p-2">
+        <Textarea
+          value={comment}
+          onChange={(event) => setComment(event.target.value)}
+          placeholder={t('report_action_reason')}
+          className="bg-background border-input h-20 resize-none"
+        />
+        <div className="flex gap-2">
+          <Button type="button" size="sm" variant="outline" onClick={() => setPendingAction(null)}>
+            {t('cancel')}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="destructive"
+            onClick={() => runAction(pendingAction, comment.trim())}
+            disabled={isPending || !comment.trim()}
+          >
+            {t(`report_actions.${pendingAction}`)}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2 p-2">
+      {actions.map(action => (
+        <Button
+          key={action}
+          type="button"
+          size="sm"
+          variant={action === 'approve' ? 'default' : 'outline'}
+          onClick={() => handleAction(action)}
+          disabled={isPending}
+        >
+          {t(`report_actions.${action}`)}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Обзор команды за месяц: часы, норма, переработка и статус табеля каждого сотрудника
+ */
+export default function Team() {
+  const { t } = useTranslation();
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [expandedUserId, setExpandedUserId] = useState<number | null>(null);
+
+  const year = getYear(selectedDate);
+  const month = getMonth(selectedDate) + 1;
+  const { overview, isLoading } = useTeamOverview(year, month);
+
+  const changeMonth = (delta: number) => {
+    setSelectedDate(prev => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+    setExpandedUserId(null);
+  };
+
+  const getTeamName = (row: TeamOverviewRow) =>
+    overview?.teams.find(team => team.id === row.member.teamId)?.name ?? '';
+
+  const rows = overview?.rows ?? [];
+  const totals = rows.reduce(
+    (sum, row) => ({
+      worked: sum.worked + row.report.workedMinutes,
+      target: sum.target + row.report.targetMinutes,
+      overtime: sum.overtime + row.report.overtimeMinutes,
+    }),
+    { worked: 0, target: 0, overtime: 0 }
+  );
+
+  return (
+    <div className="pb-24">
+      <AnimatedFade>
+        <div className="flex items-center justify-between bg-card px-4 py-3 border-b border-gray-700">
+          <button className="text-lg" onClick={() => changeMonth(-1)}>
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <h2 className="text-lg font-medium">
+            {t('team_overview')}: {t(`dates.months.${month - 1}`)} {year}
+          </h2>
+          <button className="text-lg" onClick={() => changeMonth(1)}>
+            <ChevronRight className="h-5 w-5" />
+          </button>
+        </div>
+      </AnimatedFade>
+
+      <AnimatedEntry delay={0.1}>
+        <Card className="bg-card mx-4 mt-4">
+          <CardContent className="p-4 overflow-x-auto">
+            {isLoading ? (
+              <p className="text-center p-4">{t('loading_data')}</p>
+            ) : rows.length === 0 ? (
+              <p className="text-center p-4 text-muted-foreground">{t('team_empty')}</p>
+            ) : (
+              <table className="w-full">
+                <thead>
+                  <tr className="text-muted-foreground border-b border-gray-700 text-sm">
+                    <th className="p-2 text-left">{t('team_member')}</th>
+                    <th className="p-2 text-right">{t('team_worked')}</th>
+                    <th className="p-2 text-right">{t('team_target')}</th>
+                    <th className="p-2 text-right">{t('team_overtime')}</th>
+                    <th className="p-2 text-right">{t('overtime_balance')}</th>
+                    <th className="p-2 text-center">{t('report_approval')}</th>
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const isExpanded = expandedUserId === row.member.id;
+                    return (
+                      <React.Fragment key={row.member.id}>
+                        <tr
+                          className="border-b border-gray-700 cursor-pointer"
+                          onClick={() => setExpandedUserId(isExpanded ? null : row.member.id)}
+                        >
+                          <td className="p-2">
+                            <div className="font-medium">{row.member.fullName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {[getTeamName(row), row.member.position].filter(Boolean).join(' · ')}
+                            </div>
+                          </td>
+                          <td className="p-2 text-right">{formatMinutesToHours(row.report.workedMinutes)} ч</td>
+                          <td className="p-2 text-right text-muted-foreground">{formatMinutesToHours(row.report.targetMinutes)} ч</td>
+                          <td className={`p-2 text-right ${row.report.overtimeMinutes < 0 ? 'text-destructive' : 'text-success'}`}>
+                            {formatMinutesToHours(row.report.overtimeMinutes)} ч
+                          </td>
+                          <td className="p-2 text-right">
+                            {formatMinutesToHours(row.report.carriedToMinutes)} ч
+                          </td>
+                          <td className="p-2 text-center">
+                            <Badge className={reportStatusClasses[row.report.status]}>
+                              {t(`report_statuses.${row.report.status}`)}
+                            </Badge>
+                          </td>
+                          <td className="p-2 text-muted-foreground">
+                            {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="border-b border-gray-700 bg-background/40">
+                            <td colSpan={7}>
+                              <MemberReview userId={row.member.id} year={year} month={month} status={row.report.status} />
+                              <MemberEntries userId={row.member.id} year={year} month={month} />
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+                <tfoot>
+                  <tr className="font-medium text-sm">
+                    <td className="p-2">{t('team_total')}</td>
+                    <td className="p-2 text-right">{formatMinutesToHours(totals.worked)} ч</td>
+                    <td className="p-2 text-right">{formatMinutesToHours(totals.target)} ч</td>
+                    <td className="p-2 text-right">
+                      {formatMinutesToHours(totals.overtime)} ч
+                    </td>
+                    <td colSpan={3}></td>
+                  </tr>
+                </tfoot>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </AnimatedEntry>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
-import { format, addMonths, subMonths, getYear, getMonth, getDaysInMonth, isWeekend } from 'date-fns';
+import { format, addMonths, subMonths, getYear, getMonth } from 'date-fns';
 import { uk } from 'date-fns/locale';
 import i18next from 'i18next';
+import { countWorkingDays, isWorkingDay, DEFAULT_WORK_DAYS } from '@shared/calendar';
+import { getDayOfWeekName as getSharedDayOfWeekName, getMonthName as getSharedMonthName } from '@shared/format';
 
 export function formatDateToUkrainian(date: Date): string {
   return format(date, 'LLLL yyyy р.', { locale: uk });
@@ -8,12 +10,12 @@ export function formatDateToUkrainian(date: Date): string {
 
 export function getMonthName(month: number): string {
   // month: 1-12
-  return i18next.t(`dates.months.${month - 1}`);
+  return getSharedMonthName(month, i18next.t);
 }
 
 export function getDayOfWeekName(dayNumber: number): string {
   // dayNumber: 1-7 (Пн-Нд)
-  return i18next.t(`dates.days.${(dayNumber - 1) % 7}`);
+  return getSharedDayOfWeekName(dayNumber, i18next.t);
 }
 
 export function getDayOfWeekAbbr(dayNumber: number): string {
@@ -29,25 +31,11 @@ export function previousMonth(date: Date): Date {
   return subMonths(date, 1);
 }
 
-export function calculateWorkDaysInMonth(date: Date, workDays: number[] = [1, 2, 3, 4, 5]): number {
-  const year = getYear(date);
-  const month = getMonth(date);
-  const daysInMonth = getDaysInMonth(new Date(year, month));
-  let workDaysCount = 0;
-  
-  for (let day = 1; day <= daysInMonth; day++) {
-    const currentDate = new Date(year, month, day);
-    const dayOfWeek = currentDate.getDay() === 0 ? 7 : currentDate.getDay();
-    
-    if (workDays.includes(dayOfWeek)) {
-      workDaysCount++;
-    }
-  }
-  
-  return workDaysCount;
-}
-
-export function isWorkDay(date: Date, workDays: number[] = [1, 2, 3, 4, 5]): boolean {
-  const dayOfWeek = date.getDay() === 0 ? 7 : date.getDay();
-  return workDays.includes(dayOfWeek);
+// Рабочие дни считаются так же, как на сервере: по настройке пользователя и с учётом праздников
+export function calculateWorkDaysInMonth(date: Date, workDays: number[] = DEFAULT_WORK_DAYS): number {
+  return countWorkingDays(getYear(date), getMonth(date) + 1, workDays);
+}
+
+export function isWorkDay(date: Date, workDays: number[] = DEFAULT_WORK_DAYS): boolean {
+  return isWorkingDay(date, workDays);
 }
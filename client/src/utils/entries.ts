@@ -0,0 +1,24 @@
+import i18next from 'i18next';
+import { TimeEntry, User } from '@shared/schema';
+import { getEntryDurations as getSharedEntryDurations } from '@shared/entry-kinds';
+import { type ShiftDurations } from '@shared/time';
+import { describeEntry as describeSharedEntry, getEntryKindLabel as getSharedEntryKindLabel } from '@shared/format';
+
+export function getEntryKindLabel(kind: string): string {
+  return getSharedEntryKindLabel(kind, i18next.t);
+}
+
+// Описание записи для таблицы: тип отсутствия (с пометкой половинного дня) и заметка
+export function describeEntry(entry: TimeEntry): string {
+  return describeSharedEntry(entry, i18next.t);
+}
+
+// Брутто, перерыв и нетто записи с учётом автоперерыва пользователя; отсутствия дают нули
+export function getEntryDurations(entry: TimeEntry, user?: User | null): ShiftDurations {
+  return getSharedEntryDurations(entry, user ?? undefined);
+}
+
+// Минуты, которые оплачиваются по ставке записи (без перерывов); отсутствия не оплачиваются
+export function getPayableMinutes(entry: TimeEntry, user?: User | null): number {
+  return getEntryDurations(entry, user).netMinutes;
+}
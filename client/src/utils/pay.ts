@@ -0,0 +1,17 @@
+import i18next from 'i18next';
+import { type EntryPay, type PayBreakdown, type PayRuleKind, type SurchargeItem } from '@shared/pay';
+import { formatSurcharge as formatSharedSurcharge, getSurchargeLabel as getSharedSurchargeLabel } from '@shared/format';
+
+export function getSurchargeLabel(kind: PayRuleKind): string {
+  return getSharedSurchargeLabel(kind, i18next.t);
+}
+
+// Расчёт оплаты по записям с доступом по id записи
+export function indexEntryPay(breakdown?: PayBreakdown | null): Map<number, EntryPay> {
+  return new Map((breakdown?.entries ?? []).map(item => [item.entryId, item]));
+}
+
+// Строка доплаты для итогов: "Сверхурочные: 12:30 ч, 1250 CZK"
+export function formatSurcharge(item: SurchargeItem): string {
+  return formatSharedSurcharge(item, i18next.t);
+}
@@ -0,0 +1,41 @@
+import i18next from 'i18next';
+import { Client, Project, TimeEntry, User } from '@shared/schema';
+import {
+  findProject,
+  getProjectLabel as getSharedProjectLabel,
+  summarizeByProject as summarizeSharedByProject,
+  type ProjectCatalog,
+  type ProjectTotals,
+} from '@shared/projects';
+import { describeEntry } from './entries';
+
+export { findProject, type ProjectCatalog, type ProjectTotals };
+
+// Название проекта с клиентом: "Клиент / Проект"
+export function getProjectLabel(project: Project | undefined, clients: Client[] = []): string {
+  return getSharedProjectLabel(project, clients, i18next.t);
+}
+
+/**
+ * Итоги по проектам: время и оплата; записи без проекта собираются в отдельную строку в конце
+ */
+export function summarizeByProject(
+  entries: TimeEntry[],
+  projects: Project[],
+  clients: Client[],
+  user: User | null | undefined,
+  getPayment: (entry: TimeEntry) => number
+): ProjectTotals[] {
+  return summarizeSharedByProject(entries, { projects, clients }, user, getPayment, i18next.t);
+}
+
+// Описание записи с проектом: "Проект — заметка"
+export function describeEntryWithProject(entry: TimeEntry, projects: Project[], clients: Client[] = []): string {
+  const project = findProject(projects, entry.projectId);
+  const description = describeEntry(entry);
+  if (!project) {
+    return description;
+  }
+  const label = getProjectLabel(project, clients);
+  return description ? `${label} — ${description}` : label;
+}
@@ -1,3 +1,7 @@
+import { calculateShiftDurations, calculateShiftMinutes } from '@shared/time';
+
+export { formatMinutesToHours, formatShiftEnd } from '@shared/format';
+
 export function parseTimeString(timeString: string): { hours: number; minutes: number } {
   const [hoursStr, minutesStr] = timeString.split(':');
   const hours = parseInt(hoursStr, 10);
@@ -5,22 +9,9 @@ export function parseTimeString(timeString: string): { hours: number; minutes: n
   return { hours, minutes };
 }
 
+// Учитывает ночные смены: 22:00–06:00 даёт 480 минут, а не отрицательное значение
 export function calculateTotalMinutes(start: string, end: string): number {
-  const startTime = parseTimeString(start);
-  const endTime = parseTimeString(end);
-  
-  const startMinutes = startTime.hours * 60 + startTime.minutes;
-  const endMinutes = endTime.hours * 60 + endTime.minutes;
-  
-  return endMinutes - startMinutes;
-}
-
-export function formatMinutesToHours(minutes: number): string {
-  const hours = Math.floor(Math.abs(minutes) / 60);
-  const remainingMinutes = Math.abs(minutes) % 60;
-  const sign = minutes < 0 ? '-' : '';
-  
-  return `${sign}${hours}:${remainingMinutes.toString().padStart(2, '0')}`;
+  return calculateShiftMinutes(start, end);
 }
 
 export function formatTime(hours: number, minutes: number): string {
@@ -37,14 +28,8 @@ export function calculateWorkTimeWithBreak(
   breakStart: string | null, 
   breakEnd: string | null
 ): number {
-  const totalMinutes = calculateTotalMinutes(startTime, endTime);
-  
-  if (breakStart && breakEnd) {
-    const breakMinutes = calculateTotalMinutes(breakStart, breakEnd);
-    return totalMinutes - breakMinutes;
-  }
-  
-  return totalMinutes;
+  const breaks = breakStart && breakEnd ? [{ startTime: breakStart, endTime: breakEnd }] : [];
+  return calculateShiftDurations(startTime, endTime, breaks).netMinutes;
 }
 
 export function secondsToHMS(seconds: number): string {
@@ -0,0 +1,129 @@
+import { randomBytes } from "crypto";
+import { type Team, type User } from "@shared/schema";
+import { adminUserCreateSchema, toAdminUser, type AdminPasswordResult, type AdminTeam, type AdminTeamUpdate, type AdminUserUpdate } from "@shared/admin";
+import { canViewTeams } from "@shared/teams";
+import { z } from "zod";
+import { hashPassword } from "./auth";
+import { syncMonthlyReports } from "./reports";
+import { storage } from "./storage";
+
+// Временный пароль, который пользователь сменит при первом входе
+function generateTemporaryPassword(): string {
+  return randomBytes(9).toString("base64url");
+}
+
+async function findTeamError(teamId: number | null | undefined): Promise<string | undefined> {
+  if (teamId === null || teamId === undefined) return undefined;
+  const teams = await storage.getTeams();
+  return teams.some(team => team.id === teamId) ? undefined : "Team not found";
+}
+
+/**
+ * Новый пользователь с временным паролем; строка — причина отказа
+ */
+export async function createManagedUser(admin: User, data: z.infer<typeof adminUserCreateSchema>): Promise<AdminPasswordResult | string> {
+  if (await storage.getUserByUsername(data.username)) {
+    return "Username already exists";
+  }
+  const teamError = await findTeamError(data.teamId);
+  if (teamError) return teamError;
+
+  const temporaryPassword = generateTemporaryPassword();
+  const user = await storage.createUser({
+    ...data,
+    password: await hashPassword(temporaryPassword),
+    mustChangePassword: true,
+  }, admin.id);
+  return { user: toAdminUser(user), temporaryPassword };
+}
+
+/**
+ * Норма, рабочие дни, перерыв, отпуск, перенос переработки, роль и команда пользователя; строка — причина отказа
+ */
+export async function updateManagedUser(admin: User, target: User, data: AdminUserUpdate): Promise<User | string> {
+  // Администратор не может лишить себя доступа к консоли
+  if (target.id === admin.id && data.role !== undefined && data.role !== admin.role) {
+    return "You cannot change your own role";
+  }
+  const teamError = await findTeamError(data.teamId);
+  if (teamError) return teamError;
+
+  const updated = await storage.updateUser(target.id, data, admin.id);
+  if (!updated) return "Failed to update user";
+
+  // Норма, рабочие дни, лимит и срок переноса переработки влияют на все отчёты
+  await syncMonthlyReports(updated);
+  return updated;
+}
+
+/**
+ * Отключение и повторное включение учётной записи; строка — причина отказа
+ */
+export async function setUserActive(admin: User, target: User, isActive: boolean): Promise<User | string> {
+  if (target.id === admin.id) {
+    return "You cannot deactivate your own account";
+  }
+  const updated = await storage.updateUser(target.id, { isActive }, admin.id);
+  return updated ?? "Failed to update user";
+}
+
+/**
+ * Сброс пароля: новый временный пароль, который нужно сменить при входе
+ */
+export async function resetUserPassword(admin: User, target: User): Promise<AdminPasswordResult | string> {
+  const temporaryPassword = generateTemporaryPassword();
+  const updated = await storage.updateUser(target.id, {
+    password: await hashPassword(temporaryPassword),
+    mustChangePassword: true,
+  }, admin.id);
+  if (!updated) return "Failed to reset password";
+  return { user: toAdminUser(updated), temporaryPassword };
+}
+
+// Руководитель команды должен видеть её обзор: роль manager или admin
+async function findManagerError(managerId: number | null | undefined): Promise<string | undefined> {
+  if (managerId === null || managerId === undefined) return undefined;
+  const manager = await storage.getUser(managerId);
+  if (!manager) return "Manager not found";
+  return canViewTeams(manager.role) ? undefined : "Team manager must have the manager or admin role";
+}
+
+// Вышестоящая команда существует и не вложена в саму команду: иначе иерархия замкнётся в цикл
+function findParentError(teams: Team[], teamId: number | undefined, parentId: number | null | undefined): string | undefined {
+  if (parentId === null || parentId === undefined) return undefined;
+  if (!teams.some(team => team.id === parentId)) return "Parent team not found";
+
+  const visited = new Set<number>();
+  let currentId: number | null = parentId;
+  while (currentId !== null && !visited.has(currentId)) {
+    if (currentId === teamId) return "A team cannot be nested in itself or its subteams";
+    visited.add(currentId);
+    currentId = teams.find(team => team.id === currentId)?.parentId ?? null;
+  }
+  return undefined;
+}
+
+/**
+ * Новая команда; строка — причина отказа
+ */
+export async function createManagedTeam(data: AdminTeam): Promise<Team | string> {
+  const managerError = await findManagerError(data.managerId);
+  if (managerError) return managerError;
+  const parentError = findParentError(await storage.getTeams(), undefined, data.parentId);
+  if (parentError) return parentError;
+
+  return storage.createTeam(data);
+}
+
+/**
+ * Название, руководитель и вышестоящая команда; строка — причина отказа
+ */
+export async function updateManagedTeam(team: Team, data: AdminTeamUpdate): Promise<Team | string> {
+  const managerError = await findManagerError(data.managerId);
+  if (managerError) return managerError;
+  const parentError = findParentError(await storage.getTeams(), team.id, data.parentId);
+  if (parentError) return parentError;
+
+  const updated = await storage.updateTeam(team.id, data);
+  return updated ?? "Failed to update team";
+}
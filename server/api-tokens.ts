@@ -0,0 +1,82 @@
+import { createHash, randomBytes } from "crypto";
+import { type NextFunction, type Request, type Response } from "express";
+import { type User } from "@shared/schema";
+import { API_TOKEN_PREFIX, type ApiTokenCreate, type ApiTokenScope, type CreatedApiToken, toPublicApiToken } from "@shared/api-tokens";
+import { storage } from "./storage";
+
+interface ApiTokenRoute {
+  method: string;
+  path: RegExp; // Путь относительно /api
+  scope: ApiTokenScope;
+}
+
+// Маршруты, доступные по токену. Остальные (профиль, пароль, токены, администрирование) — только из браузера
+const apiTokenRoutes: ApiTokenRoute[] = [
+  { method: "GET", path: /^\/time-entries(\/running|\/\d+|\/\d{4}\/\d{1,2})?$/, scope: "entries:read" },
+  { method: "GET", path: /^\/(clients|projects)$/, scope: "entries:read" },
+  { method: "POST", path: /^\/time-entries(\/(clock-in|pause|resume|clock-out))?$/, scope: "entries:write" },
+  { method: "PATCH", path: /^\/time-entries\/\d+$/, scope: "entries:write" },
+  { method: "DELETE", path: /^\/time-entries\/(running|\d+)$/, scope: "entries:write" },
+  { method: "GET", path: /^\/monthly-reports(\/\d{4}\/\d{1,2}(\/history)?)?$/, scope: "reports:read" },
+  { method: "GET", path: /^\/(pay\/\d{4}\/\d{1,2}|vacation\/\d{4})$/, scope: "reports:read" },
+  { method: "GET", path: /^\/exports(\/months|\/\d{4}\/\d{1,2})?$/, scope: "reports:read" },
+];
+
+function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Область, которая нужна для запроса; undefined — маршрут по токену недоступен
+function getRequiredScope(method: string, path: string): ApiTokenScope | undefined {
+  const routeMethod = method === "HEAD" ? "GET" : method;
+  return apiTokenRoutes.find(route => route.method === routeMethod && route.path.test(path))?.scope;
+}
+
+/**
+ * Новый токен: в базе остаются хеш и первые символы, сам токен возвращается один раз
+ */
+export async function createApiToken(user: User, data: ApiTokenCreate): Promise<CreatedApiToken> {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const apiToken = await storage.createApiToken({
+    userId: user.id,
+    name: data.name,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+    scopes: data.scopes,
+    expiresAt: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000),
+  });
+  return { token, apiToken: toPublicApiToken(apiToken) };
+}
+
+/**
+ * Вход по заголовку Authorization: Bearer без сессии. Запрос без заголовка проходит дальше как обычно,
+ * а недействительный токен или маршрут вне областей токена отклоняются сразу
+ */
+export async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return next();
+
+  try {
+    const apiToken = await storage.getApiTokenByHash(hashApiToken(header.slice("Bearer ".length).trim()));
+    const now = new Date();
+    const user = apiToken && apiToken.expiresAt > now ? await storage.getUser(apiToken.userId) : undefined;
+    if (!apiToken || !user || !user.isActive) {
+      res.setHeader("WWW-Authenticate", 'Bearer error="invalid_token"');
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    const scope = getRequiredScope(req.method, req.path);
+    if (!scope) {
+      return res.status(403).json({ message: "This endpoint is not available with API tokens" });
+    }
+    if (!apiToken.scopes.includes(scope)) {
+      res.setHeader("WWW-Authenticate", `Bearer error="insufficient_scope", scope="${scope}"`);
+      return res.status(403).json({ message: `API token lacks the ${scope} scope` });
+    }
+
+    await storage.touchApiToken(apiToken.id, now);
+    req.login(user, { session: false }, (err) => err ? next(err) : next());
+  } catch (error) {
+    next(error);
+  }
+}
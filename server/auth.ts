@@ -1,11 +1,16 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type NextFunction, type Request, type Response } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { User as SelectUser, registerUserSchema, userInitialData } from "@shared/schema";
+import { toPublicUser, twoFactorCodeSchema, type TwoFactorChallenge } from "@shared/two-factor";
+import { z } from "zod";
+import { getLoginRetryAfter, logLoginAttempt, recordLoginFailure, recordLoginSuccess } from "./login-throttle";
+import { verifyTwoFactorCode } from "./two-factor";
+import { authenticateApiToken } from "./api-tokens";
 
 declare global {
   namespace Express {
@@ -13,6 +18,18 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Пароль уже проверен, но сессия не авторизована, пока не введён код второго шага
+    twoFactorLogin?: { userId: number; username: string; expiresAt: number };
+    // Секрет TOTP, который пользователь подключает, до подтверждения первым кодом
+    twoFactorSetupSecret?: string;
+  }
+}
+
+// Сколько ждать код второго шага после верного пароля
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+
 const scryptAsync = promisify(scrypt);
 
 export async function hashPassword(password: string) {
@@ -23,11 +40,62 @@ export async function hashPassword(password: string) {
 
 export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
+  // Пароль, сохранённый не хешем (например, старым начальным пользователем), не подходит никогда
+  if (!hashed || !salt) return false;
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
-  return timingSafeEqual(hashedBuf, suppliedBuf);
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/**
+ * Первый администратор пустой базы со случайным паролем, который нужно сменить при входе.
+ * Пароль выводится в журнал сервера один раз
+ */
+export async function initializeDefaultUser(): Promise<void> {
+  if (await storage.hasUsers()) return;
+
+  const password = randomBytes(12).toString("base64url");
+  await storage.createUser({ ...userInitialData, password: await hashPassword(password) }, null);
+  console.log(`Created administrator "${userInitialData.username}" with temporary password: ${password}`);
+}
+
+// passport.authenticate с колбэком: пользователь или false, если имя или пароль не подошли
+function authenticateLocal(req: Request, res: Response, next: NextFunction): Promise<Express.User | false> {
+  return new Promise((resolve, reject) => {
+    passport.authenticate("local", (err: unknown, user: Express.User | false) => {
+      if (err) return reject(err);
+      resolve(user);
+    })(req, res, next);
+  });
+}
+
+function loginSession(req: Request, user: Express.User): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.login(user, (err) => err ? reject(err) : resolve());
+  });
+}
+
+// Во время задержки ни пароль, ни код не проверяются вовсе; true — запрос уже отклонён
+async function rejectThrottledLogin(res: Response, ip: string, username: string): Promise<boolean> {
+  const retryAfter = await getLoginRetryAfter(ip, username);
+  if (retryAfter === 0) return false;
+
+  await logLoginAttempt(ip, username, "blocked");
+  res.setHeader("Retry-After", String(retryAfter));
+  res.status(429).json({ message: `Too many login attempts. Try again in ${retryAfter} seconds`, retryAfter });
+  return true;
 }
 
+async function completeLogin(req: Request, res: Response, user: Express.User, ip: string, username: string) {
+  await loginSession(req, user);
+  await recordLoginSuccess(ip, username);
+  await logLoginAttempt(ip, username, "success");
+  res.status(200).json(toPublicUser(user));
+}
+
+// Пока не сменён пароль, выданный администратором, доступны только эти пути /api
+const passwordChangePaths = ["/user", "/user/password", "/logout", "/settings"];
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || 'default-secret-key-change-me',
@@ -37,6 +105,8 @@ export function setupAuth(app: Express) {
     store: storage.sessionStore,
   };
 
+  initializeDefaultUser().catch(console.error);
+
   app.set("trust proxy", 1);
   app.use(session(sessionSettings));
   app.use(passport.initialize());
@@ -46,7 +116,7 @@ export function setupAuth(app: Express) {
     new LocalStrategy(async (username, password, done) => {
       try {
         const user = await storage.getUserByUsername(username);
-        if (!user || !(await comparePasswords(password, user.password))) {
+        if (!user || !user.isActive || !(await comparePasswords(password, user.password))) {
           return done(null, false);
         } else {
           return done(null, user);
@@ -61,35 +131,115 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // Сессия отключённого пользователя больше не действует
+      done(null, user && user.isActive ? user : false);
     } catch (error) {
       done(error);
     }
   });
 
+  // Скрипты и интеграции входят личным токеном вместо сессии
+  app.use("/api", authenticateApiToken);
+
+  app.use("/api", (req, res, next) => {
+    if (req.isAuthenticated() && req.user!.mustChangePassword && !passwordChangePaths.includes(req.path)) {
+      return res.status(403).json({ message: "Password change required" });
+    }
+    next();
+  });
+
   app.post("/api/register", async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const settings = await storage.getAppSettings();
+      if (!settings.registrationEnabled) {
+        return res.status(403).json({ message: "Registration is disabled" });
+      }
+      
+      // Новый пользователь всегда активный сотрудник без команды; роль, команду и доступ меняет администратор,
+      // поэтому любые поля сверх учётных и личных данных отклоняются
+      const data = registerUserSchema.parse(req.body);
+      const existingUser = await storage.getUserByUsername(data.username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
       const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
-      });
+        ...data,
+        password: await hashPassword(data.password),
+      }, null);
 
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(201).json(user);
+        res.status(201).json(toPublicUser(user));
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
       next(error);
     }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  // Вход с защитой от подбора: растущая задержка и временная блокировка по адресу и по имени
+  app.post("/api/login", async (req, res, next) => {
+    try {
+      const username = typeof req.body?.username === "string" ? req.body.username.slice(0, 200) : "";
+      const ip = req.ip || "unknown";
+      
+      if (await rejectThrottledLogin(res, ip, username)) return;
+      
+      const user = await authenticateLocal(req, res, next);
+      if (!user) {
+        await recordLoginFailure(ip, username);
+        await logLoginAttempt(ip, username, "failed");
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      
+      if (user.totpSecret) {
+        req.session.twoFactorLogin = { userId: user.id, username, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS };
+        const challenge: TwoFactorChallenge = { twoFactorRequired: true };
+        return res.status(200).json(challenge);
+      }
+      
+      await completeLogin(req, res, user, ip, username);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Второй шаг входа: код из приложения или код восстановления
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const pending = req.session.twoFactorLogin;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.twoFactorLogin;
+        return res.status(401).json({ message: "Login expired, enter your password again" });
+      }
+      
+      const ip = req.ip || "unknown";
+      if (await rejectThrottledLogin(res, ip, pending.username)) return;
+      
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.isActive || !user.totpSecret) {
+        delete req.session.twoFactorLogin;
+        return res.status(401).json({ message: "Login expired, enter your password again" });
+      }
+      
+      if (!(await verifyTwoFactorCode(user, code))) {
+        await recordLoginFailure(ip, pending.username);
+        await logLoginAttempt(ip, pending.username, "failed");
+        return res.status(401).json({ message: "Invalid code" });
+      }
+      
+      delete req.session.twoFactorLogin;
+      await completeLogin(req, res, user, ip, pending.username);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      next(error);
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -101,6 +251,6 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toPublicUser(req.user!));
   });
 }
\ No newline at end of file
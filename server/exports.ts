@@ -0,0 +1,194 @@
+import { type MonthlyReport, type TimeEntry, type User } from "@shared/schema";
+import { isWorkingDay, parseWorkDays } from "@shared/calendar";
+import { getAbsenceDayFraction, getEntryDurations, getEntryKindRule, hasRecordedTimes } from "@shared/entry-kinds";
+import { type EntryPay, type SurchargeItem } from "@shared/pay";
+import { type ExportDocument, type ExportReport, type ExportSummary } from "@shared/export";
+import { type ProjectCatalog } from "@shared/projects";
+import { syncMonthlyReport } from "./reports";
+import { getMonthPayBreakdown } from "./pay";
+import { getVacationBalance } from "./vacation";
+import { storage } from "./storage";
+
+function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+// Записи в порядке табеля: по дате, затем по времени начала
+function sortEntries(entries: TimeEntry[]): TimeEntry[] {
+  return [...entries].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime() || a.startTime.localeCompare(b.startTime)
+  );
+}
+
+// Табель месяца по уже пересчитанному месячному отчёту
+async function buildMonthDocument(user: User, report: MonthlyReport, catalog: ProjectCatalog): Promise<ExportDocument> {
+  const { year, month } = report;
+  const [pay, vacation, entries] = await Promise.all([
+    getMonthPayBreakdown(user, year, month),
+    getVacationBalance(user, year),
+    storage.getTimeEntriesByUserAndMonth(user.id, year, month),
+  ]);
+
+  return {
+    user,
+    period: { year, month },
+    entries: sortEntries(entries),
+    entryPay: pay.entries,
+    summary: {
+      workDays: report.workDays,
+      workedMinutes: report.workedMinutes,
+      grossMinutes: report.grossMinutes,
+      vacationDays: report.vacationDays,
+      basePay: pay.month.basePay,
+      surcharges: pay.month.surcharges,
+      totalPay: pay.month.totalPay,
+    },
+    vacation,
+    ...catalog,
+  };
+}
+
+async function getProjectCatalog(userId: number): Promise<ProjectCatalog> {
+  const [projects, clients] = await Promise.all([
+    storage.getProjectsByUser(userId),
+    storage.getClientsByUser(userId),
+  ]);
+  return { projects, clients };
+}
+
+/**
+ * Табель за месяц (month: 1-12): итоги из месячного отчёта, оплата из расчёта с доплатами
+ */
+export async function buildMonthExport(user: User, year: number, month: number): Promise<ExportDocument> {
+  const [report, catalog] = await Promise.all([
+    syncMonthlyReport(user, year, month),
+    getProjectCatalog(user.id),
+  ]);
+  return buildMonthDocument(user, report, catalog);
+}
+
+/**
+ * Табель за несколько месяцев подряд (включительно): раздел на каждый месяц
+ * и сводка часов, переработки, оплаты, отпуска и больничных по месячным отчётам
+ */
+export async function buildMultiMonthExport(
+  user: User,
+  from: { year: number; month: number },
+  to: { year: number; month: number }
+): Promise<ExportReport> {
+  // Отчёты пересчитываются по очереди: каждый пересчёт проходит всю цепочку переноса переработки
+  const reports: MonthlyReport[] = [];
+  for (let date = new Date(from.year, from.month - 1, 1); date <= new Date(to.year, to.month - 1, 1); date = new Date(date.getFullYear(), date.getMonth() + 1, 1)) {
+    reports.push(await syncMonthlyReport(user, date.getFullYear(), date.getMonth() + 1));
+  }
+
+  const catalog = await getProjectCatalog(user.id);
+  const months = await Promise.all(reports.map(report => buildMonthDocument(user, report, catalog)));
+
+  return {
+    user,
+    period: { from: new Date(from.year, from.month - 1, 1), to: new Date(to.year, to.month, 0) },
+    months,
+    totals: reports.map((report, index) => ({
+      year: report.year,
+      month: report.month,
+      workedMinutes: report.workedMinutes,
+      targetMinutes: report.targetMinutes,
+      overtimeMinutes: report.overtimeMinutes,
+      totalPay: months[index].summary.totalPay,
+      vacationDays: report.vacationDays,
+      sickDays: report.sickDays,
+    })),
+  };
+}
+
+/**
+ * Итоги произвольного интервала по записям, которые в него попали.
+ * Ночная смена последнего дня учитывается целиком, в отличие от месячного отчёта.
+ */
+function summarizeRange(entries: TimeEntry[], entryPay: EntryPay[], user: User, from: Date, to: Date): ExportSummary {
+  const workDays = parseWorkDays(user.workDays);
+  const dayMinutes = user.workHoursPerDay * 60;
+
+  let workingDays = 0;
+  for (let day = new Date(from); day <= to; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    if (isWorkingDay(day, workDays)) workingDays++;
+  }
+
+  let workedMinutes = 0;
+  let grossMinutes = 0;
+  const vacationDays = new Map<string, number>();
+  for (const entry of entries) {
+    const rule = getEntryKindRule(entry.kind);
+    const date = new Date(entry.date);
+
+    if (rule.countsAsWorked && !hasRecordedTimes(entry) && rule.fullDayIfNoTimes) {
+      workedMinutes += dayMinutes;
+      grossMinutes += dayMinutes;
+    } else {
+      const durations = getEntryDurations(entry, user);
+      workedMinutes += durations.netMinutes;
+      grossMinutes += durations.grossMinutes;
+    }
+
+    if (rule.countsAsVacation && isWorkingDay(date, workDays)) {
+      const key = toDayKey(date);
+      vacationDays.set(key, Math.min(1, (vacationDays.get(key) ?? 0) + getAbsenceDayFraction(entry)));
+    }
+  }
+
+  const surcharges: SurchargeItem[] = [];
+  for (const item of entryPay.flatMap(pay => pay.surcharges)) {
+    const existing = surcharges.find(surcharge => surcharge.kind === item.kind);
+    if (existing) {
+      existing.minutes += item.minutes;
+      existing.amount += item.amount;
+    } else {
+      surcharges.push({ ...item });
+    }
+  }
+  const basePay = entryPay.reduce((total, pay) => total + pay.basePay, 0);
+
+  return {
+    workDays: workingDays,
+    workedMinutes,
+    grossMinutes,
+    vacationDays: Array.from(vacationDays.values()).reduce((total, days) => total + days, 0),
+    basePay,
+    surcharges,
+    totalPay: basePay + surcharges.reduce((total, surcharge) => total + surcharge.amount, 0),
+  };
+}
+
+/**
+ * Табель за интервал дат включительно; оплата записей берётся из расчётов затронутых месяцев,
+ * баланс отпуска — за год конца интервала
+ */
+export async function buildRangeExport(user: User, from: Date, to: Date): Promise<ExportDocument> {
+  const months: { year: number; month: number }[] = [];
+  for (let date = new Date(from.getFullYear(), from.getMonth(), 1); date <= to; date = new Date(date.getFullYear(), date.getMonth() + 1, 1)) {
+    months.push({ year: date.getFullYear(), month: date.getMonth() + 1 });
+  }
+
+  const [entries, breakdowns, vacation, catalog] = await Promise.all([
+    storage.getTimeEntriesByUserAndRange(user.id, from, to),
+    Promise.all(months.map(({ year, month }) => getMonthPayBreakdown(user, year, month))),
+    getVacationBalance(user, to.getFullYear()),
+    getProjectCatalog(user.id),
+  ]);
+
+  const entryIds = new Set(entries.map(entry => entry.id));
+  const entryPay = breakdowns
+    .flatMap(breakdown => breakdown.entries)
+    .filter(item => entryIds.has(item.entryId));
+
+  return {
+    user,
+    period: { from, to },
+    entries: sortEntries(entries),
+    entryPay,
+    summary: summarizeRange(entries, entryPay, user, from, to),
+    vacation,
+    ...catalog,
+  };
+}
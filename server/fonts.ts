@@ -0,0 +1,23 @@
+import { readFileSync } from "fs";
+import { createRequire } from "module";
+import { type PdfFonts } from "@shared/export";
+
+const require = createRequire(import.meta.url);
+
+let pdfFonts: PdfFonts | undefined;
+
+function readFont(file: string): string {
+  return readFileSync(require.resolve(`dejavu-fonts-ttf/ttf/${file}`)).toString("base64");
+}
+
+/**
+ * Шрифты DejaVu Sans для PDF-табелей: покрывают кириллицу и чешскую диакритику.
+ * Читаются с диска при первом экспорте и дальше берутся из памяти.
+ */
+export function getPdfFonts(): PdfFonts {
+  pdfFonts ??= {
+    regular: readFont("DejaVuSans.ttf"),
+    bold: readFont("DejaVuSans-Bold.ttf"),
+  };
+  return pdfFonts;
+}
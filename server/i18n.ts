@@ -0,0 +1,35 @@
+import i18next from "i18next";
+import { type Translate } from "@shared/format";
+// Переводы общие с клиентом, чтобы серверный экспорт совпадал с интерфейсом
+import ru from "../client/src/locales/ru.json";
+import uk from "../client/src/locales/uk.json";
+import cs from "../client/src/locales/cs.json";
+
+export const supportedLanguages = ["ru", "uk", "cs"] as const;
+
+export const defaultLanguage = "ru";
+
+const i18n = i18next.createInstance();
+
+i18n.init({
+  resources: {
+    ru: { translation: ru },
+    uk: { translation: uk },
+    cs: { translation: cs },
+  },
+  fallbackLng: defaultLanguage,
+  supportedLngs: [...supportedLanguages],
+  interpolation: {
+    escapeValue: false,
+  },
+  // Ресурсы уже загружены, инициализация синхронная
+  initAsync: false,
+});
+
+/**
+ * Функция перевода для языка запроса; неизвестный язык заменяется языком по умолчанию
+ */
+export function getTranslator(language?: string): Translate {
+  const resolved = supportedLanguages.find(item => item === language) ?? defaultLanguage;
+  return i18n.getFixedT(resolved);
+}
@@ -0,0 +1,396 @@
+import { type TimeEntry, type User } from "@shared/schema";
+import { entryKindRules, hasRecordedTimes } from "@shared/entry-kinds";
+import { crossesMidnight, MINUTES_PER_DAY } from "@shared/time";
+import { isWorkingDay, parseWorkDays } from "@shared/calendar";
+import { findProject, getProjectLabel, type ProjectCatalog } from "@shared/projects";
+import { getEntryKindLabel, type Translate } from "@shared/format";
+import { MAX_IMPORT_ROWS, type ImportRow } from "@shared/import";
+import { classifyRows, detectEntryKind, formatEntryDate, joinNotes, type ParsedRow } from "./import";
+
+// Строки iCalendar длиннее 75 байт переносятся (RFC 5545, 3.1)
+const ICS_LINE_LIMIT = 75;
+
+// Событие на весь день длиннее квартала — скорее ошибка в календаре, чем отпуск
+const MAX_EVENT_DAYS = 92;
+
+// Дата и время без часового пояса: в таком виде хранятся записи
+interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  minutes: number | null; // Минуты от полуночи; null — событие на весь день
+}
+
+interface CalendarEvent {
+  start: WallTime;
+  end: WallTime | null;
+  summary: string;
+  description: string;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Перенос по байтам UTF-8, не разрывая символы; продолжение начинается с пробела
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? ICS_LINE_LIMIT : ICS_LINE_LIMIT - 1;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function pad(value: number, length = 2): string {
+  return value.toString().padStart(length, "0");
+}
+
+// 20250505 — дата записи со сдвигом на days дней
+function formatIcsDate(date: Date | string, days = 0): string {
+  const d = new Date(date);
+  const shifted = new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+  return `${shifted.getFullYear()}${pad(shifted.getMonth() + 1)}${pad(shifted.getDate())}`;
+}
+
+// 20250505T080000 — «плавающее» время без пояса: в любом календаре то же время на часах, что и в табеле
+function formatIcsDateTime(date: Date | string, time: string, days = 0): string {
+  return `${formatIcsDate(date, days)}T${time.replace(":", "")}00`;
+}
+
+function formatIcsTimestamp(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+// Название события: тип записи (для работы — проект) с пометкой половинного дня
+function getEventSummary(entry: TimeEntry, catalog: ProjectCatalog, t: Translate): string {
+  const project = findProject(catalog.projects, entry.projectId);
+  const projectLabel = project ? getProjectLabel(project, catalog.clients, t) : null;
+  if (entry.kind === "work") {
+    return projectLabel ?? getEntryKindLabel(entry.kind, t);
+  }
+  const kindLabel = entry.halfDay ? `${getEntryKindLabel(entry.kind, t)} (${t("half_day")})` : getEntryKindLabel(entry.kind, t);
+  return projectLabel ? `${kindLabel} — ${projectLabel}` : kindLabel;
+}
+
+/**
+ * Календарь iCalendar с записями пользователя: смены — события со временем,
+ * отсутствия и записи без времени — события на весь день, заметки — описания
+ */
+export function buildCalendarFeed(user: User, entries: TimeEntry[], catalog: ProjectCatalog, t: Translate): string {
+  const stamp = formatIcsTimestamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Time Tracker//Timesheet//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${t("export.title")} — ${user.fullName}`)}`,
+  ];
+
+  for (const entry of entries) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:entry-${entry.id}@time-tracker`,
+      `DTSTAMP:${stamp}`,
+    );
+    if (hasRecordedTimes(entry)) {
+      const endDays = crossesMidnight(entry.startTime, entry.endTime) ? 1 : 0;
+      lines.push(
+        `DTSTART:${formatIcsDateTime(entry.date, entry.startTime)}`,
+        `DTEND:${formatIcsDateTime(entry.date, entry.endTime, endDays)}`,
+      );
+    } else {
+      lines.push(
+        `DTSTART;VALUE=DATE:${formatIcsDate(entry.date)}`,
+        `DTEND;VALUE=DATE:${formatIcsDate(entry.date, 1)}`,
+        // Отсутствие не занимает время в расписании
+        "TRANSP:TRANSPARENT",
+      );
+    }
+    lines.push(`SUMMARY:${escapeText(getEventSummary(entry, catalog, t))}`);
+    if (entry.notes) {
+      lines.push(`DESCRIPTION:${escapeText(entry.notes)}`);
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// Строка содержимого iCalendar: имя свойства, параметры и значение
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => char.toLowerCase() === "n" ? "\n" : char);
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE — двоеточие в кавычках не отделяет значение
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+// Смещение пояса в минутах в указанный момент; неизвестный пояс — ошибка RangeError
+function getZoneOffset(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"), value("second"));
+  return Math.round((asUtc - instant) / 60000);
+}
+
+function toWallTime(instant: number, timeZone: string): WallTime {
+  const local = new Date(instant + getZoneOffset(timeZone, instant) * 60000);
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+    minutes: local.getUTCHours() * 60 + local.getUTCMinutes(),
+  };
+}
+
+// Время на часах в поясе zone как момент времени; смещение уточняется второй итерацией около перехода на летнее время
+function fromZonedTime(wall: WallTime, timeZone: string): number {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day) + (wall.minutes ?? 0) * 60000;
+  const firstGuess = asUtc - getZoneOffset(timeZone, asUtc) * 60000;
+  return asUtc - getZoneOffset(timeZone, firstGuess) * 60000;
+}
+
+function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * DATE, DATE-TIME в UTC (Z), с TZID или «плавающее» — как время на часах в поясе пользователя.
+ * Неизвестный TZID (например, из Outlook) считается плавающим временем.
+ */
+function parseIcsTime(line: ContentLine, timeZone: string): WallTime | null {
+  const match = line.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const wall: WallTime = {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    minutes: match[4] ? Number(match[4]) * 60 + Number(match[5]) : null,
+  };
+  if (wall.minutes === null || line.params.VALUE === "DATE") {
+    return { ...wall, minutes: null };
+  }
+
+  if (match[7]) {
+    return toWallTime(Date.UTC(wall.year, wall.month - 1, wall.day) + wall.minutes * 60000, timeZone);
+  }
+  const sourceZone = line.params.TZID;
+  if (sourceZone && isKnownTimeZone(sourceZone)) {
+    return toWallTime(fromZonedTime(wall, sourceZone), timeZone);
+  }
+  return wall;
+}
+
+// DURATION вида P1D, PT8H30M, P1DT2H
+function addDuration(start: WallTime, duration: string): WallTime | null {
+  const match = duration.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const days = Number(match[1] ?? 0) * 7 + Number(match[2] ?? 0);
+  const minutes = Number(match[3] ?? 0) * 60 + Number(match[4] ?? 0);
+
+  const base = Date.UTC(start.year, start.month - 1, start.day + days) + ((start.minutes ?? 0) + minutes) * 60000;
+  const end = new Date(base);
+  return {
+    year: end.getUTCFullYear(),
+    month: end.getUTCMonth() + 1,
+    day: end.getUTCDate(),
+    minutes: start.minutes === null ? null : end.getUTCHours() * 60 + end.getUTCMinutes(),
+  };
+}
+
+// События VEVENT файла; отменённые события и события без начала пропускаются
+function parseCalendarEvents(text: string, timeZone: string): CalendarEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  let current: ContentLine[] | null = null;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === "BEGIN" && line.value.toUpperCase() === "VEVENT") {
+      current = [];
+    } else if (line.name === "END" && line.value.toUpperCase() === "VEVENT" && current) {
+      const find = (name: string) => current!.find(item => item.name === name);
+      const startLine = find("DTSTART");
+      const start = startLine ? parseIcsTime(startLine, timeZone) : null;
+      const status = find("STATUS")?.value.toUpperCase();
+      if (start && status !== "CANCELLED") {
+        const endLine = find("DTEND");
+        const durationLine = find("DURATION");
+        events.push({
+          start,
+          end: endLine ? parseIcsTime(endLine, timeZone) : durationLine ? addDuration(start, durationLine.value) : null,
+          summary: unescapeText(find("SUMMARY")?.value ?? "").trim(),
+          description: unescapeText(find("DESCRIPTION")?.value ?? "").trim(),
+        });
+      }
+      current = null;
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  return events;
+}
+
+function formatWallClock(minutes: number): string {
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+function toDayNumber(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day) / (24 * 60 * 60 * 1000);
+}
+
+// Черновики одного события: событие на несколько дней даёт по черновику на каждый рабочий день
+function eventToRows(event: CalendarEvent, rowNumber: number, workDays: number[]): ParsedRow[] {
+  // Название, по которому определён тип, в заметки не попадает
+  const summaryKind = detectEntryKind(event.summary);
+  const detected = summaryKind ?? detectEntryKind(event.description);
+  const base = {
+    rowNumber,
+    breaks: [],
+    hourlyRate: null,
+    notes: joinNotes([summaryKind ? "" : event.summary, event.description]),
+  };
+
+  if (event.start.minutes === null) {
+    // Конец события на весь день не входит в событие; без конца — один день
+    const firstDay = toDayNumber(event.start);
+    const lastDay = event.end ? Math.max(firstDay, toDayNumber(event.end) - 1) : firstDay;
+    const kind = detected?.kind ?? "vacation";
+    if (lastDay - firstDay + 1 > MAX_EVENT_DAYS) {
+      // Слишком длинное событие не раскладывается по дням, а показывается одной пропущенной строкой
+      const date = formatEntryDate(event.start.year, event.start.month, event.start.day);
+      return [{ ...base, date, kind, startTime: "00:00", endTime: "00:00", halfDay: false, error: `Event is longer than ${MAX_EVENT_DAYS} days` }];
+    }
+    const rows: ParsedRow[] = [];
+    for (let day = firstDay; day <= lastDay; day++) {
+      const date = new Date(day * 24 * 60 * 60 * 1000);
+      // Выходные внутри многодневного отпуска не нужны; однодневное событие сохраняется всегда
+      if (lastDay > firstDay && !isWorkingDay(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), workDays)) {
+        continue;
+      }
+      rows.push({
+        ...base,
+        date: formatEntryDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()),
+        kind,
+        startTime: "00:00",
+        endTime: "00:00",
+        halfDay: detected?.halfDay ?? false,
+        error: detected ? null : "Entry kind not recognized, vacation assumed",
+      });
+    }
+    return rows;
+  }
+
+  const date = formatEntryDate(event.start.year, event.start.month, event.start.day);
+  const kind = detected?.kind ?? "work";
+  if (!entryKindRules[kind].hasTimes) {
+    // Отсутствие, заданное временем: день без времени, как в табеле
+    return [{ ...base, date, kind, startTime: "00:00", endTime: "00:00", halfDay: detected?.halfDay ?? false, error: null }];
+  }
+
+  const end = event.end ?? event.start;
+  const length = (toDayNumber(end) - toDayNumber(event.start)) * MINUTES_PER_DAY + (end.minutes ?? 0) - event.start.minutes;
+  const startTime = formatWallClock(event.start.minutes);
+  const endTime = formatWallClock(end.minutes ?? 0);
+  let error: string | null = null;
+  if (length <= 0) error = "Event has no duration";
+  else if (length >= MINUTES_PER_DAY) error = "Event is longer than a day";
+
+  return [{ ...base, date, kind, startTime, endTime, halfDay: false, error }];
+}
+
+/**
+ * Черновики записей из загруженного календаря (.ics в base64) со статусами, как у импорта таблиц.
+ * Время событий переводится в пояс пользователя timeZone. Слишком длинные события и события сверх
+ * лимита черновиков возвращаются пропущенными. Возвращает сообщение об ошибке, если в файле нет событий.
+ */
+export async function buildCalendarDrafts(user: User, file: string, timeZone: string): Promise<ImportRow[] | string> {
+  const text = Buffer.from(file, "base64").toString("utf8");
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    return "The file is not an iCalendar file";
+  }
+  if (!isKnownTimeZone(timeZone)) {
+    return "Unknown time zone";
+  }
+
+  const events = parseCalendarEvents(text, timeZone);
+  if (events.length === 0) {
+    return "The calendar contains no events";
+  }
+
+  const workDays = parseWorkDays(user.workDays);
+  const rows: ParsedRow[] = [];
+  let draftCount = 0;
+  events.forEach((event, index) => {
+    const eventRows = eventToRows(event, index + 1, workDays);
+    if (draftCount + eventRows.length > MAX_IMPORT_ROWS) {
+      // События сверх лимита остаются в списке пропущенными, чтобы их можно было импортировать отдельным файлом
+      rows.push({ ...eventRows[0], error: `Too many entries in one calendar, at most ${MAX_IMPORT_ROWS}` });
+      return;
+    }
+    draftCount += eventRows.length;
+    rows.push(...eventRows);
+  });
+  rows.sort((a, b) => (a.date ?? "").localeCompare(b.date ?? "") || a.startTime.localeCompare(b.startTime));
+  return classifyRows(user.id, rows);
+}
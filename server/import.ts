@@ -0,0 +1,568 @@
+import * as XLSX from "xlsx";
+import { ENTRY_DATE_RANGE_MESSAGE, isEntryDateInRange, type InsertTimeEntry, type MonthlyReport, type User } from "@shared/schema";
+import { entryKinds, entryKindRules, hasRecordedTimes, legacyAbsenceNotes, type EntryKind } from "@shared/entry-kinds";
+import { calculateShiftMinutes, getShiftInterval, intervalsOverlap, MINUTES_PER_DAY, parseTimeToMinutes, type BreakSegment } from "@shared/time";
+import { resolveHourlyRate } from "@shared/rates";
+import {
+  importFields,
+  MAX_IMPORT_ROWS,
+  type ColumnMapping,
+  type ImportField,
+  type ImportFormat,
+  type ImportPreview,
+  type ImportResult,
+  type ImportRow,
+  type ImportRowData,
+} from "@shared/import";
+import { findLockedReport, formatLockedMessage, formatOverlapMessage, getLockedReports, validateBreaks } from "./time-entries";
+import { storage } from "./storage";
+
+type Cell = string | number | boolean | null;
+
+// Строка файла до сравнения с существующими записями
+export type ParsedRow = Omit<ImportRow, "status" | "message"> & { error: string | null };
+
+interface ParsedFile {
+  columns: string[];
+  mapping: ColumnMapping;
+  rows: ParsedRow[];
+}
+
+// Отсутствия в свободном тексте старых табелей и названиях событий календаря;
+// сравнение без диакритики и регистра (й и ї тоже теряют надстрочный знак)
+const absencePatterns: [RegExp, EntryKind][] = [
+  [/neplacen|unpaid|за свои сч|без сохранения|без збереження/, "unpaid_leave"],
+  [/nahradn|time off in lieu|\btoil\b|отгул|відгул/, "time_off_in_lieu"],
+  [/\bnemoc|neschopn|\bpn\b|\bsick|больнич|лікарнян/, "sick_leave"],
+  [/public holiday|bank holiday|праздник|свято/, "public_holiday"],
+  [/dovolen|vacation|holiday|отпуск|відпуст/, "vacation"],
+  [/svat(ek|ku)/, "public_holiday"],
+  [/\bcest[aeu]\b|business trip|командировк|відрядж/, "business_trip"],
+  [/\bvoln|day off|выходн|вихідн/, "day_off"],
+];
+
+const halfDayPattern = /(^|\s)(pul|1\/2|0[,.]5)(\s|$)/;
+
+// Заголовки столбцов, по которым угадывается сопоставление: наш экспорт и типичные табели
+const columnKeywords: Record<ImportField, string[]> = {
+  date: ["datum", "date", "дата"],
+  startTime: ["zacatek", "od", "start", "начало", "початок", "с"],
+  endTime: ["konec", "do", "end", "конец", "кінець", "по"],
+  breakMinutes: ["prestavka", "preruseni", "break", "перерыв", "перерва"],
+  kind: ["typ", "druh", "kind", "type", "тип"],
+  hourlyRate: ["sazba", "kc/hod", "rate", "ставка"],
+  notes: ["poznamk", "popis", "nazev", "notes", "примечан", "описание", "примітк", "опис"],
+};
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+const TIME_RANGE_PATTERN = /^(\d{1,2}(?:[:.]\d{2})?)\s*[-–—]\s*(\d{1,2}(?:[:.]\d{2})?)$/;
+
+function normalizeText(value: string): string {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+}
+
+function cellText(cell: Cell | undefined): string {
+  return cell === null || cell === undefined ? "" : String(cell).trim();
+}
+
+// Сигнатуры XLSX (zip) и XLS (OLE); всё остальное читается как текст CSV в UTF-8
+function isBinaryWorkbook(buffer: Buffer): boolean {
+  return buffer.subarray(0, 2).toString("latin1") === "PK" ||
+    buffer.subarray(0, 4).equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0]));
+}
+
+function readSheetRows(file: string): Cell[][] {
+  const buffer = Buffer.from(file, "base64");
+  // raw: текст CSV не превращается в даты и числа по локали сервера
+  const workbook = isBinaryWorkbook(buffer)
+    ? XLSX.read(buffer, { type: "buffer" })
+    : XLSX.read(buffer.toString("utf8").replace(/^\uFEFF/, ""), { type: "string", raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  return XLSX.utils.sheet_to_json<Cell[]>(sheet, { header: 1, raw: true, defval: null, blankrows: true });
+}
+
+export function formatEntryDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day, 12));
+  if (year < 2000 || year > 2100 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString();
+}
+
+/**
+ * Дата из ячейки: число Excel, 2022-01-03, 3.1.2022 (или 3.1. с годом из заголовка табеля), 1/3/2022
+ */
+function parseDateCell(cell: Cell | undefined, defaultYear?: number): string | null {
+  if (typeof cell === "number") {
+    // Дата Excel — число дней от 30.12.1899, время суток в дробной части
+    const date = new Date(EXCEL_EPOCH + Math.floor(cell) * 24 * 60 * 60 * 1000);
+    return formatEntryDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  const text = cellText(cell);
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return formatEntryDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})\.\s*(\d{1,2})\.\s*(\d{4})?/);
+  if (match) {
+    const year = match[3] ? Number(match[3]) : defaultYear;
+    return year ? formatEntryDate(year, Number(match[2]), Number(match[1])) : null;
+  }
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (match) return formatEntryDate(Number(match[3]), Number(match[1]), Number(match[2]));
+
+  return null;
+}
+
+function formatTime(minutes: number): string {
+  const value = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${Math.floor(value / 60).toString().padStart(2, '0')}:${(value % 60).toString().padStart(2, '0')}`;
+}
+
+// "8", "8:30", "8.30"; 24:00 означает полночь
+function parseTimeText(text: string): string | null {
+  const match = text.match(/^(\d{1,2})(?:[:.](\d{2}))?$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return formatTime(hours * 60 + minutes);
+}
+
+function parseTimeCell(cell: Cell | undefined): string | null {
+  // Время в Excel — доля суток
+  if (typeof cell === "number" && cell >= 0 && cell < 1) {
+    return formatTime(Math.round(cell * MINUTES_PER_DAY));
+  }
+  // Наш CSV-экспорт помечает конец ночной смены как "06:00 (+1)"
+  return parseTimeText(cellText(cell).replace(/\s*\(\+1\)$/, ""));
+}
+
+function parseTimeRange(text: string): { startTime: string; endTime: string } | null {
+  const match = text.match(TIME_RANGE_PATTERN);
+  if (!match) return null;
+  const startTime = parseTimeText(match[1]);
+  const endTime = parseTimeText(match[2]);
+  return startTime && endTime && startTime !== endTime ? { startTime, endTime } : null;
+}
+
+/**
+ * Продолжительность в минутах: "0:30", доля суток Excel или число в указанных единицах ("0,5" часа)
+ */
+function parseDurationMinutes(cell: Cell | undefined, numberUnit: "hours" | "minutes"): number | null {
+  if (typeof cell === "number") {
+    // Доля суток Excel (0:30 = 0,0208…) отличается от часов тем, что не даёт целых минут при умножении на 60
+    const isDayFraction = cell > 0 && cell < 1 &&
+      (numberUnit === "minutes" || Math.abs(cell * 60 - Math.round(cell * 60)) > 1e-6);
+    if (isDayFraction) {
+      return Math.round(cell * MINUTES_PER_DAY);
+    }
+    return Math.round(numberUnit === "hours" ? cell * 60 : cell);
+  }
+
+  const text = cellText(cell);
+  if (!text) return 0;
+
+  const clock = text.match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+
+  const value = Number(text.replace(/\s*(min|мин|хв)\.?$/i, "").replace(",", "."));
+  if (isNaN(value) || value < 0) return null;
+  return Math.round(numberUnit === "hours" && !/min|мин|хв/i.test(text) ? value * 60 : value);
+}
+
+/**
+ * Перерыв из ячейки: интервал "12:00-12:30" записывается как есть,
+ * а продолжительность ставится в середину смены
+ */
+function parseBreaks(
+  cell: Cell | undefined,
+  startTime: string,
+  endTime: string,
+  numberUnit: "hours" | "minutes"
+): BreakSegment[] | string {
+  const range = parseTimeRange(cellText(cell));
+  if (range) return [range];
+
+  const minutes = parseDurationMinutes(cell, numberUnit);
+  if (minutes === null) return "Unrecognized break";
+  if (minutes === 0) return [];
+
+  const shiftMinutes = calculateShiftMinutes(startTime, endTime);
+  if (minutes >= shiftMinutes) return "Break is longer than the shift";
+
+  const breakStart = parseTimeToMinutes(startTime) + Math.floor((shiftMinutes - minutes) / 2);
+  return [{ startTime: formatTime(breakStart), endTime: formatTime(breakStart + minutes) }];
+}
+
+function parseRate(cell: Cell | undefined): number | null {
+  if (typeof cell === "number") return Math.max(0, Math.round(cell));
+  const value = Number(cellText(cell).replace(/\s|Kč|CZK/gi, "").replace(",", "."));
+  return cellText(cell) && !isNaN(value) ? Math.max(0, Math.round(value)) : null;
+}
+
+/**
+ * Тип записи по тексту: идентификатор типа, заметки старой формы или ключевые слова табеля
+ */
+export function detectEntryKind(text: string): { kind: EntryKind; halfDay: boolean } | null {
+  const legacyKind = legacyAbsenceNotes[text.trim()];
+  if (legacyKind) return { kind: legacyKind, halfDay: false };
+
+  const normalized = normalizeText(text);
+  if (!normalized) return null;
+  if ((entryKinds as readonly string[]).includes(normalized)) {
+    return { kind: normalized as EntryKind, halfDay: false };
+  }
+
+  const match = absencePatterns.find(([pattern]) => pattern.test(normalized));
+  return match ? { kind: match[1], halfDay: halfDayPattern.test(normalized) } : null;
+}
+
+export function joinNotes(parts: string[]): string | null {
+  const notes = parts.filter(Boolean).join(" — ");
+  return notes || null;
+}
+
+interface RowCells {
+  rowNumber: number;
+  date: string | null;
+  kind: { kind: EntryKind; halfDay: boolean } | null;
+  startTime: string | null;
+  endTime: string | null;
+  breakCell: Cell | undefined;
+  breakUnit: "hours" | "minutes";
+  rate: number | null;
+  notes: string | null;
+}
+
+// Сборка строки импорта из распознанных ячеек; ошибка не прерывает разбор остальных строк
+function buildRow(cells: RowCells): ParsedRow {
+  const withTimes = !!cells.startTime && !!cells.endTime && cells.startTime !== cells.endTime;
+  const kind = cells.kind?.kind ?? "work";
+  const rule = entryKindRules[kind];
+  const row: ParsedRow = {
+    rowNumber: cells.rowNumber,
+    date: cells.date,
+    kind,
+    startTime: "00:00",
+    endTime: "00:00",
+    breaks: [],
+    hourlyRate: null,
+    notes: cells.notes,
+    halfDay: !!cells.kind?.halfDay && rule.reducesTarget,
+    error: null,
+  };
+
+  if (!cells.date) {
+    return { ...row, error: "Unrecognized date" };
+  }
+
+  if (!rule.hasTimes || !withTimes) {
+    // Работа без времени не имеет смысла, командировка без времени засчитывается полным днём
+    if (!rule.hasTimes || rule.fullDayIfNoTimes) return row;
+    return { ...row, error: "Unrecognized working time" };
+  }
+
+  const breaks = parseBreaks(cells.breakCell, cells.startTime!, cells.endTime!, cells.breakUnit);
+  if (typeof breaks === "string") {
+    return { ...row, startTime: cells.startTime!, endTime: cells.endTime!, error: breaks };
+  }
+
+  return {
+    ...row,
+    startTime: cells.startTime!,
+    endTime: cells.endTime!,
+    breaks,
+    hourlyRate: cells.rate,
+    error: validateBreaks(cells.startTime!, cells.endTime!, breaks),
+  };
+}
+
+/**
+ * Табель «Výkaz práce»: заголовок с годом, строка заголовков, начинающаяся с «datum»,
+ * и строки дней до итога «součet hodin». Столбцы: дата, название и место, описание,
+ * рабочее время "8:00-16:30", перерыв, часы, ставка Kč/hod.
+ */
+function parseVykaz(sheetRows: Cell[][]): ParsedFile | string {
+  const headerIndex = sheetRows.findIndex(row => normalizeText(cellText(row[0])) === "datum");
+  if (headerIndex === -1) {
+    return "The file does not look like a Výkaz práce workbook";
+  }
+
+  const yearMatch = sheetRows.slice(0, headerIndex)
+    .flat()
+    .map(cell => cellText(cell).match(/\b(20\d{2})\b/))
+    .find(Boolean);
+  const year = yearMatch ? Number(yearMatch[1]) : undefined;
+
+  const rows: ParsedRow[] = [];
+  for (let i = headerIndex + 1; i < sheetRows.length; i++) {
+    const row = sheetRows[i];
+    if (row.some(cell => normalizeText(cellText(cell)).startsWith("soucet hodin"))) break;
+
+    const [dateCell, placeCell, activityCell, workTimeCell, breakCell, , rateCell] = row;
+    const place = cellText(placeCell);
+    const activity = cellText(activityCell);
+    const workTime = cellText(workTimeCell);
+    // Пустые дни шаблона пропускаются
+    if (!place && !activity && !workTime) continue;
+
+    const range = parseTimeRange(workTime);
+    let kind: { kind: EntryKind; halfDay: boolean } | null;
+    let notes: string | null;
+    if (range) {
+      // Со временем это работа, кроме командировки
+      const detected = detectEntryKind(place) ?? detectEntryKind(activity);
+      kind = detected && entryKindRules[detected.kind].hasTimes ? detected : null;
+      notes = joinNotes([place, activity]);
+    } else {
+      // Текст, по которому распознано отсутствие, в заметки не попадает
+      kind = detectEntryKind(workTime) ?? detectEntryKind(place) ?? detectEntryKind(activity);
+      notes = joinNotes([place, activity].filter(text => !detectEntryKind(text)));
+    }
+
+    rows.push(buildRow({
+      rowNumber: i + 1,
+      date: parseDateCell(dateCell, year),
+      kind,
+      startTime: range?.startTime ?? null,
+      endTime: range?.endTime ?? null,
+      breakCell,
+      breakUnit: "hours",
+      rate: parseRate(rateCell),
+      notes,
+    }));
+  }
+
+  return { columns: [], mapping: {}, rows };
+}
+
+/**
+ * Сопоставление столбцов по заголовкам; короткие слова («od», «do») должны совпадать целиком
+ */
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const headers = columns.map(normalizeText);
+
+  for (const field of importFields) {
+    const keywords = columnKeywords[field].map(normalizeText);
+    const index = headers.findIndex((header, index) =>
+      !Object.values(mapping).includes(index) &&
+      keywords.some(keyword => header === keyword || (keyword.length > 3 && header.includes(keyword)))
+    );
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Произвольная таблица: первая непустая строка — заголовки, остальные — записи.
+ * Строки без даты и без времени (итоги, пустые) пропускаются.
+ */
+function parseTable(sheetRows: Cell[][], mapping?: ColumnMapping): ParsedFile | string {
+  const headerIndex = sheetRows.findIndex(row => row.some(cell => cellText(cell)));
+  if (headerIndex === -1) {
+    return "The file is empty";
+  }
+
+  const columns = sheetRows[headerIndex].map(cell => cellText(cell));
+  const resolvedMapping = mapping ?? guessColumnMapping(columns);
+  if (resolvedMapping.date === undefined) {
+    return { columns, mapping: resolvedMapping, rows: [] };
+  }
+
+  const rows: ParsedRow[] = [];
+  for (let i = headerIndex + 1; i < sheetRows.length; i++) {
+    const row = sheetRows[i];
+    const cell = (field: ImportField) => {
+      const index = resolvedMapping[field];
+      return index === undefined ? null : row[index];
+    };
+
+    const date = parseDateCell(cell("date"));
+    const startTime = parseTimeCell(cell("startTime"));
+    const endTime = parseTimeCell(cell("endTime"));
+    const kindText = cellText(cell("kind"));
+    const notes = cellText(cell("notes"));
+    if (!date && !startTime && !endTime) continue;
+
+    // Без столбца типа отсутствие распознаётся по заметкам строки без времени
+    const withTimes = !!startTime && !!endTime && startTime !== endTime;
+    const notesKind = kindText || withTimes ? null : detectEntryKind(notes);
+    const kind = kindText ? detectEntryKind(kindText) : notesKind;
+    const parsed = buildRow({
+      rowNumber: i + 1,
+      date,
+      kind,
+      startTime,
+      endTime,
+      breakCell: cell("breakMinutes"),
+      breakUnit: "minutes",
+      rate: parseRate(cell("hourlyRate")),
+      notes: notesKind ? null : notes || null,
+    });
+    rows.push(kindText && !kind ? { ...parsed, error: "Unrecognized entry kind" } : parsed);
+  }
+
+  return { columns, mapping: resolvedMapping, rows };
+}
+
+function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+interface ComparableEntry {
+  date: Date;
+  kind: string;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Статусы строк: дубликаты существующих записей и строк выше в файле пропускаются,
+ * пересечения по времени, ошибки разбора и записи в закрытых месяцах блокируют импорт
+ */
+export async function classifyRows(userId: number, parsedRows: ParsedRow[]): Promise<ImportRow[]> {
+  const rows = parsedRows.map(row =>
+    row.date && !row.error && !isEntryDateInRange(new Date(row.date)) ? { ...row, error: ENTRY_DATE_RANGE_MESSAGE } : row
+  );
+
+  // Границы считаются циклом: разворот большого массива в Math.min переполняет стек
+  const times = rows.filter(row => row.date && !row.error).map(row => new Date(row.date!).getTime());
+  if (times.length === 0) {
+    return rows.map(({ error, ...row }) => ({ ...row, status: "invalid", message: error ?? "Unrecognized date" }));
+  }
+
+  const first = new Date(times.reduce((min, time) => Math.min(min, time)));
+  const last = new Date(times.reduce((max, time) => Math.max(max, time)));
+  // Соседние дни нужны для ночных смен
+  const [existing, lockedReports]: [ComparableEntry[], MonthlyReport[]] = await Promise.all([
+    storage.getTimeEntriesByUserAndRange(
+      userId,
+      new Date(first.getFullYear(), first.getMonth(), first.getDate() - 1),
+      new Date(last.getFullYear(), last.getMonth(), last.getDate() + 1)
+    ),
+    getLockedReports(userId),
+  ]);
+  const accepted: ComparableEntry[] = [];
+
+  return rows.map(({ error, ...row }): ImportRow => {
+    if (error || !row.date) {
+      return { ...row, status: "invalid", message: error ?? "Unrecognized date" };
+    }
+
+    const date = new Date(row.date);
+    const candidates = [...existing, ...accepted];
+    const isDuplicate = candidates.some(entry =>
+      toDayKey(entry.date) === toDayKey(date) &&
+      entry.kind === row.kind &&
+      entry.startTime === row.startTime &&
+      entry.endTime === row.endTime
+    );
+    if (isDuplicate) {
+      return { ...row, status: "duplicate", message: null };
+    }
+
+    const lockedReport = findLockedReport(lockedReports, date);
+    if (lockedReport) {
+      return { ...row, status: "invalid", message: formatLockedMessage(lockedReport) };
+    }
+
+    if (hasRecordedTimes(row)) {
+      const interval = getShiftInterval(date, row.startTime, row.endTime);
+      const overlapping = candidates.find(entry =>
+        hasRecordedTimes(entry) &&
+        intervalsOverlap(interval, getShiftInterval(entry.date, entry.startTime, entry.endTime, date))
+      );
+      if (overlapping) {
+        return { ...row, status: "overlap", message: formatOverlapMessage(overlapping) };
+      }
+    }
+
+    accepted.push({ date, kind: row.kind, startTime: row.startTime, endTime: row.endTime });
+    return { ...row, status: "new", message: null };
+  });
+}
+
+/**
+ * Разбор загруженного файла (base64) и предпросмотр строк со статусами.
+ * Возвращает сообщение об ошибке, если файл не удалось разобрать.
+ */
+export async function buildImportPreview(
+  userId: number,
+  file: string,
+  format: ImportFormat,
+  mapping?: ColumnMapping
+): Promise<ImportPreview | string> {
+  let sheetRows: Cell[][];
+  try {
+    sheetRows = readSheetRows(file);
+  } catch (error) {
+    console.error('Error reading import file:', error);
+    return "The file could not be read as a spreadsheet";
+  }
+
+  const parsed = format === "vykaz" ? parseVykaz(sheetRows) : parseTable(sheetRows, mapping);
+  if (typeof parsed === "string") {
+    return parsed;
+  }
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    return `The file has more than ${MAX_IMPORT_ROWS} rows; split it into several files`;
+  }
+
+  return {
+    format,
+    columns: parsed.columns,
+    mapping: parsed.mapping,
+    rows: await classifyRows(userId, parsed.rows),
+  };
+}
+
+/**
+ * Импорт строк из предпросмотра одной транзакцией. Строки проверяются заново:
+ * дубликаты пропускаются, а ошибка или пересечение в любой строке отменяет весь импорт.
+ */
+export async function importRows(user: User, rows: ImportRowData[]): Promise<ImportResult | string> {
+  const parsedRows: ParsedRow[] = rows.map(row => ({
+    ...row,
+    error: validateBreaks(row.startTime, row.endTime, row.breaks),
+  }));
+  const classified = await classifyRows(user.id, parsedRows);
+
+  const blocking = classified.find(row => row.status === "invalid" || row.status === "overlap");
+  if (blocking) {
+    return `Row ${blocking.rowNumber}: ${blocking.message}`;
+  }
+
+  const rates = await storage.getHourlyRatesByUser(user.id);
+  const entries: InsertTimeEntry[] = classified
+    .filter(row => row.status === "new")
+    .map(row => {
+      const withTimes = hasRecordedTimes(row);
+      return {
+        userId: user.id,
+        date: new Date(row.date!),
+        kind: row.kind,
+        startTime: row.startTime,
+        endTime: row.endTime,
+        breaks: withTimes ? row.breaks : [],
+        // Без ставки в файле берём ставку, действующую на дату записи; отсутствия без времени не оплачиваются
+        hourlyRate: withTimes ? row.hourlyRate ?? resolveHourlyRate(rates, row.date!) ?? 0 : 0,
+        notes: row.notes,
+        halfDay: row.halfDay && entryKindRules[row.kind].reducesTarget,
+      };
+    });
+
+  await storage.createTimeEntries(entries, user.id);
+
+  return {
+    imported: entries.length,
+    skipped: classified.length - entries.length,
+  };
+}
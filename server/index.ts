@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { formatRequestLogLine } from "./request-log";
+import { storage } from "./storage";
 
 const app = express();
 app.use(express.json({ limit: '10mb' }));
@@ -20,16 +22,7 @@ app.use((req, res, next) => {
   res.on("finish", () => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
-      let logLine = `${method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
-      }
-
-      log(logLine);
+      log(formatRequestLogLine(method, path, res.statusCode, duration, capturedJsonResponse));
     }
   });
 
@@ -37,6 +30,15 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Разовые переносы данных до того, как сервер начнёт отвечать на запросы
+  const migrated = await storage.migrateLegacyAbsenceEntries().catch((error) => {
+    console.error(error);
+    return 0;
+  });
+  if (migrated > 0) {
+    log(`migrated ${migrated} legacy absence entries`);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
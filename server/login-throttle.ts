@@ -0,0 +1,47 @@
+import {
+  getRetryAfterSeconds,
+  loginThrottlePolicies,
+  type LoginAttemptOutcome,
+  type LoginThrottleScope,
+} from "@shared/login-attempts";
+import { storage } from "./storage";
+
+// Имя пользователя без учёта регистра, чтобы подбор нельзя было растянуть вариантами написания
+function getThrottleKeys(ip: string, username: string): Record<LoginThrottleScope, string> {
+  return {
+    ip: `ip:${ip}`,
+    username: `username:${username.trim().toLowerCase()}`,
+  };
+}
+
+/**
+ * Сколько секунд ждать до следующей попытки входа с этого адреса под этим именем; 0 — можно входить
+ */
+export async function getLoginRetryAfter(ip: string, username: string, now = new Date()): Promise<number> {
+  const keys = getThrottleKeys(ip, username);
+  const throttles = await storage.getLoginThrottles(Object.values(keys));
+  return Math.max(0, ...throttles.map(throttle => getRetryAfterSeconds(throttle, now)));
+}
+
+/**
+ * Неверный пароль или имя: растит счётчики адреса и имени и назначает задержку или блокировку
+ */
+export async function recordLoginFailure(ip: string, username: string, now = new Date()): Promise<void> {
+  const keys = getThrottleKeys(ip, username);
+  for (const scope of Object.keys(keys) as LoginThrottleScope[]) {
+    await storage.addLoginThrottleFailure(keys[scope], loginThrottlePolicies[scope], now);
+  }
+}
+
+/**
+ * Успешный вход сбрасывает счётчик имени. Счётчик адреса убывает только со временем,
+ * иначе вход в свою учётную запись обнулял бы его между попытками подбора чужих
+ */
+export async function recordLoginSuccess(ip: string, username: string): Promise<void> {
+  await storage.deleteLoginThrottle(getThrottleKeys(ip, username).username);
+}
+
+export async function logLoginAttempt(ip: string, username: string, outcome: LoginAttemptOutcome): Promise<void> {
+  const user = await storage.getUserByUsername(username);
+  await storage.createLoginAttempt({ ip, username, userId: user?.id ?? null, outcome });
+}
@@ -0,0 +1,40 @@
+import { type User } from "@shared/schema";
+import { calculatePayBreakdown, mergePayRules, type PayBreakdown, type PayRuleSettings } from "@shared/pay";
+import { storage } from "./storage";
+
+/**
+ * Правила доплат пользователя с учётом значений по умолчанию
+ */
+export async function getUserPayRules(userId: number): Promise<PayRuleSettings[]> {
+  const rules = await storage.getPayRulesByUser(userId);
+  return mergePayRules(rules);
+}
+
+/**
+ * Расчёт оплаты за месяц (month: 1-12) с доплатами по правилам пользователя
+ */
+export async function getMonthPayBreakdown(user: User, year: number, month: number): Promise<PayBreakdown> {
+  // Ночная смена последнего дня предыдущего месяца частично оплачивается в текущем
+  const [entries, rules, rates] = await Promise.all([
+    storage.getTimeEntriesByUserAndRange(user.id, new Date(year, month - 1, 0), new Date(year, month, 0)),
+    getUserPayRules(user.id),
+    storage.getHourlyRatesByUser(user.id),
+  ]);
+
+  const breakdown = calculatePayBreakdown(entries, user, rules, rates, year, month);
+
+  // В списке по записям остаются только записи месяца
+  const monthEntryIds = new Set(
+    entries
+      .filter(entry => {
+        const date = new Date(entry.date);
+        return date.getFullYear() === year && date.getMonth() === month - 1;
+      })
+      .map(entry => entry.id)
+  );
+
+  return {
+    ...breakdown,
+    entries: breakdown.entries.filter(item => monthEntryIds.has(item.entryId)),
+  };
+}
@@ -0,0 +1,101 @@
+import { type TimeEntry, type User } from "@shared/schema";
+import { getEntryDurations } from "@shared/entry-kinds";
+import { resolveHourlyRate } from "@shared/rates";
+import { findLockedReport, getLockedReports } from "./time-entries";
+import { storage } from "./storage";
+
+export interface RepriceRange {
+  from: Date;
+  to: Date;
+  projectId?: number | null; // Только записи проекта; без значения — все записи
+}
+
+export interface RepriceChange {
+  entryId: number;
+  date: Date;
+  projectId: number | null;
+  minutes: number; // Оплачиваемые минуты записи
+  currentRate: number;
+  newRate: number;
+  currentPay: number;
+  newPay: number;
+}
+
+export interface RepricePreview {
+  changes: RepriceChange[];
+  currentPay: number;
+  newPay: number;
+  difference: number;
+}
+
+function calculatePay(minutes: number, rate: number): number {
+  return Math.round(minutes / 60 * rate);
+}
+
+/**
+ * Ставка для новой записи по истории ставок пользователя
+ */
+export async function resolveRateForEntry(
+  userId: number,
+  date: Date,
+  projectId?: number | null
+): Promise<number | undefined> {
+  const rates = await storage.getHourlyRatesByUser(userId);
+  return resolveHourlyRate(rates, date, projectId);
+}
+
+/**
+ * Записи диапазона, у которых ставка отличается от действующей по истории ставок,
+ * с оплатой до и после переоценки; записи отправленных и утверждённых месяцев не меняются
+ */
+export async function buildRepricePreview(user: User, range: RepriceRange): Promise<RepricePreview> {
+  const [entries, rates, lockedReports] = await Promise.all([
+    storage.getTimeEntriesByUserAndRange(user.id, range.from, range.to),
+    storage.getHourlyRatesByUser(user.id),
+    getLockedReports(user.id),
+  ]);
+
+  const changes: RepriceChange[] = [];
+  for (const entry of entries) {
+    if (range.projectId !== undefined && entry.projectId !== range.projectId) continue;
+    if (findLockedReport(lockedReports, entry.date)) continue;
+
+    const minutes = getEntryDurations(entry, user).netMinutes;
+    // Отсутствия не оплачиваются, их ставка не меняется
+    if (minutes === 0) continue;
+
+    const newRate = resolveHourlyRate(rates, entry.date, entry.projectId);
+    if (newRate === undefined || newRate === entry.hourlyRate) continue;
+
+    changes.push(toChange(entry, minutes, newRate));
+  }
+
+  const currentPay = changes.reduce((total, change) => total + change.currentPay, 0);
+  const newPay = changes.reduce((total, change) => total + change.newPay, 0);
+  return { changes, currentPay, newPay, difference: newPay - currentPay };
+}
+
+function toChange(entry: TimeEntry, minutes: number, newRate: number): RepriceChange {
+  return {
+    entryId: entry.id,
+    date: entry.date,
+    projectId: entry.projectId,
+    minutes,
+    currentRate: entry.hourlyRate,
+    newRate,
+    currentPay: calculatePay(minutes, entry.hourlyRate),
+    newPay: calculatePay(minutes, newRate),
+  };
+}
+
+/**
+ * Применяет переоценку: записи диапазона получают ставку, действующую на их дату
+ */
+export async function applyReprice(user: User, range: RepriceRange): Promise<RepricePreview> {
+  const preview = await buildRepricePreview(user, range);
+  await storage.updateTimeEntryRates(
+    preview.changes.map(change => ({ id: change.entryId, hourlyRate: change.newRate })),
+    user.id,
+  );
+  return preview;
+}
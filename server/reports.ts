@@ -0,0 +1,392 @@
+import { type MonthlyReport, type MonthlyReportApproval, type TimeEntry, type User } from "@shared/schema";
+import { countWorkingDays, isWorkingDay, parseWorkDays } from "@shared/calendar";
+import { calculateShiftDurations, getShiftMinutesInMonth } from "@shared/time";
+import { getAbsenceDayFraction, getEntryKindRule, hasRecordedTimes } from "@shared/entry-kinds";
+import { getNextReportStatus, isReportLocked, type ReportAction } from "@shared/report-status";
+import { storage } from "./storage";
+
+function isInMonth(date: Date, year: number, month: number): boolean {
+  return date.getFullYear() === year && date.getMonth() === month - 1;
+}
+
+function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+// Рассчитывает отработанные минуты месяца (нетто и брутто); ночные смены делятся по полуночи,
+// поэтому смена с последнего дня предыдущего месяца частично попадает в текущий.
+// Перерыв распределяется между днями пропорционально их доле в смене.
+function calculateWorkedMinutes(entries: TimeEntry[], user: User, year: number, month: number) {
+  const dayMinutes = user.workHoursPerDay * 60;
+  let netMinutes = 0;
+  let grossMinutes = 0;
+
+  for (const entry of entries) {
+    const rule = getEntryKindRule(entry.kind);
+    if (!rule.countsAsWorked) continue;
+
+    if (!hasRecordedTimes(entry)) {
+      // Например, командировка без указанного времени засчитывается полным днём
+      if (rule.fullDayIfNoTimes && isInMonth(new Date(entry.date), year, month)) {
+        netMinutes += dayMinutes;
+        grossMinutes += dayMinutes;
+      }
+      continue;
+    }
+
+    const durations = calculateShiftDurations(entry.startTime, entry.endTime, entry.breaks, user);
+    const grossInMonth = getShiftMinutesInMonth(entry.date, entry.startTime, entry.endTime, year, month);
+    if (grossInMonth === 0 || durations.grossMinutes === 0) continue;
+
+    const breakInMonth = Math.round(durations.breakMinutes * grossInMonth / durations.grossMinutes);
+    grossMinutes += grossInMonth;
+    netMinutes += grossInMonth - breakInMonth;
+  }
+
+  return { netMinutes, grossMinutes };
+}
+
+// Рабочие дни месяца, покрытые отсутствиями; половинный день считается как 0,5,
+// а несколько отсутствий одного дня — не больше одного дня
+function collectAbsenceDays(entries: TimeEntry[], year: number, month: number, workDays: number[]) {
+  const creditedDays = new Map<string, number>();
+  const vacationDays = new Map<string, number>();
+  const sickDays = new Map<string, number>();
+  const timeOffDays = new Map<string, number>();
+
+  const addDay = (days: Map<string, number>, key: string, fraction: number) => {
+    days.set(key, Math.min(1, (days.get(key) ?? 0) + fraction));
+  };
+  const sumDays = (days: Map<string, number>) =>
+    Array.from(days.values()).reduce((total, fraction) => total + fraction, 0);
+
+  for (const entry of entries) {
+    const rule = getEntryKindRule(entry.kind);
+    const date = new Date(entry.date);
+    if (!isInMonth(date, year, month) || !isWorkingDay(date, workDays)) continue;
+
+    const fraction = getAbsenceDayFraction(entry);
+    if (rule.reducesTarget) addDay(creditedDays, toDayKey(date), fraction);
+    if (rule.countsAsVacation) addDay(vacationDays, toDayKey(date), fraction);
+    if (rule.countsAsSickDay) addDay(sickDays, toDayKey(date), fraction);
+    if (rule.drawsOvertime) addDay(timeOffDays, toDayKey(date), fraction);
+  }
+
+  return {
+    creditedDays: sumDays(creditedDays),
+    vacationDays: sumDays(vacationDays),
+    sickDays: sumDays(sickDays),
+    timeOffDays: sumDays(timeOffDays),
+  };
+}
+
+type MonthSummary = Pick<
+  MonthlyReport,
+  "workDays" | "workedMinutes" | "grossMinutes" | "targetMinutes" | "overtimeMinutes" | "vacationDays" | "sickDays" | "timeOffMinutes"
+>;
+
+// Итоги месяца по производственному календарю; entries — записи с последнего дня предыдущего месяца.
+// Норма, заданная вручную, заменяет расчётную
+function summarizeMonth(entries: TimeEntry[], user: User, year: number, month: number, targetOverride: number | null): MonthSummary {
+  const userWorkDays = parseWorkDays(user.workDays);
+  const dayMinutes = user.workHoursPerDay * 60;
+
+  const { netMinutes: workedMinutes, grossMinutes } = calculateWorkedMinutes(entries, user, year, month);
+  const workDays = countWorkingDays(year, month, userWorkDays);
+  const { creditedDays, vacationDays, sickDays, timeOffDays } = collectAbsenceDays(entries, year, month, userWorkDays);
+  const targetMinutes = targetOverride ?? Math.round(Math.max(workDays - creditedDays, 0) * dayMinutes);
+
+  return {
+    workDays,
+    workedMinutes,
+    grossMinutes,
+    targetMinutes,
+    overtimeMinutes: workedMinutes - targetMinutes,
+    vacationDays,
+    sickDays,
+    timeOffMinutes: Math.round(timeOffDays * dayMinutes),
+  };
+}
+
+// Переработка, накопленная в одном месяце; monthIndex = год * 12 + номер месяца
+interface OvertimeLot {
+  monthIndex: number;
+  minutes: number;
+}
+
+// Остаток переработки: положительные партии по месяцам либо долг (недоработка)
+interface OvertimeBalance {
+  lots: OvertimeLot[];
+  deficit: number;
+}
+
+function getBalanceMinutes(balance: OvertimeBalance): number {
+  return balance.lots.reduce((total, lot) => total + lot.minutes, 0) - balance.deficit;
+}
+
+/**
+ * Переносит остаток переработки через месяц: сначала гасится долг, отгулы и недоработка
+ * списываются с самых старых партий, затем сгорают просроченные партии и всё сверх лимита.
+ * Возвращает минуты, сгоревшие в этом месяце.
+ */
+function carryOvertime(balance: OvertimeBalance, summary: MonthSummary, monthIndex: number, user: User): number {
+  let change = summary.overtimeMinutes - summary.timeOffMinutes;
+
+  if (change > 0) {
+    const repaid = Math.min(balance.deficit, change);
+    balance.deficit -= repaid;
+    change -= repaid;
+    if (change > 0) balance.lots.push({ monthIndex, minutes: change });
+  } else {
+    let remaining = -change;
+    while (remaining > 0 && balance.lots.length > 0) {
+      const used = Math.min(balance.lots[0].minutes, remaining);
+      balance.lots[0].minutes -= used;
+      remaining -= used;
+      if (balance.lots[0].minutes === 0) balance.lots.shift();
+    }
+    balance.deficit += remaining;
+  }
+
+  let expiredMinutes = 0;
+
+  // Партия месяца M доступна в следующие overtimeExpiryMonths месяцев и сгорает в конце последнего из них
+  if (user.overtimeExpiryMonths != null) {
+    const expiryMonths = user.overtimeExpiryMonths;
+    const expired = balance.lots.filter(lot => monthIndex - lot.monthIndex >= expiryMonths);
+    expiredMinutes += expired.reduce((total, lot) => total + lot.minutes, 0);
+    balance.lots = balance.lots.filter(lot => monthIndex - lot.monthIndex < expiryMonths);
+  }
+
+  // Сверх лимита сгорают самые новые партии
+  if (user.overtimeCapHours != null) {
+    let excess = getBalanceMinutes(balance) - user.overtimeCapHours * 60;
+    while (excess > 0 && balance.lots.length > 0) {
+      const lot = balance.lots[balance.lots.length - 1];
+      const trimmed = Math.min(lot.minutes, excess);
+      lot.minutes -= trimmed;
+      excess -= trimmed;
+      expiredMinutes += trimmed;
+      if (lot.minutes === 0) balance.lots.pop();
+    }
+  }
+
+  return expiredMinutes;
+}
+
+// Остаток после закрытого месяца берётся из его отчёта: партии до него считаются одной партией этого месяца
+function restoreBalance(balance: OvertimeBalance, minutes: number, monthIndex: number) {
+  balance.lots = minutes > 0 ? [{ monthIndex, minutes }] : [];
+  balance.deficit = minutes < 0 ? -minutes : 0;
+}
+
+function toMonthIndex(year: number, month: number): number {
+  return year * 12 + (month - 1);
+}
+
+type MonthlyReportValues = MonthSummary & Pick<MonthlyReport, "carriedFromMinutes" | "carriedToMinutes" | "expiredMinutes">;
+
+// Месяц цепочки: сохранённый отчёт, если он есть, и итоги из записей; values null — закрытый табель не пересчитывается
+interface ComputedMonth {
+  year: number;
+  month: number;
+  report: MonthlyReport | undefined;
+  values: MonthlyReportValues | null;
+}
+
+/**
+ * Итоги месяцев пользователя по цепочке без сохранения: carriedFromMinutes каждого месяца
+ * равен carriedToMinutes предыдущего. Остаток копится с месяца первой записи, поэтому
+ * изменение записи в прошлом меняет остатки всех последующих месяцев. Возвращаются месяцы
+ * с сохранёнными отчётами и переданный месяц, от старых к новым.
+ */
+async function computeMonthlyReports(
+  user: User,
+  ensureMonth?: { year: number; month: number }
+): Promise<ComputedMonth[]> {
+  const [entries, storedReports] = await Promise.all([
+    storage.getTimeEntriesByUser(user.id),
+    storage.getMonthlyReportsByUser(user.id),
+  ]);
+
+  const entryMonths = entries.map(entry => {
+    const date = new Date(entry.date);
+    return toMonthIndex(date.getFullYear(), date.getMonth() + 1);
+  });
+  const reportMonths = storedReports.map(report => toMonthIndex(report.year, report.month));
+  if (ensureMonth) {
+    reportMonths.push(toMonthIndex(ensureMonth.year, ensureMonth.month));
+  }
+  if (reportMonths.length === 0) return [];
+
+  // До первой записи пользователь приложением не пользовался — остаток там не копится
+  const balanceStart = entryMonths.length > 0 ? Math.min(...entryMonths) : Infinity;
+  const firstMonth = Math.min(balanceStart, ...reportMonths);
+  // Месяцы после последнего отчёта никто не запрашивал — их не считаем
+  const lastMonth = Math.max(...reportMonths);
+
+  const balance: OvertimeBalance = { lots: [], deficit: 0 };
+  const months: ComputedMonth[] = [];
+
+  for (let monthIndex = firstMonth; monthIndex <= lastMonth; monthIndex++) {
+    const year = Math.floor(monthIndex / 12);
+    const month = monthIndex % 12 + 1;
+    const from = new Date(year, month - 1, 0);
+    const to = new Date(year, month, 0, 23, 59, 59, 999);
+    const monthEntries = entries.filter(entry => {
+      const date = new Date(entry.date);
+      return date >= from && date <= to;
+    });
+
+    const report = storedReports.find(item => item.year === year && item.month === month);
+    const isEnsured = ensureMonth?.year === year && ensureMonth.month === month;
+
+    // Отправленный и утверждённый табель не пересчитывается: его итоги уже согласованы,
+    // а следующий месяц продолжает остаток с сохранённого значения
+    if (report && isReportLocked(report.status)) {
+      restoreBalance(balance, report.carriedToMinutes, monthIndex);
+      months.push({ year, month, report, values: null });
+      continue;
+    }
+
+    const summary = summarizeMonth(monthEntries, user, year, month, report?.targetMinutesOverride ?? null);
+    const carriedFromMinutes = getBalanceMinutes(balance);
+    const expiredMinutes = monthIndex >= balanceStart ? carryOvertime(balance, summary, monthIndex, user) : 0;
+
+    if (report || isEnsured) {
+      months.push({
+        year,
+        month,
+        report,
+        values: { ...summary, carriedFromMinutes, carriedToMinutes: getBalanceMinutes(balance), expiredMinutes },
+      });
+    }
+  }
+
+  return months;
+}
+
+/**
+ * Пересчитывает все сохранённые месячные отчёты пользователя и сохраняет изменившиеся.
+ * Если передан месяц, отчёт за него создаётся.
+ */
+export async function syncMonthlyReports(
+  user: User,
+  ensureMonth?: { year: number; month: number }
+): Promise<MonthlyReport[]> {
+  const months = await computeMonthlyReports(user, ensureMonth);
+  const reports: MonthlyReport[] = [];
+
+  for (const { year, month, report, values } of months) {
+    if (!values) {
+      reports.push(report!);
+      continue;
+    }
+
+    if (!report) {
+      // Пересчёт — следствие других изменений, в журнале он записывается как действие системы
+      reports.push(await storage.createMonthlyReport({ userId: user.id, year, month, ...values }, null));
+      continue;
+    }
+
+    const unchanged = (Object.keys(values) as (keyof typeof values)[])
+      .every(key => report[key] === values[key]);
+    if (unchanged) {
+      reports.push(report);
+      continue;
+    }
+
+    const updatedReport = await storage.updateMonthlyReport(report.id, values, null);
+    reports.push(updatedReport ?? report);
+  }
+
+  // Как и getMonthlyReportsByUser — от новых к старым
+  return reports.reverse();
+}
+
+/**
+ * Пересчитывает месячный отчёт пользователя по производственному календарю
+ * и фактическим записям, создавая отчёт при его отсутствии
+ */
+export async function syncMonthlyReport(user: User, year: number, month: number): Promise<MonthlyReport> {
+  const reports = await syncMonthlyReports(user, { year, month });
+  return reports.find(report => report.year === year && report.month === month)!;
+}
+
+// Отчёт для просмотра: id null — отчёт за месяц ещё не создан
+export type MonthlyReportPreview = Omit<MonthlyReport, "id"> & { id: number | null };
+
+/**
+ * Отчёты пользователя с актуальными итогами, но без сохранения: чтение чужого табеля
+ * руководителем не создаёт отчётов и строк журнала. Порядок — от новых к старым
+ */
+export async function previewMonthlyReports(
+  user: User,
+  ensureMonth?: { year: number; month: number }
+): Promise<MonthlyReportPreview[]> {
+  const months = await computeMonthlyReports(user, ensureMonth);
+  return months.map(({ year, month, report, values }): MonthlyReportPreview => {
+    if (report) return values ? { ...report, ...values } : report;
+    return {
+      id: null,
+      userId: user.id,
+      year,
+      month,
+      ...values!,
+      targetMinutesOverride: null,
+      status: "draft",
+      submittedAt: null,
+      submittedBy: null,
+      reviewedAt: null,
+      reviewedBy: null,
+    };
+  }).reverse();
+}
+
+export async function previewMonthlyReport(user: User, year: number, month: number): Promise<MonthlyReportPreview> {
+  const reports = await previewMonthlyReports(user, { year, month });
+  return reports.find(report => report.year === year && report.month === month)!;
+}
+
+// Поля согласования после действия: отправка начинает новый цикл, возврат в черновик очищает всё
+function buildApproval(report: MonthlyReport, action: ReportAction, actorId: number, now: Date): MonthlyReportApproval {
+  const status = getNextReportStatus(report.status, action)!;
+  switch (action) {
+    case "submit":
+      return { status, submittedAt: now, submittedBy: actorId, reviewedAt: null, reviewedBy: null };
+    case "approve":
+    case "reject":
+      return { status, submittedAt: report.submittedAt, submittedBy: report.submittedBy, reviewedAt: now, reviewedBy: actorId };
+    case "reopen":
+      return { status, submittedAt: null, submittedBy: null, reviewedAt: null, reviewedBy: null };
+  }
+}
+
+/**
+ * Действие согласования месячного табеля: статус меняется и записывается в журнал.
+ * Перед отправкой отчёт пересчитывается, чтобы закрыть месяц с актуальными итогами.
+ * Возвращает сообщение об ошибке, если действие недоступно.
+ */
+export async function changeReportStatus(
+  owner: User,
+  actor: User,
+  year: number,
+  month: number,
+  action: ReportAction,
+  comment?: string
+): Promise<MonthlyReport | string> {
+  const report = await syncMonthlyReport(owner, year, month);
+  if (!getNextReportStatus(report.status, action)) {
+    return `Cannot ${action} a timesheet that is ${report.status}`;
+  }
+
+  const approval = buildApproval(report, action, actor.id, new Date());
+  const updated = await storage.changeMonthlyReportStatus(report.id, approval, {
+    action,
+    fromStatus: report.status,
+    toStatus: approval.status,
+    changedBy: actor.id,
+    comment: comment || null,
+  });
+  return updated ?? "Timesheet status was changed by someone else; reload and try again";
+}
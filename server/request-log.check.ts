@@ -0,0 +1,33 @@
+import { formatRequestLogLine } from "./request-log";
+
+// Проверка, что строка журнала запросов не содержит секретов второго фактора и токенов доступа: npm test
+
+const secret = "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP";
+const recoveryCodes = ["a1b2c-3d4e5", "f6a7b-8c9d0"];
+const token = "tt_Q2hhbmdlTWVQbGVhc2VUaGlzSXNOb3RBUmVhbFRva2Vu";
+
+// Ответы конечных точек, отдающих секреты; строка обрезается, поэтому ищется и начало каждого секрета
+const cases: [string, string, unknown][] = [
+  ["POST", "/api/user/2fa/setup", { secret, otpauthUri: `otpauth://totp/Timesheet:user?secret=${secret}`, qrCode: `data:image/png;base64,${secret}` }],
+  ["POST", "/api/user/2fa/enable", { enabled: true, recoveryCodes }],
+  ["POST", "/api/user/2fa/recovery-codes", { recoveryCodes }],
+  ["POST", "/api/user/tokens", { token, apiToken: { id: 1, name: "ci", tokenPrefix: "tt_Q2hh" } }],
+];
+// Первые символы токена хранятся открыто и показываются в списке, поэтому ищется продолжение после них
+const secrets = [secret, ...recoveryCodes, token.slice(7)];
+
+let failures = 0;
+for (const [method, path, body] of cases) {
+  const line = formatRequestLogLine(method, path, 200, 1, body);
+  const leaked = secrets.filter((value) => line.includes(value) || line.includes(value.slice(0, 8)));
+  if (leaked.length > 0) {
+    failures++;
+    console.error(`FAIL ${method} ${path}: ${line}`);
+  }
+}
+
+if (failures > 0) {
+  console.error(`${failures} of ${cases.length} request log lines leaked secrets`);
+  process.exit(1);
+}
+console.log(`All ${cases.length} request log lines are free of secrets`);
@@ -0,0 +1,35 @@
+// Строка журнала запросов к API. Ответ пишется в журнал, но значения секретов заменяются:
+// журнал читают те, кому второй фактор и токены доступа пользователей видеть не положено
+const REDACTED_VALUE = "***";
+
+// Секрет TOTP, ссылка и QR-код с ним, коды восстановления и только что выпущенный токен доступа
+const redactedResponseFields = new Set(["secret", "otpauthUri", "qrCode", "recoveryCodes", "token"]);
+
+const LOG_LINE_LIMIT = 80;
+
+function redactResponse(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactResponse);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, redactedResponseFields.has(key) ? REDACTED_VALUE : redactResponse(item)]
+    ));
+  }
+  return value;
+}
+
+/**
+ * Строка журнала: метод, путь, статус, время и начало JSON-ответа без секретов
+ */
+export function formatRequestLogLine(method: string, path: string, statusCode: number, duration: number, body?: unknown): string {
+  let logLine = `${method} ${path} ${statusCode} in ${duration}ms`;
+  if (body) {
+    logLine += ` :: ${JSON.stringify(redactResponse(body))}`;
+  }
+
+  if (logLine.length > LOG_LINE_LIMIT) {
+    logLine = logLine.slice(0, LOG_LINE_LIMIT - 1) + "…";
+  }
+  return logLine;
+}
@@ -1,20 +1,216 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { storage } from "./storage";
-import { insertTimeEntrySchema, insertMonthlyReportSchema } from "@shared/schema";
+import { insertTimeEntrySchema, monthlyReportAdjustmentSchema, userUpdateSchema, insertClientSchema, insertProjectSchema, insertHourlyRateSchema, insertPayRuleSchema } from "@shared/schema";
+import { payRuleKinds } from "@shared/pay";
+import { isReportLocked, reportActions, reportTransitions, type ReportHistoryItem } from "@shared/report-status";
 import { z } from "zod";
 import { setupAuth } from "./auth";
 import { hashPassword, comparePasswords } from "./auth";
+import { changeReportStatus, previewMonthlyReport, previewMonthlyReports, syncMonthlyReport, syncMonthlyReports } from "./reports";
+import { findLockedMonth, findOverlappingEntry, formatLockedMessage, formatOverlapMessage, validateBreaks, validateEntryKind } from "./time-entries";
+import { applyReprice, buildRepricePreview, resolveRateForEntry } from "./rates";
+import { getMonthPayBreakdown, getUserPayRules } from "./pay";
+import { getVacationBalance } from "./vacation";
+import { buildTimerShift, isTimerPaused } from "@shared/timer";
+import { importFields, importFormats, importRowSchema, MAX_IMPORT_ROWS } from "@shared/import";
+import { buildImportPreview, importRows } from "./import";
+import {
+  exportContentTypes,
+  exportFormats,
+  generateExport,
+  generateReportExport,
+  getDefaultExportFilename,
+  type ExportDocument,
+  type ExportReport,
+} from "@shared/export";
+import { buildMonthExport, buildMultiMonthExport, buildRangeExport } from "./exports";
+import { getTranslator, supportedLanguages } from "./i18n";
+import { getPdfFonts } from "./fonts";
+import { buildCalendarDrafts, buildCalendarFeed } from "./ical";
+import { buildTeamOverview, findReportReviewee, findTeamMember, getTeamsWithMembers } from "./teams";
+import { canViewTeams } from "@shared/teams";
+import {
+  adminTeamSchema,
+  adminTeamUpdateSchema,
+  adminUserCreateSchema,
+  adminUserUpdateSchema,
+  appSettingsUpdateSchema,
+  canManageUsers,
+  toAdminUser,
+} from "@shared/admin";
+import { createManagedTeam, createManagedUser, resetUserPassword, setUserActive, updateManagedTeam, updateManagedUser } from "./admin";
+import { toPublicUser, twoFactorCodeSchema } from "@shared/two-factor";
+import { createTwoFactorSetup, disableTwoFactor, enableTwoFactor, getTwoFactorStatus, regenerateRecoveryCodes } from "./two-factor";
+import { apiTokenCreateSchema, toPublicApiToken } from "@shared/api-tokens";
+import { createApiToken } from "./api-tokens";
+import { auditEntityTypes, type AuditLogItem } from "@shared/audit";
 
 const monthParamsSchema = z.object({
   year: z.coerce.number().int().min(2000).max(2100),
   month: z.coerce.number().int().min(1).max(12),
 });
 
+const yearParamsSchema = monthParamsSchema.pick({ year: true });
+
+// Сотрудник команды в пути запроса руководителя
+const memberParamsSchema = z.object({
+  userId: z.coerce.number().int().positive(),
+});
+
+const memberMonthParamsSchema = monthParamsSchema.merge(memberParamsSchema);
+
 const idParamSchema = z.object({
   id: z.coerce.number().int().positive(),
 });
 
+const repriceSchema = z.object({
+  from: z.string().transform((val) => new Date(val)),
+  to: z.string().transform((val) => new Date(val)),
+  projectId: z.number().int().positive().nullable().optional(),
+}).refine((range) => range.from.getTime() <= range.to.getTime(), {
+  message: "Start date must not be after end date",
+});
+
+const clockInSchema = z.object({
+  projectId: z.number().int().positive().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  timezoneOffset: z.number().int().min(-14 * 60).max(14 * 60).optional(),
+});
+
+const payRuleParamsSchema = z.object({
+  kind: z.enum(payRuleKinds),
+});
+
+// Отклонение и возврат в черновик требуют причины — она остаётся в журнале согласования
+const reportStatusSchema = z.object({
+  action: z.enum(reportActions),
+  comment: z.string().trim().max(1000).optional(),
+}).refine((data) => !reportTransitions[data.action].requiresComment || !!data.comment, {
+  message: "A reason is required for this action",
+  path: ["comment"],
+});
+
+const calendarImportSchema = z.object({
+  file: z.string().min(1, "File is required"), // Содержимое .ics в base64
+  timeZone: z.string().min(1).max(100), // Пояс браузера, например Europe/Prague
+});
+
+// Календарные приложения не передают сессию: доступ по секретному токену в ссылке
+const calendarFeedQuerySchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  lang: z.string().optional(),
+});
+
+const importPreviewSchema = z.object({
+  file: z.string().min(1, "File is required"), // Содержимое файла в base64
+  format: z.enum(importFormats),
+  mapping: z.record(z.enum(importFields), z.number().int().min(0)).optional(),
+});
+
+const importCommitSchema = z.object({
+  rows: z.array(importRowSchema)
+    .min(1, "Nothing to import")
+    .max(MAX_IMPORT_ROWS, `At most ${MAX_IMPORT_ROWS} rows can be imported at once`),
+});
+
+// Флаг в строке запроса: "true" или "false", без значения — значение по умолчанию
+const queryFlag = (defaultValue: boolean) =>
+  z.enum(["true", "false"]).optional().transform((val) => val === undefined ? defaultValue : val === "true");
+
+const exportQuerySchema = z.object({
+  format: z.enum(exportFormats).default("pdf"),
+  lang: z.string().optional(),
+  filename: z.string().trim().min(1).max(200).optional(),
+  includeProfile: queryFlag(true),
+  includeNotes: queryFlag(true),
+  includeSalary: queryFlag(true),
+  includeProjects: queryFlag(false),
+  includeActions: queryFlag(false),
+});
+
+// Дата "YYYY-MM-DD" как локальная полночь, как и границы интервалов в хранилище
+const isoDaySchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .transform((val) => {
+    const [year, month, day] = val.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  });
+
+// Не больше трёх лет в одном файле
+const MAX_EXPORT_MONTHS = 36;
+
+// Интервал дат задевает не больше MAX_EXPORT_MONTHS календарных месяцев
+const exportRangeSchema = z.object({
+  from: isoDaySchema,
+  to: isoDaySchema,
+}).refine((range) => range.from.getTime() <= range.to.getTime(), {
+  message: "Start date must not be after end date",
+}).refine((range) =>
+  (range.to.getFullYear() * 12 + range.to.getMonth()) - (range.from.getFullYear() * 12 + range.from.getMonth()) < MAX_EXPORT_MONTHS, {
+  message: `Export may cover at most ${MAX_EXPORT_MONTHS} months`,
+});
+
+// Месяц "YYYY-MM"
+const isoMonthSchema = z.string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format")
+  .transform((val) => {
+    const [year, month] = val.split('-').map(Number);
+    return { year, month };
+  });
+
+const exportMonthsSchema = z.object({
+  from: isoMonthSchema,
+  to: isoMonthSchema,
+}).refine((range) => range.from.year * 12 + range.from.month <= range.to.year * 12 + range.to.month, {
+  message: "Start month must not be after end month",
+}).refine((range) => (range.to.year * 12 + range.to.month) - (range.from.year * 12 + range.from.month) < MAX_EXPORT_MONTHS, {
+  message: `Export may cover at most ${MAX_EXPORT_MONTHS} months`,
+});
+
+// Журнал изменений: по умолчанию последние 100 строк
+const auditQuerySchema = z.object({
+  from: isoDaySchema.optional(),
+  to: isoDaySchema.optional(),
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Сколько последних попыток входа показывать пользователю и администратору
+const USER_LOGIN_ATTEMPTS_LIMIT = 20;
+const ADMIN_LOGIN_ATTEMPTS_LIMIT = 100;
+
+/**
+ * Отправляет табель файлом; язык берётся из параметра lang или заголовка Accept-Language
+ */
+function sendExport(req: Request, res: Response, doc: ExportDocument | ExportReport, query: z.infer<typeof exportQuerySchema>) {
+  const { format, lang, filename, ...options } = query;
+  const t = getTranslator(lang ?? (req.acceptsLanguages(...supportedLanguages) || undefined));
+  const content = 'months' in doc
+    ? generateReportExport(format, doc, options, t, getPdfFonts())
+    : generateExport(format, doc, options, t, getPdfFonts());
+
+  const name = `${filename ?? getDefaultExportFilename(doc.period)}.${format}`;
+  // ASCII-имя для старых клиентов и полное имя в UTF-8 по RFC 5987
+  const asciiName = name.normalize("NFD").replace(/[^\x20-\x7e]/g, "").replace(/"/g, "");
+  res.setHeader("Content-Type", exportContentTypes[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(name)}`);
+  return res.send(typeof content === "string" ? content : Buffer.from(content));
+}
+
+async function isOwnProject(userId: number, projectId: number): Promise<boolean> {
+  const project = await storage.getProject(projectId);
+  return !!project && project.userId === userId;
+}
+
+async function isOwnClient(userId: number, clientId: number): Promise<boolean> {
+  const client = await storage.getClient(clientId);
+  return !!client && client.userId === userId;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
   setupAuth(app);
@@ -23,21 +219,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // app.get("/api/user") 
 
   app.patch("/api/user", async (req: Request, res: Response) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-    
-    const userId = req.user!.id;
-    const updatedUser = await storage.updateUser(userId, req.body);
-    if (!updatedUser) {
-      return res.status(404).json({ message: "Failed to update user" });
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      // Неизвестные поля отклоняются: пароль, имя входа, роль, команду и доступ так не изменить
+      const profile = userUpdateSchema.parse(req.body);
+      const updatedUser = await storage.updateUser(req.user!.id, profile, req.user!.id);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "Failed to update user" });
+      }
+      
+      // Норма, лимит и срок переноса переработки влияют на все отчёты
+      await syncMonthlyReports(updatedUser);
+      
+      // Обновляем пользователя в сессии
+      req.login(updatedUser, (err) => {
+        if (err) return res.status(500).json({ message: "Failed to update session" });
+        return res.json(toPublicUser(updatedUser));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
     }
-    
-    // Обновляем пользователя в сессии
-    req.login(updatedUser, (err) => {
-      if (err) return res.status(500).json({ message: "Failed to update session" });
-      return res.json(updatedUser);
-    });
   });
   
   // Change password route
@@ -70,10 +277,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Hash new password
       const hashedPassword = await hashPassword(newPassword);
       
-      // Update user with new password
+      // Update user with new password; временный пароль администратора больше не действует
       const updatedUser = await storage.updateUser(req.user!.id, {
-        password: hashedPassword
-      });
+        password: hashedPassword,
+        mustChangePassword: false,
+      }, req.user!.id);
       
       if (!updatedUser) {
         return res.status(500).json({ message: "Failed to update password" });
@@ -86,35 +294,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Time entries routes
-  app.get("/api/time-entries", async (req: Request, res: Response) => {
+  // Последние попытки входа в свою учётную запись, в том числе неудачные
+  app.get("/api/user/login-attempts", async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     
-    const entries = await storage.getTimeEntriesByUser(req.user!.id);
-    return res.json(entries);
+    const attempts = await storage.getLoginAttempts(USER_LOGIN_ATTEMPTS_LIMIT, req.user!.id);
+    return res.json(attempts);
   });
-  
-  app.get("/api/time-entries/:id", async (req: Request, res: Response) => {
+
+  // Двухфакторная аутентификация: состояние, подключение приложения, коды восстановления
+  app.get("/api/user/2fa", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const status = await getTwoFactorStatus(req.user!);
+    return res.json(status);
+  });
+
+  // Новый секрет хранится в сессии, пока пользователь не подтвердит его кодом из приложения
+  app.post("/api/user/2fa/setup", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Unauthorized" });
       }
       
-      const { id } = idParamSchema.parse(req.params);
+      if (req.user!.totpSecret) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
       
-      const entry = await storage.getTimeEntry(id);
-      if (!entry) {
-        return res.status(404).json({ message: "Time entry not found" });
+      const setup = await createTwoFactorSetup(req.user!);
+      req.session.twoFactorSetupSecret = setup.secret;
+      return res.json(setup);
+    } catch (error) {
+      console.error('Error starting two-factor setup:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/user/2fa/enable", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
       }
       
-      // Проверка принадлежности записи текущему пользователю
-      if (entry.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Forbidden" });
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const secret = req.session.twoFactorSetupSecret;
+      if (!secret) {
+        return res.status(409).json({ message: "Start two-factor setup first" });
       }
       
-      return res.json(entry);
+      const result = await enableTwoFactor(req.user!, secret, code);
+      if (typeof result === "string") {
+        return res.status(400).json({ message: result });
+      }
+      
+      delete req.session.twoFactorSetupSecret;
+      // Коды восстановления показываются один раз
+      return res.json({ recoveryCodes: result });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.message });
@@ -123,15 +362,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/time-entries/:year/:month", async (req: Request, res: Response) => {
+  app.post("/api/user/2fa/disable", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Unauthorized" });
       }
       
-      const { year, month } = monthParamsSchema.parse(req.params);
-      const entries = await storage.getTimeEntriesByUserAndMonth(req.user!.id, year, month);
-      return res.json(entries);
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const reason = await disableTwoFactor(req.user!, code);
+      if (reason) {
+        return res.status(400).json({ message: reason });
+      }
+      
+      return res.status(204).send();
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.message });
@@ -140,27 +383,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/time-entries", async (req: Request, res: Response) => {
+  app.post("/api/user/2fa/recovery-codes", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Unauthorized" });
       }
       
-      console.log('Received time entry data:', req.body);
-      
-      // Валидируем и преобразуем данные с помощью Zod
-      const entryData = insertTimeEntrySchema.parse({
-        ...req.body,
-        userId: req.user!.id // Устанавливаем userId текущего пользователя
-      });
-      console.log('Processed time entry data after validation:', entryData);
-      
-      const entry = await storage.createTimeEntry(entryData);
-      console.log('Created entry:', entry);
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const result = await regenerateRecoveryCodes(req.user!, code);
+      if (typeof result === "string") {
+        return res.status(400).json({ message: result });
+      }
       
-      return res.status(201).json(entry);
+      return res.json({ recoveryCodes: result });
     } catch (error) {
-      console.error('Error processing time entry:', error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.message });
       }
@@ -168,47 +404,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/time-entries/:id", async (req: Request, res: Response) => {
+  // Личные токены доступа к API; по самому токену эти маршруты недоступны
+  app.get("/api/user/tokens", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const tokens = await storage.getApiTokens(req.user!.id);
+    return res.json(tokens.map(toPublicApiToken));
+  });
+
+  app.post("/api/user/tokens", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Unauthorized" });
       }
       
-      const { id } = idParamSchema.parse(req.params);
-      
-      // Проверка принадлежности записи текущему пользователю
-      const entry = await storage.getTimeEntry(id);
-      if (!entry) {
-        return res.status(404).json({ message: "Entry not found" });
-      }
-      
-      if (entry.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Forbidden" });
-      }
-      
-      console.log('Received update data:', req.body);
-      
-      // Создаем схему для обновления, которая является частичной версией схемы создания
-      const updateTimeEntrySchema = insertTimeEntrySchema.partial();
-      
-      // Валидируем и преобразуем данные с помощью Zod
-      const entryData = updateTimeEntrySchema.parse({
-        ...req.body,
-        userId: req.user!.id // Убедимся, что userId не изменяется
-      });
-      
-      console.log('Processed update data after validation:', entryData);
-      
-      const updatedEntry = await storage.updateTimeEntry(id, entryData);
-      if (!updatedEntry) {
-        return res.status(404).json({ message: "Entry not found" });
-      }
-      
-      console.log('Updated entry:', updatedEntry);
-      
-      return res.json(updatedEntry);
+      const data = apiTokenCreateSchema.parse(req.body);
+      const created = await createApiToken(req.user!, data);
+      return res.status(201).json(created);
     } catch (error) {
-      console.error('Error updating time entry:', error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.message });
       }
@@ -216,27 +431,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/time-entries/:id", async (req: Request, res: Response) => {
+  app.delete("/api/user/tokens/:id", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Unauthorized" });
       }
       
       const { id } = idParamSchema.parse(req.params);
-      
-      // Проверка принадлежности записи текущему пользователю
-      const entry = await storage.getTimeEntry(id);
-      if (!entry) {
-        return res.status(404).json({ message: "Entry not found" });
-      }
-      
-      if (entry.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Forbidden" });
-      }
-      
-      const success = await storage.deleteTimeEntry(id);
+      const success = await storage.deleteApiToken(id, req.user!.id);
       if (!success) {
-        return res.status(404).json({ message: "Entry not found" });
+        return res.status(404).json({ message: "API token not found" });
       }
       
       return res.status(204).send();
@@ -248,72 +452,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Monthly reports routes
-  app.get("/api/monthly-reports", async (req: Request, res: Response) => {
+  // Time entries routes
+  app.get("/api/time-entries", async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     
-    const reports = await storage.getMonthlyReportsByUser(req.user!.id);
-    return res.json(reports);
+    const entries = await storage.getTimeEntriesByUser(req.user!.id);
+    return res.json(entries);
+  });
+  
+  // Running timer routes; объявлены до /api/time-entries/:id, чтобы "running" не разбирался как id
+  app.get("/api/time-entries/running", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const timer = await storage.getRunningTimer(req.user!.id);
+    return res.json(timer ?? null);
   });
 
-  app.get("/api/monthly-reports/:year/:month", async (req: Request, res: Response) => {
+  app.post("/api/time-entries/clock-in", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Unauthorized" });
       }
       
-      const { year, month } = monthParamsSchema.parse(req.params);
-      const userId = req.user!.id;
-      
-      let report = await storage.getMonthlyReportByUserAndMonth(userId, year, month);
+      const { projectId, notes, timezoneOffset } = clockInSchema.parse(req.body);
       
-      // Получаем все записи за месяц для расчета отработанных часов
-      const entries = await storage.getTimeEntriesByUserAndMonth(userId, year, month);
-      
-      // Рассчитываем общее количество отработанных минут
-      const totalWorkedMinutes = entries.reduce((total, entry) => {
-        const [startHours, startMinutes] = entry.startTime.split(':').map(Number);
-        const [endHours, endMinutes] = entry.endTime.split(':').map(Number);
-        
-        const startTotalMinutes = startHours * 60 + startMinutes;
-        const endTotalMinutes = endHours * 60 + endMinutes;
-        
-        return total + (endTotalMinutes - startTotalMinutes);
-      }, 0);
+      if (await storage.getRunningTimer(req.user!.id)) {
+        return res.status(409).json({ message: "Timer is already running" });
+      }
       
-      if (!report) {
-        // If no report exists, create one with default values
-        const workDays = 22; // This should be calculated based on the month
-        const targetMinutes = workDays * req.user!.workHoursPerDay * 60;
-        
-        const newReport = await storage.createMonthlyReport({
-          userId,
-          year,
-          month,
-          workDays,
-          workedMinutes: totalWorkedMinutes,
-          targetMinutes,
-          overtimeMinutes: totalWorkedMinutes - targetMinutes,
-          vacationDays: 0,
-          carriedFromMinutes: 0,
-          carriedToMinutes: 0,
-        });
-        
-        return res.json(newReport);
-      }
-      
-      // Обновляем отчет с актуальными данными по отработанным часам
-      if (report.workedMinutes !== totalWorkedMinutes) {
-        const updatedReport = await storage.updateMonthlyReport(report.id, {
-          workedMinutes: totalWorkedMinutes,
-          overtimeMinutes: totalWorkedMinutes - report.targetMinutes
-        });
-        return res.json(updatedReport);
+      if (projectId && !(await isOwnProject(req.user!.id, projectId))) {
+        return res.status(400).json({ message: "Project not found" });
       }
       
-      return res.json(report);
+      const timer = await storage.createRunningTimer({
+        userId: req.user!.id,
+        startedAt: new Date(),
+        pauses: [],
+        projectId: projectId ?? null,
+        notes: notes ?? null,
+        // Без смещения клиента время записи считается в часовом поясе сервера
+        timezoneOffset: timezoneOffset ?? new Date().getTimezoneOffset(),
+      });
+      return res.status(201).json(timer);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.message });
@@ -322,20 +506,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/monthly-reports", async (req: Request, res: Response) => {
+  app.post("/api/time-entries/pause", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const timer = await storage.getRunningTimer(req.user!.id);
+    if (!timer) {
+      return res.status(404).json({ message: "No running timer" });
+    }
+    
+    if (isTimerPaused(timer)) {
+      return res.status(409).json({ message: "Timer is already paused" });
+    }
+    
+    const updatedTimer = await storage.updateRunningTimer(timer.id, {
+      pauses: [...timer.pauses, { startedAt: new Date().toISOString() }],
+    });
+    return res.json(updatedTimer);
+  });
+
+  app.post("/api/time-entries/resume", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const timer = await storage.getRunningTimer(req.user!.id);
+    if (!timer) {
+      return res.status(404).json({ message: "No running timer" });
+    }
+    
+    if (!isTimerPaused(timer)) {
+      return res.status(409).json({ message: "Timer is not paused" });
+    }
+    
+    const now = new Date().toISOString();
+    const updatedTimer = await storage.updateRunningTimer(timer.id, {
+      pauses: timer.pauses.map(pause => pause.endedAt ? pause : { ...pause, endedAt: now }),
+    });
+    return res.json(updatedTimer);
+  });
+
+  app.post("/api/time-entries/clock-out", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Unauthorized" });
       }
       
-      const reportData = insertMonthlyReportSchema.parse({
-        ...req.body,
-        userId: req.user!.id
+      const timer = await storage.getRunningTimer(req.user!.id);
+      if (!timer) {
+        return res.status(404).json({ message: "No running timer" });
+      }
+      
+      // Незавершённая пауза заканчивается вместе с таймером
+      const shift = buildTimerShift(timer);
+      if (typeof shift === "string") {
+        return res.status(400).json({ message: shift });
+      }
+      
+      const entryData = insertTimeEntrySchema.parse({
+        ...shift,
+        userId: req.user!.id,
+        kind: "work",
+        projectId: timer.projectId,
+        notes: timer.notes,
       });
       
-      const report = await storage.createMonthlyReport(reportData);
-      return res.status(201).json(report);
+      const breaksError = validateBreaks(entryData.startTime, entryData.endTime, entryData.breaks ?? []);
+      if (breaksError) {
+        return res.status(400).json({ message: breaksError });
+      }
+      
+      const lockedReport = await findLockedMonth(req.user!.id, entryData.date);
+      if (lockedReport) {
+        return res.status(409).json({ message: formatLockedMessage(lockedReport) });
+      }
+      
+      const overlapping = await findOverlappingEntry(req.user!.id, entryData);
+      if (overlapping) {
+        return res.status(409).json({ message: formatOverlapMessage(overlapping) });
+      }
+      
+      const rate = await resolveRateForEntry(req.user!.id, entryData.date, entryData.projectId);
+      entryData.hourlyRate = rate ?? 0;
+      
+      const entry = await storage.completeRunningTimer(timer.id, entryData, req.user!.id);
+      await syncMonthlyReports(req.user!);
+      
+      return res.status(201).json(entry);
     } catch (error) {
+      console.error('Error stopping timer:', error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.message });
       }
@@ -343,7 +603,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/monthly-reports/:id", async (req: Request, res: Response) => {
+  // Сброс таймера без создания записи
+  app.delete("/api/time-entries/running", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const timer = await storage.getRunningTimer(req.user!.id);
+    if (!timer) {
+      return res.status(404).json({ message: "No running timer" });
+    }
+    
+    await storage.deleteRunningTimer(timer.id);
+    return res.status(204).send();
+  });
+  
+  app.get("/api/time-entries/:id", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Unauthorized" });
@@ -351,23 +626,1471 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { id } = idParamSchema.parse(req.params);
       
-      // Проверка принадлежности отчета текущему пользователю
-      const report = await storage.getMonthlyReport(id);
-      if (!report) {
-        return res.status(404).json({ message: "Report not found" });
+      const entry = await storage.getTimeEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Time entry not found" });
       }
       
-      if (report.userId !== req.user!.id) {
+      // Проверка принадлежности записи текущему пользователю
+      if (entry.userId !== req.user!.id) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      const updatedReport = await storage.updateMonthlyReport(id, req.body);
-      if (!updatedReport) {
-        return res.status(404).json({ message: "Report not found" });
-      }
+      return res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/time-entries/:year/:month", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { year, month } = monthParamsSchema.parse(req.params);
+      const entries = await storage.getTimeEntriesByUserAndMonth(req.user!.id, year, month);
+      return res.json(entries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/time-entries", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      console.log('Received time entry data:', req.body);
+      
+      // Валидируем и преобразуем данные с помощью Zod
+      const entryData = insertTimeEntrySchema.parse({
+        ...req.body,
+        userId: req.user!.id // Устанавливаем userId текущего пользователя
+      });
+      console.log('Processed time entry data after validation:', entryData);
+      
+      const kindError = validateEntryKind({
+        kind: entryData.kind ?? "work",
+        startTime: entryData.startTime,
+        endTime: entryData.endTime,
+        breaks: entryData.breaks ?? [],
+        halfDay: entryData.halfDay ?? false,
+      });
+      if (kindError) {
+        return res.status(400).json({ message: kindError });
+      }
+      
+      const breaksError = validateBreaks(entryData.startTime, entryData.endTime, entryData.breaks ?? []);
+      if (breaksError) {
+        return res.status(400).json({ message: breaksError });
+      }
+      
+      if (entryData.projectId && !(await isOwnProject(req.user!.id, entryData.projectId))) {
+        return res.status(400).json({ message: "Project not found" });
+      }
+      
+      // Без явно указанной ставки берём ставку, действующую на дату записи
+      if (req.body.hourlyRate === undefined) {
+        const rate = await resolveRateForEntry(req.user!.id, entryData.date, entryData.projectId);
+        entryData.hourlyRate = rate ?? 0;
+      }
+      
+      // Отправленный или утверждённый месяц закрыт для новых записей
+      const lockedReport = await findLockedMonth(req.user!.id, entryData.date);
+      if (lockedReport) {
+        return res.status(409).json({ message: formatLockedMessage(lockedReport) });
+      }
+      
+      // Смены одного пользователя не должны пересекаться по времени
+      const overlapping = await findOverlappingEntry(req.user!.id, entryData);
+      if (overlapping) {
+        return res.status(409).json({ message: formatOverlapMessage(overlapping) });
+      }
+      
+      const entry = await storage.createTimeEntry(entryData, req.user!.id);
+      console.log('Created entry:', entry);
+      
+      // Переработка месяца переносится во все последующие отчёты
+      await syncMonthlyReports(req.user!);
+      
+      return res.status(201).json(entry);
+    } catch (error) {
+      console.error('Error processing time entry:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/time-entries/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      
+      // Проверка принадлежности записи текущему пользователю
+      const entry = await storage.getTimeEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+      
+      if (entry.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      console.log('Received update data:', req.body);
+      
+      // Создаем схему для обновления, которая является частичной версией схемы создания
+      const updateTimeEntrySchema = insertTimeEntrySchema.partial();
+      
+      // Валидируем и преобразуем данные с помощью Zod
+      const entryData = updateTimeEntrySchema.parse({
+        ...req.body,
+        userId: req.user!.id // Убедимся, что userId не изменяется
+      });
+      
+      console.log('Processed update data after validation:', entryData);
+      
+      const merged = {
+        date: entryData.date ?? entry.date,
+        kind: entryData.kind ?? entry.kind,
+        startTime: entryData.startTime ?? entry.startTime,
+        endTime: entryData.endTime ?? entry.endTime,
+        breaks: entryData.breaks ?? entry.breaks,
+        halfDay: entryData.halfDay ?? entry.halfDay,
+      };
+      
+      // Правила типа проверяются для записи целиком: смена типа без смены времени тоже проверяется
+      const kindError = validateEntryKind(merged);
+      if (kindError) {
+        return res.status(400).json({ message: kindError });
+      }
+      
+      const breaksError = validateBreaks(merged.startTime, merged.endTime, merged.breaks);
+      if (breaksError) {
+        return res.status(400).json({ message: breaksError });
+      }
+      
+      if (entryData.projectId && !(await isOwnProject(req.user!.id, entryData.projectId))) {
+        return res.status(400).json({ message: "Project not found" });
+      }
+      
+      // При переносе на другую дату или проект без явной ставки берём ставку, действующую для новых даты и проекта
+      const dateChanged = entryData.date !== undefined && entryData.date.getTime() !== new Date(entry.date).getTime();
+      const projectChanged = entryData.projectId !== undefined && entryData.projectId !== entry.projectId;
+      if (req.body.hourlyRate === undefined && (dateChanged || projectChanged)) {
+        const rate = await resolveRateForEntry(req.user!.id, merged.date, entryData.projectId !== undefined ? entryData.projectId : entry.projectId);
+        entryData.hourlyRate = rate ?? 0;
+      }
+      
+      // Запись нельзя менять в закрытом месяце и переносить в закрытый месяц
+      const lockedReport = await findLockedMonth(req.user!.id, entry.date, merged.date);
+      if (lockedReport) {
+        return res.status(409).json({ message: formatLockedMessage(lockedReport) });
+      }
+      
+      const overlapping = await findOverlappingEntry(req.user!.id, merged, id);
+      if (overlapping) {
+        return res.status(409).json({ message: formatOverlapMessage(overlapping) });
+      }
+      
+      const updatedEntry = await storage.updateTimeEntry(id, entryData, req.user!.id);
+      if (!updatedEntry) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+      
+      console.log('Updated entry:', updatedEntry);
+      
+      await syncMonthlyReports(req.user!);
+      
+      return res.json(updatedEntry);
+    } catch (error) {
+      console.error('Error updating time entry:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/time-entries/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      
+      // Проверка принадлежности записи текущему пользователю
+      const entry = await storage.getTimeEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+      
+      if (entry.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const lockedReport = await findLockedMonth(req.user!.id, entry.date);
+      if (lockedReport) {
+        return res.status(409).json({ message: formatLockedMessage(lockedReport) });
+      }
+      
+      const success = await storage.deleteTimeEntry(id, req.user!.id);
+      if (!success) {
+        return res.status(404).json({ message: "Entry not found" });
+      }
+      
+      await syncMonthlyReports(req.user!);
+      
+      return res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Monthly reports routes
+  app.get("/api/monthly-reports", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    // Старые отчёты могли быть сохранены с фиксированным числом рабочих дней и без переноса переработки
+    const reports = await syncMonthlyReports(req.user!);
+    return res.json(reports);
+  });
+
+  app.get("/api/monthly-reports/:year/:month", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { year, month } = monthParamsSchema.parse(req.params);
+      
+      // Отчёт пересчитывается по производственному календарю и записям за месяц
+      const report = await syncMonthlyReport(req.user!, year, month);
+      return res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/monthly-reports", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      // Клиент выбирает только месяц: итоги всегда считаются из записей
+      const { year, month } = monthParamsSchema.strict().parse(req.body);
+      const report = await syncMonthlyReport(req.user!, year, month);
+      return res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/monthly-reports/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      
+      // Проверка принадлежности отчета текущему пользователю
+      const report = await storage.getMonthlyReport(id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      
+      if (report.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      if (isReportLocked(report.status)) {
+        return res.status(409).json({ message: formatLockedMessage(report) });
+      }
+      
+      // Вручную задаётся только норма; итоги и остатки сразу пересчитываются с ней
+      const reportData = monthlyReportAdjustmentSchema.parse(req.body);
+      const updatedReport = await storage.updateMonthlyReport(id, reportData, req.user!.id);
+      if (!updatedReport) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      
+      const syncedReport = await syncMonthlyReport(req.user!, updatedReport.year, updatedReport.month);
+      return res.json(syncedReport);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Согласование своего табеля: submit или reopen; каждое действие записывается в журнал
+  app.post("/api/monthly-reports/:year/:month/status", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { year, month } = monthParamsSchema.parse(req.params);
+      const { action, comment } = reportStatusSchema.parse(req.body);
+      
+      // Свой табель не утверждают и не отклоняют: это делает руководитель или администратор
+      if (reportTransitions[action].byReviewer) {
+        return res.status(403).json({ message: "Timesheets are approved by a manager or an administrator" });
+      }
+      
+      const report = await changeReportStatus(req.user!, req.user!, year, month, action, comment);
+      if (typeof report === "string") {
+        return res.status(409).json({ message: report });
+      }
+      
+      return res.json(report);
+    } catch (error) {
+      console.error('Error changing report status:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Журнал согласования табеля за месяц, от старых действий к новым
+  app.get("/api/monthly-reports/:year/:month/history", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { year, month } = monthParamsSchema.parse(req.params);
+      const report = await storage.getMonthlyReportByUserAndMonth(req.user!.id, year, month);
+      if (!report) {
+        return res.json([]);
+      }
+      
+      const changes = await storage.getReportStatusChanges(report.id);
+      const userIds = Array.from(new Set(changes.map(change => change.changedBy)));
+      const users = await Promise.all(userIds.map(userId => storage.getUser(userId)));
+      const names = new Map(users.filter(user => !!user).map(user => [user!.id, user!.fullName]));
+      
+      const history: ReportHistoryItem[] = changes.map(change => ({
+        ...change,
+        changedByName: names.get(change.changedBy) ?? "",
+      }));
+      return res.json(history);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Журнал изменений записей, отчётов и настроек: свои данные, администратор — данные любого пользователя
+  app.get("/api/audit", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const query = auditQuerySchema.parse(req.query);
+      const isAdmin = canManageUsers(req.user!.role);
+      if (query.userId !== undefined && query.userId !== req.user!.id && !isAdmin) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const records = await storage.getAuditLog({
+        ...query,
+        userId: isAdmin ? query.userId : req.user!.id,
+        // Конечная дата включительно
+        to: query.to && new Date(query.to.getFullYear(), query.to.getMonth(), query.to.getDate(), 23, 59, 59, 999),
+      });
+      
+      const actorIds = Array.from(new Set(records.map(record => record.actorId).filter((id): id is number => id !== null)));
+      const actors = await Promise.all(actorIds.map(actorId => storage.getUser(actorId)));
+      const names = new Map(actors.filter(actor => !!actor).map(actor => [actor!.id, actor!.fullName]));
+      
+      const items: AuditLogItem[] = records.map(record => ({
+        ...record,
+        actorName: record.actorId === null ? null : names.get(record.actorId) ?? "",
+      }));
+      return res.json(items);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Команды руководителя: только просмотр записей и отчётов сотрудников
+  app.get("/api/teams", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    if (!canViewTeams(req.user!.role)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const teams = await getTeamsWithMembers(req.user!);
+    return res.json(teams);
+  });
+
+  // Часы и переработка сотрудников всех команд руководителя за месяц
+  app.get("/api/teams/overview/:year/:month", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      if (!canViewTeams(req.user!.role)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const { year, month } = monthParamsSchema.parse(req.params);
+      const overview = await buildTeamOverview(req.user!, year, month);
+      return res.json(overview);
+    } catch (error) {
+      console.error('Error building team overview:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/teams/members/:userId/time-entries/:year/:month", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { userId, year, month } = memberMonthParamsSchema.parse(req.params);
+      // Чужие сотрудники неотличимы от несуществующих
+      const member = await findTeamMember(req.user!, userId);
+      if (!member) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      const entries = await storage.getTimeEntriesByUserAndMonth(member.id, year, month);
+      return res.json(entries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/teams/members/:userId/monthly-reports", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { userId } = memberParamsSchema.parse(req.params);
+      const member = await findTeamMember(req.user!, userId);
+      if (!member) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      const reports = await previewMonthlyReports(member);
+      return res.json(reports);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/teams/members/:userId/monthly-reports/:year/:month", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { userId, year, month } = memberMonthParamsSchema.parse(req.params);
+      const member = await findTeamMember(req.user!, userId);
+      if (!member) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      const report = await previewMonthlyReport(member, year, month);
+      return res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Проверка табеля сотрудника руководителем или администратором: approve или reject
+  app.post("/api/teams/members/:userId/monthly-reports/:year/:month/status", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { userId, year, month } = memberMonthParamsSchema.parse(req.params);
+      const { action, comment } = reportStatusSchema.parse(req.body);
+      
+      if (!reportTransitions[action].byReviewer) {
+        return res.status(403).json({ message: "Only the employee can submit or reopen a timesheet" });
+      }
+      
+      const member = await findReportReviewee(req.user!, userId);
+      if (!member) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      const report = await changeReportStatus(member, req.user!, year, month, action, comment);
+      if (typeof report === "string") {
+        return res.status(409).json({ message: report });
+      }
+      
+      return res.json(report);
+    } catch (error) {
+      console.error('Error reviewing report:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Настройки приложения, которые нужны и до входа: например, открыта ли регистрация
+  app.get("/api/settings", async (req: Request, res: Response) => {
+    const settings = await storage.getAppSettings();
+    return res.json(settings);
+  });
+
+  // Консоль администратора: пользователи, команды и настройки приложения
+  app.get("/api/admin/users", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    if (!canManageUsers(req.user!.role)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const users = await storage.getUsers();
+    return res.json(users.map(toAdminUser));
+  });
+
+  // Новый пользователь получает временный пароль, который сменит при первом входе
+  app.post("/api/admin/users", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      if (!canManageUsers(req.user!.role)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const data = adminUserCreateSchema.parse(req.body);
+      const result = await createManagedUser(req.user!, data);
+      if (typeof result === "string") {
+        return res.status(400).json({ message: result });
+      }
+      
+      return res.status(201).json(result);
+    } catch (error) {
+      console.error('Error creating user:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/admin/users/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      if (!canManageUsers(req.user!.role)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      const data = adminUserUpdateSchema.parse(req.body);
+      const target = await storage.getUser(id);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const result = await updateManagedUser(req.user!, target, data);
+      if (typeof result === "string") {
+        return res.status(400).json({ message: result });
+      }
+      
+      return res.json(toAdminUser(result));
+    } catch (error) {
+      console.error('Error updating user:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Отключённый пользователь не может войти, его сессии перестают действовать
+  app.post("/api/admin/users/:id/deactivate", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      if (!canManageUsers(req.user!.role)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      const target = await storage.getUser(id);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const result = await setUserActive(req.user!, target, false);
+      if (typeof result === "string") {
+        return res.status(400).json({ message: result });
+      }
+      
+      return res.json(toAdminUser(result));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/reactivate", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      if (!canManageUsers(req.user!.role)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      const target = await storage.getUser(id);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const result = await setUserActive(req.user!, target, true);
+      if (typeof result === "string") {
+        return res.status(400).json({ message: result });
+      }
+      
+      return res.json(toAdminUser(result));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/reset-password", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      if (!canManageUsers(req.user!.role)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      const target = await storage.getUser(id);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const result = await resetUserPassword(req.user!, target);
+      if (typeof result === "string") {
+        return res.status(500).json({ message: result });
+      }
+      
+      return res.json(result);
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Команды: список с сотрудниками отдаёт /api/teams
+  app.post("/api/admin/teams", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      if (!canManageUsers(req.user!.role)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const data = adminTeamSchema.parse(req.body);
+      const result = await createManagedTeam(data);
+      if (typeof result === "string") {
+        return res.status(400).json({ message: result });
+      }
+      
+      return res.status(201).json(result);
+    } catch (error) {
+      console.error('Error creating team:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/admin/teams/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      if (!canManageUsers(req.user!.role)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      const data = adminTeamUpdateSchema.parse(req.body);
+      const team = (await storage.getTeams()).find(item => item.id === id);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const result = await updateManagedTeam(team, data);
+      if (typeof result === "string") {
+        return res.status(400).json({ message: result });
+      }
+      
+      return res.json(result);
+    } catch (error) {
+      console.error('Error updating team:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Сотрудники удалённой команды остаются без команды, её подкоманды становятся верхнего уровня
+  app.delete("/api/admin/teams/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      if (!canManageUsers(req.user!.role)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      const success = await storage.deleteTeam(id);
+      if (!success) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      return res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/admin/settings", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      if (!canManageUsers(req.user!.role)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const data = appSettingsUpdateSchema.parse(req.body);
+      const settings = await storage.updateAppSettings(data);
+      return res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Последние попытки входа всех пользователей, включая несуществующие имена
+  app.get("/api/admin/login-attempts", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    if (!canManageUsers(req.user!.role)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    const attempts = await storage.getLoginAttempts(ADMIN_LOGIN_ATTEMPTS_LIMIT);
+    return res.json(attempts);
+  });
+
+  // Clients routes
+  app.get("/api/clients", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const clients = await storage.getClientsByUser(req.user!.id);
+    return res.json(clients);
+  });
+
+  app.post("/api/clients", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const clientData = insertClientSchema.parse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      
+      const client = await storage.createClient(clientData);
+      return res.status(201).json(client);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/clients/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      
+      const client = await storage.getClient(id);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      if (client.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const clientData = insertClientSchema.partial().parse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      
+      const updatedClient = await storage.updateClient(id, clientData);
+      if (!updatedClient) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      return res.json(updatedClient);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/clients/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      
+      const client = await storage.getClient(id);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      if (client.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const success = await storage.deleteClient(id);
+      if (!success) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      return res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Projects routes
+  app.get("/api/projects", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const projects = await storage.getProjectsByUser(req.user!.id);
+    return res.json(projects);
+  });
+
+  app.post("/api/projects", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const projectData = insertProjectSchema.parse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      
+      if (projectData.clientId && !(await isOwnClient(req.user!.id, projectData.clientId))) {
+        return res.status(400).json({ message: "Client not found" });
+      }
+      
+      const project = await storage.createProject(projectData);
+      return res.status(201).json(project);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/projects/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      
+      const project = await storage.getProject(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (project.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const projectData = insertProjectSchema.partial().parse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      
+      if (projectData.clientId && !(await isOwnClient(req.user!.id, projectData.clientId))) {
+        return res.status(400).json({ message: "Client not found" });
+      }
+      
+      const updatedProject = await storage.updateProject(id, projectData);
+      if (!updatedProject) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      return res.json(updatedProject);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/projects/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      
+      const project = await storage.getProject(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (project.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const success = await storage.deleteProject(id);
+      if (!success) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      return res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Hourly rates routes
+  app.get("/api/rates", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const rates = await storage.getHourlyRatesByUser(req.user!.id);
+    return res.json(rates);
+  });
+
+  app.post("/api/rates", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const rateData = insertHourlyRateSchema.parse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      
+      if (rateData.projectId && !(await isOwnProject(req.user!.id, rateData.projectId))) {
+        return res.status(400).json({ message: "Project not found" });
+      }
+      
+      const rate = await storage.createHourlyRate(rateData);
+      return res.status(201).json(rate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/rates/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      
+      const rate = await storage.getHourlyRate(id);
+      if (!rate) {
+        return res.status(404).json({ message: "Rate not found" });
+      }
+      
+      if (rate.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const rateData = insertHourlyRateSchema.partial().parse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      
+      if (rateData.projectId && !(await isOwnProject(req.user!.id, rateData.projectId))) {
+        return res.status(400).json({ message: "Project not found" });
+      }
+      
+      const updatedRate = await storage.updateHourlyRate(id, rateData);
+      if (!updatedRate) {
+        return res.status(404).json({ message: "Rate not found" });
+      }
+      
+      return res.json(updatedRate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/rates/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { id } = idParamSchema.parse(req.params);
+      
+      const rate = await storage.getHourlyRate(id);
+      if (!rate) {
+        return res.status(404).json({ message: "Rate not found" });
+      }
+      
+      if (rate.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const success = await storage.deleteHourlyRate(id);
+      if (!success) {
+        return res.status(404).json({ message: "Rate not found" });
+      }
+      
+      return res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Предпросмотр переоценки записей диапазона по истории ставок
+  app.post("/api/rates/reprice/preview", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const range = repriceSchema.parse(req.body);
+      const preview = await buildRepricePreview(req.user!, range);
+      return res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/rates/reprice", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const range = repriceSchema.parse(req.body);
+      const result = await applyReprice(req.user!, range);
+      return res.json(result);
+    } catch (error) {
+      console.error('Error repricing time entries:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Pay rules routes
+  app.get("/api/pay-rules", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const rules = await getUserPayRules(req.user!.id);
+    return res.json(rules);
+  });
+
+  app.put("/api/pay-rules/:kind", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { kind } = payRuleParamsSchema.parse(req.params);
+      const ruleData = insertPayRuleSchema.parse({
+        ...req.body,
+        kind,
+        userId: req.user!.id
+      });
+      
+      const rule = await storage.upsertPayRule(ruleData);
+      return res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Оплата за месяц с доплатами по записям и итогами
+  app.get("/api/pay/:year/:month", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { year, month } = monthParamsSchema.parse(req.params);
+      const breakdown = await getMonthPayBreakdown(req.user!, year, month);
+      return res.json(breakdown);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Баланс отпуска за год: положено, использовано, запланировано и остаток
+  app.get("/api/vacation/:year", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { year } = yearParamsSchema.parse(req.params);
+      const balance = await getVacationBalance(req.user!, year);
+      return res.json(balance);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Предпросмотр импорта: разобранные строки файла со статусами new/duplicate/overlap/invalid
+  app.post("/api/imports/preview", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { file, format, mapping } = importPreviewSchema.parse(req.body);
+      const preview = await buildImportPreview(req.user!.id, file, format, mapping);
+      if (typeof preview === "string") {
+        return res.status(400).json({ message: preview });
+      }
+      
+      return res.json(preview);
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Импорт строк из предпросмотра одной транзакцией
+  app.post("/api/imports", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { rows } = importCommitSchema.parse(req.body);
+      const result = await importRows(req.user!, rows);
+      if (typeof result === "string") {
+        return res.status(409).json({ message: result });
+      }
+      
+      await syncMonthlyReports(req.user!);
+      return res.status(201).json(result);
+    } catch (error) {
+      console.error('Error importing entries:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Включение ссылки на календарь или замена токена; старая ссылка перестаёт работать
+  app.post("/api/calendar/token", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const token = randomBytes(24).toString("hex");
+      const updatedUser = await storage.updateUser(req.user!.id, { calendarToken: token }, req.user!.id);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      req.login(updatedUser, (err) => {
+        if (err) return res.status(500).json({ message: "Failed to update session" });
+        return res.status(201).json({ token });
+      });
+    } catch (error) {
+      console.error('Error creating calendar token:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Отключение ссылки на календарь
+  app.delete("/api/calendar/token", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const updatedUser = await storage.updateUser(req.user!.id, { calendarToken: null }, req.user!.id);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      req.login(updatedUser, (err) => {
+        if (err) return res.status(500).json({ message: "Failed to update session" });
+        return res.status(204).send();
+      });
+    } catch (error) {
+      console.error('Error deleting calendar token:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Календарь записей для подписки: GET /api/calendar.ics?token=...&lang=cs
+  app.get("/api/calendar.ics", async (req: Request, res: Response) => {
+    try {
+      const { token, lang } = calendarFeedQuerySchema.parse(req.query);
+      const user = await storage.getUserByCalendarToken(token);
+      if (!user || !user.isActive) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+      
+      const [entries, projects, clients] = await Promise.all([
+        storage.getTimeEntriesByUser(user.id),
+        storage.getProjectsByUser(user.id),
+        storage.getClientsByUser(user.id),
+      ]);
+      const t = getTranslator(lang ?? (req.acceptsLanguages(...supportedLanguages) || undefined));
+      
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'inline; filename="calendar.ics"');
+      return res.send(buildCalendarFeed(user, entries, { projects, clients }, t));
+    } catch (error) {
+      console.error('Error generating calendar:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Черновики записей из загруженного .ics для проверки в форме добавления записи
+  app.post("/api/calendar/import", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { file, timeZone } = calendarImportSchema.parse(req.body);
+      const drafts = await buildCalendarDrafts(req.user!, file, timeZone);
+      if (typeof drafts === "string") {
+        return res.status(400).json({ message: drafts });
+      }
+      
+      return res.json({ drafts });
+    } catch (error) {
+      console.error('Error reading calendar:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Табель за месяц в PDF, Excel или CSV: GET /api/exports/2025/5?format=xlsx&lang=cs
+  app.get("/api/exports/:year/:month", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { year, month } = monthParamsSchema.parse(req.params);
+      const query = exportQuerySchema.parse(req.query);
+      
+      const doc = await buildMonthExport(req.user!, year, month);
+      return sendExport(req, res, doc, query);
+    } catch (error) {
+      console.error('Error generating export:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Табель за несколько месяцев со сводкой: GET /api/exports/months?from=2025-01&to=2025-12&format=xlsx
+  app.get("/api/exports/months", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { from, to } = exportMonthsSchema.parse(req.query);
+      const query = exportQuerySchema.parse(req.query);
+      
+      const report = await buildMultiMonthExport(req.user!, from, to);
+      return sendExport(req, res, report, query);
+    } catch (error) {
+      console.error('Error generating export:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Табель за интервал дат: GET /api/exports?from=2025-01-01&to=2025-03-31&format=pdf
+  app.get("/api/exports", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const { from, to } = exportRangeSchema.parse(req.query);
+      const query = exportQuerySchema.parse(req.query);
       
-      return res.json(updatedReport);
+      const doc = await buildRangeExport(req.user!, from, to);
+      return sendExport(req, res, doc, query);
     } catch (error) {
+      console.error('Error generating export:', error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.message });
       }
@@ -1,12 +1,27 @@
 import { 
-  users, timeEntries, monthlyReports, 
+  users, teams, timeEntries, monthlyReports, clients, projects, hourlyRates, payRules, runningTimers, reportStatusChanges, appSettings,
+  loginAttempts, loginThrottles, recoveryCodes, apiTokens, auditLog,
   type User, type InsertUser, 
+  type AppSettings, type InsertAppSettings,
+  type LoginAttempt, type InsertLoginAttempt, type LoginThrottle,
+  type RecoveryCode,
+  type ApiToken, type InsertApiToken,
+  type AuditLog, type InsertAuditLog,
+  type Team, type InsertTeam,
   type TimeEntry, type InsertTimeEntry, 
-  type MonthlyReport, type InsertMonthlyReport,
-  userInitialData
+  type MonthlyReport, type InsertMonthlyReport, type MonthlyReportApproval,
+  type ReportStatusChange, type InsertReportStatusChange,
+  type Client, type InsertClient,
+  type Project, type InsertProject,
+  type HourlyRate, type InsertHourlyRate,
+  type PayRule, type InsertPayRule,
+  type RunningTimer, type InsertRunningTimer,
 } from "@shared/schema";
+import { legacyAbsenceNotes } from "@shared/entry-kinds";
+import { addLoginFailure, type LoginThrottlePolicy } from "@shared/login-attempts";
+import { auditRedactedUserFields, buildAuditChange, type AuditEntityType } from "@shared/audit";
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, asc, desc, gte, inArray, isNull, lt, lte, or } from "drizzle-orm";
 import session from "express-session";
 import MemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
@@ -26,6 +41,40 @@ const pool = new Pool({
 
 const PostgresSessionStore = connectPg(session);
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Версия данных, с которой отсутствия хранятся типом записи, а не заметкой
+const LEGACY_ABSENCE_DATA_VERSION = 1;
+
+export interface AuditLogFilter {
+  userId?: number;
+  entityType?: AuditEntityType;
+  entityId?: number;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+// Строка журнала изменений; null — значения не изменились
+function buildAuditRecord(
+  entityType: AuditEntityType,
+  entity: { id: number; userId: number },
+  actorId: number | null,
+  before: object | undefined,
+  after: object | undefined,
+): InsertAuditLog | null {
+  const change = buildAuditChange(before, after, entityType === "user" ? auditRedactedUserFields : []);
+  return change && { entityType, entityId: entity.id, userId: entity.userId, actorId, ...change };
+}
+
+// Журнал пишется в той же транзакции, что и само изменение: одно без другого не сохранится
+async function writeAudit(tx: Transaction, records: (InsertAuditLog | null)[]): Promise<void> {
+  const values = records.filter((record): record is InsertAuditLog => record !== null);
+  if (values.length > 0) {
+    await tx.insert(auditLog).values(values);
+  }
+}
+
 export interface IStorage {
   // Session storage
   sessionStore: session.Store;
@@ -33,23 +82,100 @@ export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
-  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
+  createUser(user: InsertUser, actorId: number | null): Promise<User>;
+  updateUser(id: number, user: Partial<InsertUser>, actorId: number | null): Promise<User | undefined>;
+  getUsersByTeams(teamIds: number[]): Promise<User[]>;
+  getUsers(): Promise<User[]>;
+  hasUsers(): Promise<boolean>;
+  
+  // Team methods
+  getTeams(): Promise<Team[]>;
+  createTeam(team: InsertTeam): Promise<Team>;
+  updateTeam(id: number, team: Partial<InsertTeam>): Promise<Team | undefined>;
+  deleteTeam(id: number): Promise<boolean>;
+  
+  // App settings methods
+  getAppSettings(): Promise<AppSettings>;
+  updateAppSettings(settings: Partial<InsertAppSettings>): Promise<AppSettings>;
+  migrateLegacyAbsenceEntries(): Promise<number>;
+  
+  // Login protection methods
+  getLoginThrottles(keys: string[]): Promise<LoginThrottle[]>;
+  addLoginThrottleFailure(key: string, policy: LoginThrottlePolicy, now: Date): Promise<LoginThrottle>;
+  deleteLoginThrottle(key: string): Promise<boolean>;
+  createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  getLoginAttempts(limit: number, userId?: number): Promise<LoginAttempt[]>;
+  
+  // Two-factor methods
+  claimTotpStep(userId: number, step: number): Promise<boolean>;
+  getUnusedRecoveryCodes(userId: number): Promise<RecoveryCode[]>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(id: number): Promise<boolean>;
+  
+  // API token methods
+  getApiTokens(userId: number): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  touchApiToken(id: number, usedAt: Date): Promise<void>;
+  deleteApiToken(id: number, userId: number): Promise<boolean>;
   
   // Time entry methods
   getTimeEntry(id: number): Promise<TimeEntry | undefined>;
   getTimeEntriesByUser(userId: number): Promise<TimeEntry[]>;
   getTimeEntriesByUserAndMonth(userId: number, year: number, month: number): Promise<TimeEntry[]>;
-  createTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry>;
-  updateTimeEntry(id: number, entry: Partial<InsertTimeEntry>): Promise<TimeEntry | undefined>;
-  deleteTimeEntry(id: number): Promise<boolean>;
+  getTimeEntriesByUserAndRange(userId: number, from: Date, to: Date): Promise<TimeEntry[]>;
+  createTimeEntry(entry: InsertTimeEntry, actorId: number | null): Promise<TimeEntry>;
+  updateTimeEntry(id: number, entry: Partial<InsertTimeEntry>, actorId: number | null): Promise<TimeEntry | undefined>;
+  deleteTimeEntry(id: number, actorId: number | null): Promise<boolean>;
   
   // Monthly report methods
   getMonthlyReport(id: number): Promise<MonthlyReport | undefined>;
   getMonthlyReportByUserAndMonth(userId: number, year: number, month: number): Promise<MonthlyReport | undefined>;
   getMonthlyReportsByUser(userId: number): Promise<MonthlyReport[]>;
-  createMonthlyReport(report: InsertMonthlyReport): Promise<MonthlyReport>;
-  updateMonthlyReport(id: number, report: Partial<InsertMonthlyReport>): Promise<MonthlyReport | undefined>;
+  createMonthlyReport(report: InsertMonthlyReport, actorId: number | null): Promise<MonthlyReport>;
+  updateMonthlyReport(id: number, report: Partial<InsertMonthlyReport>, actorId: number | null): Promise<MonthlyReport | undefined>;
+  changeMonthlyReportStatus(id: number, approval: MonthlyReportApproval, change: Omit<InsertReportStatusChange, "reportId">): Promise<MonthlyReport | undefined>;
+  getReportStatusChanges(reportId: number): Promise<ReportStatusChange[]>;
+  
+  // Client methods
+  getClient(id: number): Promise<Client | undefined>;
+  getClientsByUser(userId: number): Promise<Client[]>;
+  createClient(client: InsertClient): Promise<Client>;
+  updateClient(id: number, client: Partial<InsertClient>): Promise<Client | undefined>;
+  deleteClient(id: number): Promise<boolean>;
+  
+  // Project methods
+  getProject(id: number): Promise<Project | undefined>;
+  getProjectsByUser(userId: number): Promise<Project[]>;
+  createProject(project: InsertProject): Promise<Project>;
+  updateProject(id: number, project: Partial<InsertProject>): Promise<Project | undefined>;
+  deleteProject(id: number): Promise<boolean>;
+  
+  // Hourly rate methods
+  getHourlyRate(id: number): Promise<HourlyRate | undefined>;
+  getHourlyRatesByUser(userId: number): Promise<HourlyRate[]>;
+  createHourlyRate(rate: InsertHourlyRate): Promise<HourlyRate>;
+  updateHourlyRate(id: number, rate: Partial<InsertHourlyRate>): Promise<HourlyRate | undefined>;
+  deleteHourlyRate(id: number): Promise<boolean>;
+  updateTimeEntryRates(updates: { id: number; hourlyRate: number }[], actorId: number | null): Promise<void>;
+  
+  // Pay rule methods
+  getPayRulesByUser(userId: number): Promise<PayRule[]>;
+  upsertPayRule(rule: InsertPayRule): Promise<PayRule>;
+  
+  // Running timer methods
+  getRunningTimer(userId: number): Promise<RunningTimer | undefined>;
+  createRunningTimer(timer: InsertRunningTimer): Promise<RunningTimer>;
+  updateRunningTimer(id: number, timer: Partial<InsertRunningTimer>): Promise<RunningTimer | undefined>;
+  deleteRunningTimer(id: number): Promise<boolean>;
+  completeRunningTimer(id: number, entry: InsertTimeEntry, actorId: number | null): Promise<TimeEntry>;
+  
+  // Import methods
+  createTimeEntries(entries: InsertTimeEntry[], actorId: number | null): Promise<TimeEntry[]>;
+  
+  // Audit methods
+  getAuditLog(filter: AuditLogFilter): Promise<AuditLog[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -75,11 +201,36 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async initializeDefaultUser(): Promise<void> {
-    const existingUser = await this.getUserByUsername(userInitialData.username);
-    if (!existingUser) {
-      await this.createUser(userInitialData);
-    }
+  // Разовый перенос записей старого формата: отсутствие было записью работы 00:00–00:00 с заметкой.
+  // Номер версии данных в настройках не даёт выполнить его повторно; возвращает число перенесённых записей
+  async migrateLegacyAbsenceEntries(): Promise<number> {
+    await this.getAppSettings();
+    return db.transaction(async (tx) => {
+      const [settings] = await tx.select().from(appSettings).orderBy(asc(appSettings.id)).limit(1).for("update");
+      if (settings.dataVersion >= LEGACY_ABSENCE_DATA_VERSION) return 0;
+      
+      let migrated = 0;
+      for (const [note, kind] of Object.entries(legacyAbsenceNotes)) {
+        const updated = await tx.update(timeEntries)
+          .set({ kind, notes: null })
+          .where(and(
+            eq(timeEntries.notes, note),
+            eq(timeEntries.kind, "work"),
+            eq(timeEntries.startTime, "00:00"),
+            eq(timeEntries.endTime, "00:00"),
+          ))
+          .returning();
+        await writeAudit(tx, updated.map(entry =>
+          buildAuditRecord("time_entry", entry, null, { ...entry, kind: "work", notes: note }, entry)
+        ));
+        migrated += updated.length;
+      }
+      
+      await tx.update(appSettings)
+        .set({ dataVersion: LEGACY_ABSENCE_DATA_VERSION })
+        .where(eq(appSettings.id, settings.id));
+      return migrated;
+    });
   }
   
   // User methods
@@ -93,20 +244,213 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const result = await db.insert(users).values(insertUser).returning();
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.calendarToken, token));
     return result[0];
   }
 
-  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
-    const result = await db.update(users)
-      .set(userData)
-      .where(eq(users.id, id))
+  async createUser(insertUser: InsertUser, actorId: number | null): Promise<User> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(users).values(insertUser).returning();
+      await writeAudit(tx, [buildAuditRecord("user", { id: created.id, userId: created.id }, actorId, undefined, created)]);
+      return created;
+    });
+  }
+
+  async updateUser(id: number, userData: Partial<InsertUser>, actorId: number | null): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(users).where(eq(users.id, id));
+      if (!before) return undefined;
+      
+      const [updated] = await tx.update(users)
+        .set(userData)
+        .where(eq(users.id, id))
+        .returning();
+      await writeAudit(tx, [buildAuditRecord("user", { id, userId: id }, actorId, before, updated)]);
+      return updated;
+    });
+  }
+
+  async getUsersByTeams(teamIds: number[]): Promise<User[]> {
+    if (teamIds.length === 0) return [];
+    return db.select()
+      .from(users)
+      .where(inArray(users.teamId, teamIds))
+      .orderBy(asc(users.fullName));
+  }
+
+  async getUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(asc(users.fullName));
+  }
+
+  async hasUsers(): Promise<boolean> {
+    const result = await db.select({ id: users.id }).from(users).limit(1);
+    return result.length > 0;
+  }
+
+  // Team methods
+  async getTeams(): Promise<Team[]> {
+    return db.select().from(teams).orderBy(asc(teams.name));
+  }
+
+  async createTeam(team: InsertTeam): Promise<Team> {
+    const result = await db.insert(teams).values(team).returning();
+    return result[0];
+  }
+
+  async updateTeam(id: number, teamData: Partial<InsertTeam>): Promise<Team | undefined> {
+    const result = await db.update(teams)
+      .set(teamData)
+      .where(eq(teams.id, id))
       .returning();
       
     return result[0];
   }
 
+  async deleteTeam(id: number): Promise<boolean> {
+    // Сотрудники остаются без команды, подкоманды — без вышестоящей: ссылки обнуляются внешними ключами
+    const result = await db.delete(teams)
+      .where(eq(teams.id, id))
+      .returning({ id: teams.id });
+      
+    return result.length > 0;
+  }
+
+  // App settings methods
+  // Строка настроек создаётся при первом обращении со значениями по умолчанию
+  async getAppSettings(): Promise<AppSettings> {
+    const result = await db.select().from(appSettings).orderBy(asc(appSettings.id)).limit(1);
+    if (result[0]) return result[0];
+    
+    const created = await db.insert(appSettings).values({}).returning();
+    return created[0];
+  }
+
+  async updateAppSettings(settings: Partial<InsertAppSettings>): Promise<AppSettings> {
+    const current = await this.getAppSettings();
+    const result = await db.update(appSettings)
+      .set(settings)
+      .where(eq(appSettings.id, current.id))
+      .returning();
+    return result[0];
+  }
+
+  // Login protection methods
+  async getLoginThrottles(keys: string[]): Promise<LoginThrottle[]> {
+    if (keys.length === 0) return [];
+    return db.select().from(loginThrottles).where(inArray(loginThrottles.key, keys));
+  }
+
+  // Параллельные неудачи одного ключа ждут друг друга на блокировке строки, поэтому ни одна не теряется
+  async addLoginThrottleFailure(key: string, policy: LoginThrottlePolicy, now: Date): Promise<LoginThrottle> {
+    return db.transaction(async (tx) => {
+      // Строка без неудач нужна, чтобы первую неудачу тоже было на чём заблокировать
+      await tx.insert(loginThrottles)
+        .values({ key, failures: 0, lastFailureAt: now })
+        .onConflictDoNothing();
+      const [current] = await tx.select()
+        .from(loginThrottles)
+        .where(eq(loginThrottles.key, key))
+        .for("update");
+      
+      const [updated] = await tx.update(loginThrottles)
+        .set(addLoginFailure(policy, current, now))
+        .where(eq(loginThrottles.key, key))
+        .returning();
+      return updated;
+    });
+  }
+
+  async deleteLoginThrottle(key: string): Promise<boolean> {
+    const result = await db.delete(loginThrottles)
+      .where(eq(loginThrottles.key, key))
+      .returning({ key: loginThrottles.key });
+      
+    return result.length > 0;
+  }
+
+  async createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const result = await db.insert(loginAttempts).values(attempt).returning();
+    return result[0];
+  }
+
+  // Последние попытки входа, новые сначала; без userId — всех пользователей
+  async getLoginAttempts(limit: number, userId?: number): Promise<LoginAttempt[]> {
+    return db.select()
+      .from(loginAttempts)
+      .where(userId === undefined ? undefined : eq(loginAttempts.userId, userId))
+      .orderBy(desc(loginAttempts.createdAt), desc(loginAttempts.id))
+      .limit(limit);
+  }
+
+  // Two-factor methods
+  // Принимает шаг TOTP, только если он новее последнего принятого: защита от повторного использования кода
+  async claimTotpStep(userId: number, step: number): Promise<boolean> {
+    const result = await db.update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step)),
+      ))
+      .returning({ id: users.id });
+    return result.length > 0;
+  }
+
+  async getUnusedRecoveryCodes(userId: number): Promise<RecoveryCode[]> {
+    return db.select()
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+  }
+
+  // Новый набор кодов заменяет прежний целиком
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      if (codeHashes.length > 0) {
+        await tx.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+      }
+    });
+  }
+
+  // Код восстановления срабатывает один раз, даже при одновременных запросах
+  async useRecoveryCode(id: number): Promise<boolean> {
+    const result = await db.update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(eq(recoveryCodes.id, id), isNull(recoveryCodes.usedAt)))
+      .returning({ id: recoveryCodes.id });
+    return result.length > 0;
+  }
+
+  // API token methods
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return db.select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt), desc(apiTokens.id));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const result = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return result[0];
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const result = await db.insert(apiTokens).values(token).returning();
+    return result[0];
+  }
+
+  async touchApiToken(id: number, usedAt: Date): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: usedAt }).where(eq(apiTokens.id, id));
+  }
+
+  // Отозвать можно только свой токен
+  async deleteApiToken(id: number, userId: number): Promise<boolean> {
+    const result = await db.delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return result.length > 0;
+  }
+
   // Time entry methods
   async getTimeEntry(id: number): Promise<TimeEntry | undefined> {
     const result = await db.select().from(timeEntries).where(eq(timeEntries.id, id));
@@ -131,26 +475,55 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async createTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry> {
-    const result = await db.insert(timeEntries).values(entry).returning();
-    return result[0];
+  async getTimeEntriesByUserAndRange(userId: number, from: Date, to: Date): Promise<TimeEntry[]> {
+    const entries = await db.select()
+      .from(timeEntries)
+      .where(eq(timeEntries.userId, userId))
+      .orderBy(timeEntries.date);
+    
+    // Границы включительно, сравниваем по календарным дням
+    const fromDay = new Date(from.getFullYear(), from.getMonth(), from.getDate()).getTime();
+    const toDay = new Date(to.getFullYear(), to.getMonth(), to.getDate()).getTime();
+    return entries.filter(entry => {
+      const entryDate = new Date(entry.date);
+      const entryDay = new Date(entryDate.getFullYear(), entryDate.getMonth(), entryDate.getDate()).getTime();
+      return entryDay >= fromDay && entryDay <= toDay;
+    });
   }
 
-  async updateTimeEntry(id: number, entryData: Partial<InsertTimeEntry>): Promise<TimeEntry | undefined> {
-    const result = await db.update(timeEntries)
-      .set(entryData)
-      .where(eq(timeEntries.id, id))
-      .returning();
+  async createTimeEntry(entry: InsertTimeEntry, actorId: number | null): Promise<TimeEntry> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(timeEntries).values(entry).returning();
+      await writeAudit(tx, [buildAuditRecord("time_entry", created, actorId, undefined, created)]);
+      return created;
+    });
+  }
+
+  async updateTimeEntry(id: number, entryData: Partial<InsertTimeEntry>, actorId: number | null): Promise<TimeEntry | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(timeEntries).where(eq(timeEntries.id, id));
+      if (!before) return undefined;
       
-    return result[0];
+      const [updated] = await tx.update(timeEntries)
+        .set(entryData)
+        .where(eq(timeEntries.id, id))
+        .returning();
+      await writeAudit(tx, [buildAuditRecord("time_entry", updated, actorId, before, updated)]);
+      return updated;
+    });
   }
 
-  async deleteTimeEntry(id: number): Promise<boolean> {
-    const result = await db.delete(timeEntries)
-      .where(eq(timeEntries.id, id))
-      .returning({ id: timeEntries.id });
+  // Запись удаляется из таблицы, но её последнее состояние остаётся в журнале
+  async deleteTimeEntry(id: number, actorId: number | null): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(timeEntries)
+        .where(eq(timeEntries.id, id))
+        .returning();
+      if (!deleted) return false;
       
-    return result.length > 0;
+      await writeAudit(tx, [buildAuditRecord("time_entry", deleted, actorId, deleted, undefined)]);
+      return true;
+    });
   }
 
   // Monthly report methods
@@ -180,23 +553,274 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(monthlyReports.year), desc(monthlyReports.month));
   }
 
-  async createMonthlyReport(report: InsertMonthlyReport): Promise<MonthlyReport> {
-    const result = await db.insert(monthlyReports).values(report).returning();
+  // Отчёт за месяц один: если параллельный пересчёт уже создал его, возвращается существующий
+  async createMonthlyReport(report: InsertMonthlyReport, actorId: number | null): Promise<MonthlyReport> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(monthlyReports).values(report).onConflictDoNothing().returning();
+      if (!created) {
+        const [existing] = await tx.select().from(monthlyReports).where(and(
+          eq(monthlyReports.userId, report.userId),
+          eq(monthlyReports.year, report.year),
+          eq(monthlyReports.month, report.month),
+        ));
+        return existing;
+      }
+      await writeAudit(tx, [buildAuditRecord("monthly_report", created, actorId, undefined, created)]);
+      return created;
+    });
+  }
+
+  async updateMonthlyReport(id: number, reportData: Partial<InsertMonthlyReport>, actorId: number | null): Promise<MonthlyReport | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(monthlyReports).where(eq(monthlyReports.id, id));
+      if (!before) return undefined;
+      
+      const [updated] = await tx.update(monthlyReports)
+        .set(reportData)
+        .where(eq(monthlyReports.id, id))
+        .returning();
+      await writeAudit(tx, [buildAuditRecord("monthly_report", updated, actorId, before, updated)]);
+      return updated;
+    });
+  }
+
+  // Статус меняется вместе с записью в журнале и только из ожидаемого статуса:
+  // при одновременных действиях второе не выполняется
+  async changeMonthlyReportStatus(
+    id: number,
+    approval: MonthlyReportApproval,
+    change: Omit<InsertReportStatusChange, "reportId">
+  ): Promise<MonthlyReport | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(monthlyReports).where(eq(monthlyReports.id, id));
+      const [updated] = await tx.update(monthlyReports)
+        .set(approval)
+        .where(and(eq(monthlyReports.id, id), eq(monthlyReports.status, change.fromStatus)))
+        .returning();
+      if (!updated) return undefined;
+
+      await tx.insert(reportStatusChanges).values({ ...change, reportId: id });
+      await writeAudit(tx, [buildAuditRecord("monthly_report", updated, change.changedBy, before, updated)]);
+      return updated;
+    });
+  }
+
+  async getReportStatusChanges(reportId: number): Promise<ReportStatusChange[]> {
+    return db.select()
+      .from(reportStatusChanges)
+      .where(eq(reportStatusChanges.reportId, reportId))
+      .orderBy(asc(reportStatusChanges.changedAt), asc(reportStatusChanges.id));
+  }
+
+  // Client methods
+  async getClient(id: number): Promise<Client | undefined> {
+    const result = await db.select().from(clients).where(eq(clients.id, id));
     return result[0];
   }
 
-  async updateMonthlyReport(id: number, reportData: Partial<InsertMonthlyReport>): Promise<MonthlyReport | undefined> {
-    const result = await db.update(monthlyReports)
-      .set(reportData)
-      .where(eq(monthlyReports.id, id))
+  async getClientsByUser(userId: number): Promise<Client[]> {
+    return db.select()
+      .from(clients)
+      .where(eq(clients.userId, userId))
+      .orderBy(clients.name);
+  }
+
+  async createClient(client: InsertClient): Promise<Client> {
+    const result = await db.insert(clients).values(client).returning();
+    return result[0];
+  }
+
+  async updateClient(id: number, clientData: Partial<InsertClient>): Promise<Client | undefined> {
+    const result = await db.update(clients)
+      .set(clientData)
+      .where(eq(clients.id, id))
+      .returning();
+      
+    return result[0];
+  }
+
+  async deleteClient(id: number): Promise<boolean> {
+    // Проекты клиента остаются, ссылка на клиента обнуляется внешним ключом
+    const result = await db.delete(clients)
+      .where(eq(clients.id, id))
+      .returning({ id: clients.id });
+      
+    return result.length > 0;
+  }
+
+  // Project methods
+  async getProject(id: number): Promise<Project | undefined> {
+    const result = await db.select().from(projects).where(eq(projects.id, id));
+    return result[0];
+  }
+
+  async getProjectsByUser(userId: number): Promise<Project[]> {
+    return db.select()
+      .from(projects)
+      .where(eq(projects.userId, userId))
+      .orderBy(projects.name);
+  }
+
+  async createProject(project: InsertProject): Promise<Project> {
+    const result = await db.insert(projects).values(project).returning();
+    return result[0];
+  }
+
+  async updateProject(id: number, projectData: Partial<InsertProject>): Promise<Project | undefined> {
+    const result = await db.update(projects)
+      .set(projectData)
+      .where(eq(projects.id, id))
       .returning();
       
     return result[0];
   }
+
+  async deleteProject(id: number): Promise<boolean> {
+    // Записи проекта сохраняются без проекта (project_id обнуляется внешним ключом)
+    const result = await db.delete(projects)
+      .where(eq(projects.id, id))
+      .returning({ id: projects.id });
+      
+    return result.length > 0;
+  }
+
+  // Hourly rate methods
+  async getHourlyRate(id: number): Promise<HourlyRate | undefined> {
+    const result = await db.select().from(hourlyRates).where(eq(hourlyRates.id, id));
+    return result[0];
+  }
+
+  async getHourlyRatesByUser(userId: number): Promise<HourlyRate[]> {
+    return db.select()
+      .from(hourlyRates)
+      .where(eq(hourlyRates.userId, userId))
+      .orderBy(desc(hourlyRates.effectiveFrom));
+  }
+
+  async createHourlyRate(rate: InsertHourlyRate): Promise<HourlyRate> {
+    const result = await db.insert(hourlyRates).values(rate).returning();
+    return result[0];
+  }
+
+  async updateHourlyRate(id: number, rateData: Partial<InsertHourlyRate>): Promise<HourlyRate | undefined> {
+    const result = await db.update(hourlyRates)
+      .set(rateData)
+      .where(eq(hourlyRates.id, id))
+      .returning();
+      
+    return result[0];
+  }
+
+  async deleteHourlyRate(id: number): Promise<boolean> {
+    const result = await db.delete(hourlyRates)
+      .where(eq(hourlyRates.id, id))
+      .returning({ id: hourlyRates.id });
+      
+    return result.length > 0;
+  }
+
+  // Переоценка записей выполняется целиком или не выполняется вовсе
+  async updateTimeEntryRates(updates: { id: number; hourlyRate: number }[], actorId: number | null): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const update of updates) {
+        const [before] = await tx.select().from(timeEntries).where(eq(timeEntries.id, update.id));
+        const [updated] = await tx.update(timeEntries)
+          .set({ hourlyRate: update.hourlyRate })
+          .where(eq(timeEntries.id, update.id))
+          .returning();
+        if (updated) {
+          await writeAudit(tx, [buildAuditRecord("time_entry", updated, actorId, before, updated)]);
+        }
+      }
+    });
+  }
+
+  // Pay rule methods
+  async getPayRulesByUser(userId: number): Promise<PayRule[]> {
+    return db.select().from(payRules).where(eq(payRules.userId, userId));
+  }
+
+  // У пользователя одно правило каждого типа: повторное сохранение обновляет его
+  async upsertPayRule(rule: InsertPayRule): Promise<PayRule> {
+    const result = await db.insert(payRules)
+      .values(rule)
+      .onConflictDoUpdate({
+        target: [payRules.userId, payRules.kind],
+        set: {
+          enabled: rule.enabled,
+          mode: rule.mode,
+          value: rule.value,
+          windowStart: rule.windowStart,
+          windowEnd: rule.windowEnd,
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  // Running timer methods
+  async getRunningTimer(userId: number): Promise<RunningTimer | undefined> {
+    const result = await db.select().from(runningTimers).where(eq(runningTimers.userId, userId));
+    return result[0];
+  }
+
+  async createRunningTimer(timer: InsertRunningTimer): Promise<RunningTimer> {
+    const result = await db.insert(runningTimers).values(timer).returning();
+    return result[0];
+  }
+
+  async updateRunningTimer(id: number, timerData: Partial<InsertRunningTimer>): Promise<RunningTimer | undefined> {
+    const result = await db.update(runningTimers)
+      .set(timerData)
+      .where(eq(runningTimers.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteRunningTimer(id: number): Promise<boolean> {
+    const result = await db.delete(runningTimers)
+      .where(eq(runningTimers.id, id))
+      .returning({ id: runningTimers.id });
+      
+    return result.length > 0;
+  }
+
+  // Запись создаётся и таймер удаляется вместе, чтобы повторная остановка не создала дубликат
+  async completeRunningTimer(id: number, entry: InsertTimeEntry, actorId: number | null): Promise<TimeEntry> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(timeEntries).values(entry).returning();
+      await tx.delete(runningTimers).where(eq(runningTimers.id, id));
+      await writeAudit(tx, [buildAuditRecord("time_entry", created, actorId, undefined, created)]);
+      return created;
+    });
+  }
+
+  async createTimeEntries(entries: InsertTimeEntry[], actorId: number | null): Promise<TimeEntry[]> {
+    if (entries.length === 0) return [];
+    // Импорт целиком: либо все записи, либо ни одной
+    return db.transaction(async (tx) => {
+      const created = await tx.insert(timeEntries).values(entries).returning();
+      await writeAudit(tx, created.map(entry => buildAuditRecord("time_entry", entry, actorId, undefined, entry)));
+      return created;
+    });
+  }
+
+  // Audit methods
+  async getAuditLog(filter: AuditLogFilter): Promise<AuditLog[]> {
+    const conditions = [
+      filter.userId !== undefined ? eq(auditLog.userId, filter.userId) : undefined,
+      filter.entityType ? eq(auditLog.entityType, filter.entityType) : undefined,
+      filter.entityId !== undefined ? eq(auditLog.entityId, filter.entityId) : undefined,
+      filter.from ? gte(auditLog.createdAt, filter.from) : undefined,
+      filter.to ? lte(auditLog.createdAt, filter.to) : undefined,
+    ];
+    return db.select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(filter.limit);
+  }
 }
 
 // Initialize database storage
 export const storage = new DatabaseStorage();
-
-// Create default user if no users exist
-storage.initializeDefaultUser().catch(console.error);
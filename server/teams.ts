@@ -0,0 +1,100 @@
+import { type Team, type User } from "@shared/schema";
+import { canViewTeams, toTeamMember, type TeamOverview, type TeamWithMembers } from "@shared/teams";
+import { previewMonthlyReport } from "./reports";
+import { storage } from "./storage";
+
+/**
+ * Команды, которые видит пользователь: администратор — все, руководитель — свои
+ * вместе со всеми вложенными подкомандами, сотрудник — ни одной
+ */
+export async function getManagedTeams(user: User): Promise<Team[]> {
+  if (!canViewTeams(user.role)) return [];
+
+  const teams = await storage.getTeams();
+  if (user.role === "admin") return teams;
+
+  const managed = new Set(teams.filter(team => team.managerId === user.id).map(team => team.id));
+  // Подкоманды добавляются, пока находятся новые; цикл в иерархии не зацикливает обход
+  let added = true;
+  while (added) {
+    added = false;
+    for (const team of teams) {
+      if (team.parentId !== null && managed.has(team.parentId) && !managed.has(team.id)) {
+        managed.add(team.id);
+        added = true;
+      }
+    }
+  }
+
+  return teams.filter(team => managed.has(team.id));
+}
+
+// Сотрудники видимых команд, кроме самого руководителя
+async function getTeamUsers(user: User, teams: Team[]): Promise<User[]> {
+  const members = await storage.getUsersByTeams(teams.map(team => team.id));
+  return members.filter(member => member.id !== user.id);
+}
+
+/**
+ * Видимые команды с их сотрудниками
+ */
+export async function getTeamsWithMembers(user: User): Promise<TeamWithMembers[]> {
+  const teams = await getManagedTeams(user);
+  const members = await getTeamUsers(user, teams);
+  return teams.map(team => ({
+    ...team,
+    members: members.filter(member => member.teamId === team.id).map(toTeamMember),
+  }));
+}
+
+/**
+ * Сотрудник, данные которого может просматривать пользователь; undefined — нет доступа
+ */
+export async function findTeamMember(user: User, memberId: number): Promise<User | undefined> {
+  const teams = await getManagedTeams(user);
+  const members = await getTeamUsers(user, teams);
+  return members.find(member => member.id === memberId);
+}
+
+/**
+ * Сотрудник, табель которого может утвердить или отклонить пользователь: администратор — любой, кроме себя,
+ * руководитель — сотрудник своих команд; undefined — нет доступа
+ */
+export async function findReportReviewee(user: User, memberId: number): Promise<User | undefined> {
+  if (user.role === "admin") {
+    return memberId === user.id ? undefined : storage.getUser(memberId);
+  }
+  return findTeamMember(user, memberId);
+}
+
+/**
+ * Часы и переработка всех сотрудников видимых команд за месяц (month: 1-12)
+ */
+export async function buildTeamOverview(user: User, year: number, month: number): Promise<TeamOverview> {
+  const teams = await getManagedTeams(user);
+  const members = await getTeamUsers(user, teams);
+  // Обзор только читает данные: итоги пересчитываются, но не сохраняются
+  const reports = await Promise.all(members.map(member => previewMonthlyReport(member, year, month)));
+
+  return {
+    year,
+    month,
+    teams,
+    rows: members.map((member, index) => {
+      const report = reports[index];
+      return {
+        member: toTeamMember(member),
+        report: {
+          workDays: report.workDays,
+          workedMinutes: report.workedMinutes,
+          targetMinutes: report.targetMinutes,
+          overtimeMinutes: report.overtimeMinutes,
+          carriedToMinutes: report.carriedToMinutes,
+          vacationDays: report.vacationDays,
+          sickDays: report.sickDays,
+          status: report.status,
+        },
+      };
+    }),
+  };
+}
@@ -0,0 +1,134 @@
+import { type MonthlyReport, type TimeEntry } from "@shared/schema";
+import { isReportLocked } from "@shared/report-status";
+import { getBreakIntervals, getShiftInterval, intervalsOverlap, parseTimeToMinutes, calculateShiftMinutes, type BreakSegment } from "@shared/time";
+import { entryKindRules, hasRecordedTimes, type EntryKind } from "@shared/entry-kinds";
+import { storage } from "./storage";
+
+interface ShiftCandidate {
+  date: Date;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Ищет запись пользователя, пересекающуюся по времени с новой сменой.
+ * Проверяются соседние дни, так как ночная смена переходит через полночь.
+ */
+export async function findOverlappingEntry(
+  userId: number,
+  candidate: ShiftCandidate,
+  excludeId?: number
+): Promise<TimeEntry | undefined> {
+  // Отсутствия без времени не пересекаются со сменами
+  if (!hasRecordedTimes(candidate)) return undefined;
+
+  const date = new Date(candidate.date);
+  const entries = await storage.getTimeEntriesByUserAndRange(
+    userId,
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1),
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+  );
+
+  const interval = getShiftInterval(date, candidate.startTime, candidate.endTime);
+
+  return entries.find(entry => {
+    if (entry.id === excludeId || !hasRecordedTimes(entry)) return false;
+    return intervalsOverlap(interval, getShiftInterval(entry.date, entry.startTime, entry.endTime, date));
+  });
+}
+
+// Сообщение об ошибке для пересекающихся записей
+export function formatOverlapMessage(entry: Pick<TimeEntry, "date" | "startTime" | "endTime">): string {
+  const date = new Date(entry.date);
+  const day = date.getDate().toString().padStart(2, '0');
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  return `Time entry overlaps with an existing entry on ${day}.${month}.${date.getFullYear()} from ${entry.startTime} to ${entry.endTime}`;
+}
+
+/**
+ * Отправленные и утверждённые месячные отчёты пользователя: записи этих месяцев менять нельзя
+ */
+export async function getLockedReports(userId: number): Promise<MonthlyReport[]> {
+  const reports = await storage.getMonthlyReportsByUser(userId);
+  return reports.filter(report => isReportLocked(report.status));
+}
+
+// Закрытый отчёт месяца, к которому относится дата записи
+export function findLockedReport(reports: MonthlyReport[], date: Date | string): MonthlyReport | undefined {
+  const value = new Date(date);
+  return reports.find(report => report.year === value.getFullYear() && report.month === value.getMonth() + 1);
+}
+
+/**
+ * Ищет среди дат записей ту, что попадает в отправленный или утверждённый месяц
+ */
+export async function findLockedMonth(userId: number, ...dates: (Date | string)[]): Promise<MonthlyReport | undefined> {
+  const reports = await getLockedReports(userId);
+  for (const date of dates) {
+    const report = findLockedReport(reports, date);
+    if (report) return report;
+  }
+  return undefined;
+}
+
+// Сообщение об ошибке для записей закрытого месяца
+export function formatLockedMessage(report: Pick<MonthlyReport, "year" | "month" | "status">): string {
+  const month = report.month.toString().padStart(2, '0');
+  return `Timesheet for ${month}.${report.year} is ${report.status} and locked for editing; reopen it first`;
+}
+
+/**
+ * Проверяет, что перерывы лежат внутри смены и не пересекаются между собой
+ */
+export function validateBreaks(startTime: string, endTime: string, breaks: BreakSegment[]): string | null {
+  if (breaks.length === 0) return null;
+  if (startTime === endTime) {
+    return "Breaks can only be recorded for entries with start and end times";
+  }
+
+  const shiftStart = parseTimeToMinutes(startTime);
+  const shiftEnd = shiftStart + calculateShiftMinutes(startTime, endTime);
+  const intervals = getBreakIntervals(startTime, endTime, breaks)
+    .sort((a, b) => a.start - b.start);
+
+  for (let i = 0; i < intervals.length; i++) {
+    const interval = intervals[i];
+    if (interval.end <= interval.start) {
+      return "Break end time must be after its start time";
+    }
+    if (interval.start < shiftStart || interval.end > shiftEnd) {
+      return "Breaks must be within the shift";
+    }
+    if (i > 0 && intervalsOverlap(intervals[i - 1], interval)) {
+      return "Breaks must not overlap";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет время записи по правилам её типа: отсутствия хранятся как 00:00–00:00 без перерывов,
+ * работа требует время начала и конца, а половинным бывает только день, исключаемый из нормы
+ */
+export function validateEntryKind(entry: {
+  kind: EntryKind;
+  startTime: string;
+  endTime: string;
+  breaks: BreakSegment[];
+  halfDay: boolean;
+}): string | null {
+  const rule = entryKindRules[entry.kind];
+  if (!rule.hasTimes) {
+    if (entry.startTime !== "00:00" || entry.endTime !== "00:00" || entry.breaks.length > 0) {
+      return `Entries of kind ${entry.kind} must not have times or breaks`;
+    }
+  } else if (!rule.fullDayIfNoTimes && !hasRecordedTimes(entry)) {
+    return `Entries of kind ${entry.kind} require start and end times`;
+  }
+
+  if (entry.halfDay && !rule.reducesTarget) {
+    return `Entries of kind ${entry.kind} cannot be half-day`;
+  }
+  return null;
+}
@@ -0,0 +1,38 @@
+import { generateTotp, type TotpAlgorithm } from "./totp";
+
+// Проверка TOTP по контрольным значениям RFC 6238 (приложение B): npm test
+
+// Ключи из RFC: "12345678901234567890", повторённое до длины блока хеш-функции
+const secrets: Record<TotpAlgorithm, Buffer> = {
+  sha1: Buffer.from("12345678901234567890"),
+  sha256: Buffer.from("12345678901234567890123456789012"),
+  sha512: Buffer.from("1234567890123456789012345678901234567890123456789012345678901234"),
+};
+
+// Время в секундах от начала эпохи и восьмизначные коды для SHA1, SHA256 и SHA512
+const vectors: [number, Record<TotpAlgorithm, string>][] = [
+  [59, { sha1: "94287082", sha256: "46119246", sha512: "90693936" }],
+  [1111111109, { sha1: "07081804", sha256: "68084774", sha512: "25091201" }],
+  [1111111111, { sha1: "14050471", sha256: "67062674", sha512: "99943326" }],
+  [1234567890, { sha1: "89005924", sha256: "91819424", sha512: "93441116" }],
+  [2000000000, { sha1: "69279037", sha256: "90698825", sha512: "38618901" }],
+  [20000000000, { sha1: "65353130", sha256: "77737706", sha512: "47863826" }],
+];
+
+let failures = 0;
+for (const [seconds, codes] of vectors) {
+  for (const algorithm of Object.keys(secrets) as TotpAlgorithm[]) {
+    const code = generateTotp(secrets[algorithm], new Date(seconds * 1000), { algorithm, digits: 8 });
+    if (code !== codes[algorithm]) {
+      failures++;
+      console.error(`FAIL ${algorithm} T=${seconds}: expected ${codes[algorithm]}, got ${code}`);
+    }
+  }
+}
+
+const total = vectors.length * Object.keys(secrets).length;
+if (failures > 0) {
+  console.error(`${failures} of ${total} RFC 6238 vectors failed`);
+  process.exit(1);
+}
+console.log(`All ${total} RFC 6238 vectors passed`);
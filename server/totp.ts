@@ -0,0 +1,99 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Одноразовые пароли HOTP (RFC 4226) и TOTP (RFC 6238) без внешних сервисов
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export type TotpAlgorithm = "sha1" | "sha256" | "sha512";
+
+export interface TotpOptions {
+  algorithm?: TotpAlgorithm;
+  digits?: number;
+  period?: number; // Длина шага в секундах
+}
+
+export function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Разбирает base32 без учёта регистра, пробелов и знаков "="; null — недопустимый символ
+ */
+export function decodeBase32(input: string): Buffer | null {
+  const clean = input.replace(/[\s=]/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) return null;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateHotp(secret: Buffer, counter: number, { algorithm = "sha1", digits = 6 }: TotpOptions = {}): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac(algorithm, secret).update(message).digest();
+  // Динамическое усечение: 31 бит начиная со смещения из последнего полубайта
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+  return code.toString().padStart(digits, "0");
+}
+
+export function getTotpStep(time: Date, period = 30): number {
+  return Math.floor(time.getTime() / 1000 / period);
+}
+
+export function generateTotp(secret: Buffer, time: Date, options: TotpOptions = {}): string {
+  return generateHotp(secret, getTotpStep(time, options.period), options);
+}
+
+/**
+ * Шаг, которому соответствует код, с допуском window шагов на расхождение часов; null — код не подходит
+ */
+export function findTotpStep(secret: Buffer, code: string, time: Date, window = 1, options: TotpOptions = {}): number | null {
+  const current = getTotpStep(time, options.period);
+  const supplied = Buffer.from(code);
+  for (let step = current - window; step <= current + window; step++) {
+    const expected = Buffer.from(generateHotp(secret, step, options));
+    if (expected.length === supplied.length && timingSafeEqual(expected, supplied)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// 160 бит, как рекомендует RFC 4226 для HMAC-SHA1
+export function generateTotpSecret(): string {
+  return encodeBase32(randomBytes(20));
+}
+
+/**
+ * Ссылка otpauth:// для приложения-аутентификатора; её же кодирует QR-код
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({ secret, issuer, algorithm: "SHA1", digits: "6", period: "30" });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,113 @@
+import { createHash, randomBytes } from "crypto";
+import QRCode from "qrcode";
+import { type User } from "@shared/schema";
+import { RECOVERY_CODE_COUNT, type TwoFactorSetup, type TwoFactorStatus } from "@shared/two-factor";
+import { buildOtpauthUri, decodeBase32, encodeBase32, findTotpStep, generateTotpSecret } from "./totp";
+import { storage } from "./storage";
+
+// Название сервиса в приложении-аутентификаторе
+const TOTP_ISSUER = "Time Tracker";
+
+const TOTP_CODE_PATTERN = /^\d{6}$/;
+
+// Коды восстановления длинные и случайные, поэтому соль не нужна; регистр и дефисы не важны
+function hashRecoveryCode(code: string): string {
+  const normalized = code.replace(/[\s-]/g, "").toUpperCase();
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+// XXXXX-XXXXX: 50 случайных бит в base32
+function generateRecoveryCode(): string {
+  const raw = encodeBase32(randomBytes(7)).slice(0, 10);
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+async function issueRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  await storage.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+// Шаг TOTP, которому соответствует код; null — код не подходит
+function matchTotpCode(secret: string, code: string): number | null {
+  const key = decodeBase32(secret);
+  if (!key || !TOTP_CODE_PATTERN.test(code)) return null;
+  return findTotpStep(key, code, new Date());
+}
+
+/**
+ * Новый секрет для подключения приложения: ссылка otpauth:// и QR-код с ней
+ */
+export async function createTwoFactorSetup(user: User): Promise<TwoFactorSetup> {
+  const secret = generateTotpSecret();
+  const otpauthUri = buildOtpauthUri(secret, user.username, TOTP_ISSUER);
+  const qrCode = await QRCode.toDataURL(otpauthUri);
+  return { secret, otpauthUri, qrCode };
+}
+
+/**
+ * Включение после проверки первого кода из приложения; возвращает коды восстановления или причину отказа
+ */
+export async function enableTwoFactor(user: User, secret: string, code: string): Promise<string[] | string> {
+  if (user.totpSecret) {
+    return "Two-factor authentication is already enabled";
+  }
+  const step = matchTotpCode(secret, code);
+  if (step === null) {
+    return "Invalid code";
+  }
+
+  await storage.updateUser(user.id, { totpSecret: secret, totpLastUsedStep: step }, user.id);
+  return issueRecoveryCodes(user.id);
+}
+
+/**
+ * Проверка второго шага: код из приложения или неиспользованный код восстановления.
+ * Принятый код больше не сработает
+ */
+export async function verifyTwoFactorCode(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret) return false;
+
+  if (TOTP_CODE_PATTERN.test(code)) {
+    const step = matchTotpCode(user.totpSecret, code);
+    return step !== null && storage.claimTotpStep(user.id, step);
+  }
+
+  const hash = hashRecoveryCode(code);
+  const recoveryCode = (await storage.getUnusedRecoveryCodes(user.id)).find(item => item.codeHash === hash);
+  return !!recoveryCode && storage.useRecoveryCode(recoveryCode.id);
+}
+
+/**
+ * Выключение подтверждается кодом; строка — причина отказа
+ */
+export async function disableTwoFactor(user: User, code: string): Promise<string | undefined> {
+  if (!user.totpSecret) {
+    return "Two-factor authentication is not enabled";
+  }
+  if (!(await verifyTwoFactorCode(user, code))) {
+    return "Invalid code";
+  }
+
+  await storage.updateUser(user.id, { totpSecret: null, totpLastUsedStep: null }, user.id);
+  await storage.replaceRecoveryCodes(user.id, []);
+  return undefined;
+}
+
+/**
+ * Новый набор кодов восстановления взамен прежнего; подтверждается кодом
+ */
+export async function regenerateRecoveryCodes(user: User, code: string): Promise<string[] | string> {
+  if (!user.totpSecret) {
+    return "Two-factor authentication is not enabled";
+  }
+  if (!(await verifyTwoFactorCode(user, code))) {
+    return "Invalid code";
+  }
+  return issueRecoveryCodes(user.id);
+}
+
+export async function getTwoFactorStatus(user: User): Promise<TwoFactorStatus> {
+  const codes = user.totpSecret ? await storage.getUnusedRecoveryCodes(user.id) : [];
+  return { enabled: user.totpSecret !== null, recoveryCodesLeft: codes.length };
+}
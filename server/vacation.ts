@@ -0,0 +1,11 @@
+import { type User } from "@shared/schema";
+import { calculateVacationBalance, type VacationBalance } from "@shared/vacation";
+import { storage } from "./storage";
+
+/**
+ * Баланс отпуска пользователя за год; для переноса остатка нужны записи всех прошлых лет
+ */
+export async function getVacationBalance(user: User, year: number): Promise<VacationBalance> {
+  const entries = await storage.getTimeEntriesByUser(user.id);
+  return calculateVacationBalance(entries, user, year);
+}
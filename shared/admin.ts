@@ -0,0 +1,89 @@
+// Управление пользователями: администратор создаёт, отключает и настраивает учётные записи
+
+import { z } from "zod";
+import { insertTeamSchema, userSettingsUpdateSchema, type User } from "./schema";
+import { userRoles, type UserRole } from "./teams";
+
+export function canManageUsers(role: UserRole): boolean {
+  return role === "admin";
+}
+
+// Данные пользователя в консоли администратора: без пароля и секретов
+export type AdminUser = Pick<
+  User,
+  | "id" | "username" | "fullName" | "email" | "position" | "role" | "teamId"
+  | "isActive" | "mustChangePassword" | "workHoursPerDay" | "workDays" | "breakMinutes"
+  | "autoBreak" | "autoBreakAfterMinutes" | "overtimeCapHours" | "overtimeExpiryMonths"
+  | "vacationDaysPerYear" | "vacationCarryOverDays"
+>;
+
+export function toAdminUser(user: User): AdminUser {
+  return {
+    id: user.id,
+    username: user.username,
+    fullName: user.fullName,
+    email: user.email,
+    position: user.position,
+    role: user.role,
+    teamId: user.teamId,
+    isActive: user.isActive,
+    mustChangePassword: user.mustChangePassword,
+    workHoursPerDay: user.workHoursPerDay,
+    workDays: user.workDays,
+    breakMinutes: user.breakMinutes,
+    autoBreak: user.autoBreak,
+    autoBreakAfterMinutes: user.autoBreakAfterMinutes,
+    overtimeCapHours: user.overtimeCapHours,
+    overtimeExpiryMonths: user.overtimeExpiryMonths,
+    vacationDaysPerYear: user.vacationDaysPerYear,
+    vacationCarryOverDays: user.vacationCarryOverDays,
+  };
+}
+
+// Рабочие дни через запятую: 1 = понедельник, 7 = воскресенье, без повторов
+const workDaysSchema = z.string()
+  .regex(/^[1-7](,[1-7])*$/, "Work days must be a comma-separated list of days 1-7")
+  .refine((value) => new Set(value.split(",")).size === value.split(",").length, {
+    message: "Work days must not repeat",
+  });
+
+// Норму и рабочие дни задаёт только администратор; перерыв, отпуск и перенос переработки — и сам пользователь в профиле
+export const adminWorkScheduleSchema = userSettingsUpdateSchema.required().strip().extend({
+  workHoursPerDay: z.number().int().min(1).max(24),
+  workDays: workDaysSchema,
+});
+
+export const adminUserUpdateSchema = adminWorkScheduleSchema.extend({
+  role: z.enum(userRoles),
+  teamId: z.number().int().positive().nullable(),
+}).partial();
+
+export const adminUserCreateSchema = adminWorkScheduleSchema.partial().extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  fullName: z.string().trim().min(1, "Full name is required").max(200),
+  email: z.string().trim().email().nullable().optional(),
+  position: z.string().trim().max(200).nullable().optional(),
+  role: z.enum(userRoles).default("employee"),
+  teamId: z.number().int().positive().nullable().optional(),
+});
+
+// Команда: название, руководитель и вышестоящая команда
+export const adminTeamSchema = insertTeamSchema.strict();
+
+export const adminTeamUpdateSchema = adminTeamSchema.partial();
+
+export const appSettingsUpdateSchema = z.object({
+  registrationEnabled: z.boolean(),
+}).partial();
+
+export type AdminUserUpdate = z.infer<typeof adminUserUpdateSchema>;
+export type AdminUserCreate = z.input<typeof adminUserCreateSchema>;
+export type AdminTeam = z.infer<typeof adminTeamSchema>;
+export type AdminTeamUpdate = z.infer<typeof adminTeamUpdateSchema>;
+export type AppSettingsUpdate = z.infer<typeof appSettingsUpdateSchema>;
+
+// Ответ на создание пользователя и сброс пароля: временный пароль показывается один раз
+export interface AdminPasswordResult {
+  user: AdminUser;
+  temporaryPassword: string;
+}
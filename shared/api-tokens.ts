@@ -0,0 +1,38 @@
+// Личные токены доступа для скриптов и интеграций: передаются в заголовке Authorization: Bearer
+// и дают доступ только к маршрутам своих областей
+
+import { z } from "zod";
+import type { ApiToken } from "./schema";
+
+export const apiTokenScopes = ["entries:read", "entries:write", "reports:read"] as const;
+
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+// Префикс помогает узнать токен в скриптах и в утёкших логах
+export const API_TOKEN_PREFIX = "tt_";
+
+export const apiTokenExpiryDays = [7, 30, 90, 365] as const;
+
+export const apiTokenCreateSchema = z.object({
+  name: z.string().trim().min(1, "Token name is required").max(100),
+  scopes: z.array(z.enum(apiTokenScopes))
+    .min(1, "Select at least one scope")
+    .refine((scopes) => new Set(scopes).size === scopes.length, { message: "Scopes must not repeat" }),
+  expiresInDays: z.number().int().min(1).max(365),
+});
+
+export type ApiTokenCreate = z.infer<typeof apiTokenCreateSchema>;
+
+// Токен в списке: без хеша, узнаётся по названию и первым символам
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+
+export function toPublicApiToken(token: ApiToken): PublicApiToken {
+  const { tokenHash, ...rest } = token;
+  return rest;
+}
+
+// Ответ на создание: сам токен показывается только один раз
+export interface CreatedApiToken {
+  token: string;
+  apiToken: PublicApiToken;
+}
@@ -0,0 +1,64 @@
+// Журнал изменений: кто, когда и что изменил в записях времени, месячных отчётах и настройках пользователя.
+// Строки журнала только добавляются, поэтому история остаётся и после удаления записи
+
+import type { AuditLog } from "./schema";
+
+export const auditEntityTypes = ["time_entry", "monthly_report", "user"] as const;
+
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+export const auditActions = ["create", "update", "delete"] as const;
+
+export type AuditAction = typeof auditActions[number];
+
+export type AuditValues = Record<string, unknown>;
+
+// Значения этих полей пользователя в журнал не копируются: секреты и громоздкое изображение.
+// Видно только, что поле изменилось
+export const auditRedactedUserFields = ["password", "totpSecret", "totpLastUsedStep", "calendarToken", "profileImage"];
+
+export const AUDIT_REDACTED_VALUE = "***";
+
+// Даты становятся строками ISO — так же, как их вернёт jsonb
+function toAuditValues(row: object, redactedFields: string[]): AuditValues {
+  const values: AuditValues = JSON.parse(JSON.stringify(row));
+  for (const field of redactedFields) {
+    if (field in values && values[field] !== null) {
+      values[field] = AUDIT_REDACTED_VALUE;
+    }
+  }
+  return values;
+}
+
+export interface AuditChange {
+  action: AuditAction;
+  before: AuditValues | null;
+  after: AuditValues | null;
+}
+
+/**
+ * Изменение для журнала: при создании и удалении — строка целиком, при правке — только изменившиеся поля.
+ * null — значения не изменились, записывать нечего
+ */
+export function buildAuditChange(before: object | undefined, after: object | undefined, redactedFields: string[] = []): AuditChange | null {
+  if (!before && !after) return null;
+  if (!before) return { action: "create", before: null, after: toAuditValues(after!, redactedFields) };
+  if (!after) return { action: "delete", before: toAuditValues(before, redactedFields), after: null };
+
+  const rawBefore: AuditValues = JSON.parse(JSON.stringify(before));
+  const rawAfter: AuditValues = JSON.parse(JSON.stringify(after));
+  const changedFields = Object.keys(rawAfter)
+    .filter(field => JSON.stringify(rawBefore[field]) !== JSON.stringify(rawAfter[field]));
+  if (changedFields.length === 0) return null;
+
+  const pick = (values: AuditValues) => toAuditValues(
+    Object.fromEntries(changedFields.map(field => [field, values[field] ?? null])),
+    redactedFields,
+  );
+  return { action: "update", before: pick(rawBefore), after: pick(rawAfter) };
+}
+
+// Запись журнала с именем того, кто внёс изменение; null — изменение внесла система
+export interface AuditLogItem extends AuditLog {
+  actorName: string | null;
+}
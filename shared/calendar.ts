@@ -0,0 +1,138 @@
+// Производственный календарь: рабочие дни с учётом государственных праздников Чехии
+// (zákon č. 245/2000 Sb., o státních svátcích, o ostatních svátcích, o významných dnech a o dnech pracovního klidu)
+
+export interface PublicHoliday {
+  date: Date;
+  name: string;
+}
+
+interface FixedHoliday {
+  month: number; // 1-12
+  day: number;
+  name: string;
+  since?: number; // Первый год, с которого день является выходным; раньше день считается рабочим
+}
+
+const FIXED_HOLIDAYS: FixedHoliday[] = [
+  { month: 1, day: 1, name: "Den obnovy samostatného českého státu, Nový rok" },
+  { month: 5, day: 1, name: "Svátek práce" },
+  { month: 5, day: 8, name: "Den vítězství" },
+  { month: 7, day: 5, name: "Den slovanských věrozvěstů Cyrila a Metoděje" },
+  { month: 7, day: 6, name: "Den upálení mistra Jana Husa" },
+  // Выходными стали по закону 245/2000 Sb., действующему с августа 2000 года
+  { month: 9, day: 28, name: "Den české státnosti", since: 2000 },
+  { month: 10, day: 28, name: "Den vzniku samostatného československého státu" },
+  { month: 11, day: 17, name: "Den boje za svobodu a demokracii", since: 2000 },
+  { month: 12, day: 24, name: "Štědrý den" },
+  { month: 12, day: 25, name: "1. svátek vánoční" },
+  { month: 12, day: 26, name: "2. svátek vánoční" },
+];
+
+export const DEFAULT_WORK_DAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Дата Пасхального воскресенья по григорианскому календарю
+ * (анонимный григорианский алгоритм Мийса/Джонса/Батчера)
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function toDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+const holidayCache = new Map<number, Map<string, PublicHoliday>>();
+
+function getHolidayMap(year: number): Map<string, PublicHoliday> {
+  let map = holidayCache.get(year);
+  if (map) return map;
+
+  map = new Map();
+  for (const holiday of FIXED_HOLIDAYS) {
+    if (holiday.since && year < holiday.since) continue;
+    const date = new Date(year, holiday.month - 1, holiday.day);
+    map.set(toDateKey(date), { date, name: holiday.name });
+  }
+
+  // Подвижные праздники: Великая пятница (с 2016 года) и Пасхальный понедельник
+  const easter = getEasterSunday(year);
+  if (year >= 2016) {
+    const goodFriday = addDays(easter, -2);
+    map.set(toDateKey(goodFriday), { date: goodFriday, name: "Velký pátek" });
+  }
+  const easterMonday = addDays(easter, 1);
+  map.set(toDateKey(easterMonday), { date: easterMonday, name: "Velikonoční pondělí" });
+
+  holidayCache.set(year, map);
+  return map;
+}
+
+export function getPublicHolidays(year: number): PublicHoliday[] {
+  return Array.from(getHolidayMap(year).values())
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export function getPublicHoliday(date: Date): PublicHoliday | undefined {
+  return getHolidayMap(date.getFullYear()).get(toDateKey(date));
+}
+
+export function isPublicHoliday(date: Date): boolean {
+  return getPublicHoliday(date) !== undefined;
+}
+
+/**
+ * Разбирает настройку пользователя "1,2,3,4,5" (1 = понедельник, 7 = воскресенье)
+ */
+export function parseWorkDays(value: string | null | undefined): number[] {
+  if (!value) return DEFAULT_WORK_DAYS;
+  const days = value
+    .split(',')
+    .map(part => parseInt(part.trim(), 10))
+    .filter(day => day >= 1 && day <= 7);
+  return days.length > 0 ? days : DEFAULT_WORK_DAYS;
+}
+
+export function getIsoDayOfWeek(date: Date): number {
+  return date.getDay() === 0 ? 7 : date.getDay();
+}
+
+export function isWorkingDay(date: Date, workDays: number[] = DEFAULT_WORK_DAYS): boolean {
+  return workDays.includes(getIsoDayOfWeek(date)) && !isPublicHoliday(date);
+}
+
+/**
+ * Количество рабочих дней в месяце (month: 1-12) с учётом праздников
+ */
+export function countWorkingDays(year: number, month: number, workDays: number[] = DEFAULT_WORK_DAYS): number {
+  const daysInMonth = new Date(year, month, 0).getDate();
+  let count = 0;
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    if (isWorkingDay(new Date(year, month - 1, day), workDays)) {
+      count++;
+    }
+  }
+
+  return count;
+}
@@ -0,0 +1,142 @@
+// Типы записей рабочего времени и правила их учёта в месячном отчёте
+
+import { calculateShiftDurations, type BreakSegment, type BreakSettings, type ShiftDurations } from "./time";
+
+export const entryKinds = [
+  "work",
+  "vacation",
+  "sick_leave",
+  "public_holiday",
+  "unpaid_leave",
+  "business_trip",
+  "day_off",
+  "time_off_in_lieu",
+] as const;
+
+export type EntryKind = typeof entryKinds[number];
+
+export interface EntryKindRule {
+  hasTimes: boolean; // Вводится ли время начала и конца
+  countsAsWorked: boolean; // Время записи идёт в отработанные минуты и оплачивается по ставке
+  fullDayIfNoTimes: boolean; // Без указанного времени засчитывается полный рабочий день
+  reducesTarget: boolean; // Рабочий день исключается из нормы (targetMinutes)
+  countsAsVacation: boolean; // Рабочий день учитывается в vacationDays
+  countsAsSickDay: boolean; // Рабочий день учитывается в sickDays
+  drawsOvertime: boolean; // Рабочий день списывается с накопленной переработки (отгул)
+}
+
+export const entryKindRules: Record<EntryKind, EntryKindRule> = {
+  work: {
+    hasTimes: true,
+    countsAsWorked: true,
+    fullDayIfNoTimes: false,
+    reducesTarget: false,
+    countsAsVacation: false,
+    countsAsSickDay: false,
+    drawsOvertime: false,
+  },
+  vacation: {
+    hasTimes: false,
+    countsAsWorked: false,
+    fullDayIfNoTimes: false,
+    reducesTarget: true,
+    countsAsVacation: true,
+    countsAsSickDay: false,
+    drawsOvertime: false,
+  },
+  sick_leave: {
+    hasTimes: false,
+    countsAsWorked: false,
+    fullDayIfNoTimes: false,
+    reducesTarget: true,
+    countsAsVacation: false,
+    countsAsSickDay: true,
+    drawsOvertime: false,
+  },
+  // Праздники из календаря уже исключены из нормы; тип нужен для дней, которых нет в календаре
+  public_holiday: {
+    hasTimes: false,
+    countsAsWorked: false,
+    fullDayIfNoTimes: false,
+    reducesTarget: true,
+    countsAsVacation: false,
+    countsAsSickDay: false,
+    drawsOvertime: false,
+  },
+  unpaid_leave: {
+    hasTimes: false,
+    countsAsWorked: false,
+    fullDayIfNoTimes: false,
+    reducesTarget: true,
+    countsAsVacation: false,
+    countsAsSickDay: false,
+    drawsOvertime: false,
+  },
+  business_trip: {
+    hasTimes: true,
+    countsAsWorked: true,
+    fullDayIfNoTimes: true,
+    reducesTarget: false,
+    countsAsVacation: false,
+    countsAsSickDay: false,
+    drawsOvertime: false,
+  },
+  // Выходной по собственному желанию: норма не уменьшается, недоработка идёт в переработку со знаком минус
+  day_off: {
+    hasTimes: false,
+    countsAsWorked: false,
+    fullDayIfNoTimes: false,
+    reducesTarget: false,
+    countsAsVacation: false,
+    countsAsSickDay: false,
+    drawsOvertime: false,
+  },
+  // Отгул за переработку: день исключается из нормы, а его часы списываются с остатка переработки
+  time_off_in_lieu: {
+    hasTimes: false,
+    countsAsWorked: false,
+    fullDayIfNoTimes: false,
+    reducesTarget: true,
+    countsAsVacation: false,
+    countsAsSickDay: false,
+    drawsOvertime: true,
+  },
+};
+
+// Заметки, которыми старая форма добавления кодировала отсутствия
+export const legacyAbsenceNotes: Record<string, EntryKind> = {
+  "Nešel jsem do práce.": "unpaid_leave",
+  "Volný den": "day_off",
+  "Cesta": "business_trip",
+};
+
+export function getEntryKindRule(kind: string | null | undefined): EntryKindRule {
+  return entryKindRules[(kind as EntryKind) ?? "work"] ?? entryKindRules.work;
+}
+
+/**
+ * Указано ли у записи время; отсутствия хранятся как 00:00–00:00
+ */
+export function hasRecordedTimes(entry: { startTime: string; endTime: string }): boolean {
+  return entry.startTime !== entry.endTime;
+}
+
+/**
+ * Доля рабочего дня, которую покрывает отсутствие: 0,5 для половинного дня
+ */
+export function getAbsenceDayFraction(entry: { halfDay?: boolean | null }): number {
+  return entry.halfDay ? 0.5 : 1;
+}
+
+/**
+ * Брутто, перерыв и нетто записи с учётом автоперерыва; отсутствия и записи без времени дают нули
+ */
+export function getEntryDurations(
+  entry: { kind: string; startTime: string; endTime: string; breaks?: BreakSegment[] | null },
+  settings?: BreakSettings
+): ShiftDurations {
+  if (!getEntryKindRule(entry.kind).countsAsWorked || !hasRecordedTimes(entry)) {
+    return { grossMinutes: 0, breakMinutes: 0, netMinutes: 0 };
+  }
+  return calculateShiftDurations(entry.startTime, entry.endTime, entry.breaks ?? [], settings);
+}
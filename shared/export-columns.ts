@@ -0,0 +1,137 @@
+// Колонки табеля, общие для PDF, Excel и CSV: набор колонок определяется параметрами экспорта,
+// поэтому все три формата всегда выводят одни и те же данные
+
+import { type TimeEntry } from "./schema";
+import { getEntryDurations, hasRecordedTimes } from "./entry-kinds";
+import { type EntryPay } from "./pay";
+import { type BreakSettings } from "./time";
+import { findProject, getProjectLabel, type ProjectCatalog } from "./projects";
+import {
+  describeEntry,
+  formatDate,
+  formatMinutesToHours,
+  formatShiftEnd,
+  getDayOfWeekName,
+  getEntryKindLabel,
+  type Translate,
+} from "./format";
+
+export interface ExportOptions {
+  includeProfile: boolean; // Блок с именем, должностью и контактом
+  includeNotes: boolean; // Колонка заметок
+  includeSalary: boolean; // Колонки ставки и оплаты, итоги оплаты
+  includeProjects: boolean; // Колонка проекта и итоги по проектам
+  includeActions: boolean; // Отдельная колонка типа записи (работа, отпуск, больничный…); без заметок выводится всегда
+}
+
+export const exportColumnIds = [
+  "date",
+  "weekday",
+  "kind",
+  "notes",
+  "startTime",
+  "endTime",
+  "break",
+  "hours",
+  "rate",
+  "pay",
+  "project",
+] as const;
+
+export type ExportColumnId = typeof exportColumnIds[number];
+
+export interface ExportColumn {
+  id: ExportColumnId;
+  header: string;
+  width: number; // Ширина в символах: колонка Excel, доля ширины таблицы в PDF
+  value: (entry: TimeEntry) => string;
+}
+
+// Данные, из которых берутся значения колонок
+export interface ExportColumnSource extends ProjectCatalog {
+  user: BreakSettings;
+  entryPay: EntryPay[];
+}
+
+const columnWidths: Record<ExportColumnId, number> = {
+  date: 11,
+  weekday: 5,
+  kind: 14,
+  notes: 30,
+  startTime: 7,
+  endTime: 10,
+  break: 8,
+  hours: 8,
+  rate: 10,
+  pay: 11,
+  project: 22,
+};
+
+// Колонки, которые выводятся при указанных параметрах
+function isColumnIncluded(id: ExportColumnId, options: ExportOptions): boolean {
+  switch (id) {
+    // Без заметок тип отсутствия выводить больше негде, поэтому колонка типа остаётся
+    case "kind":
+      return options.includeActions || !options.includeNotes;
+    case "notes":
+      return options.includeNotes;
+    case "rate":
+    case "pay":
+      return options.includeSalary;
+    case "project":
+      return options.includeProjects;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Колонки табеля с заголовками и значениями для записи
+ */
+export function getExportColumns(source: ExportColumnSource, options: ExportOptions, t: Translate): ExportColumn[] {
+  const payByEntry = new Map(source.entryPay.map(item => [item.entryId, item]));
+  const withTimes = (entry: TimeEntry, value: () => string) => hasRecordedTimes(entry) ? value() : '';
+
+  const values: Record<ExportColumnId, (entry: TimeEntry) => string> = {
+    date: entry => formatDate(entry.date),
+    weekday: entry => {
+      const day = new Date(entry.date).getDay();
+      return getDayOfWeekName(day === 0 ? 7 : day, t);
+    },
+    kind: entry => {
+      const label = getEntryKindLabel(entry.kind, t);
+      return entry.halfDay ? `${label} (${t('half_day')})` : label;
+    },
+    // Без колонки типа отсутствие указывается в заметках, как в таблице записей
+    notes: entry => options.includeActions ? entry.notes ?? '' : describeEntry(entry, t),
+    startTime: entry => withTimes(entry, () => entry.startTime),
+    endTime: entry => withTimes(entry, () => formatShiftEnd(entry.startTime, entry.endTime)),
+    break: entry => {
+      const { breakMinutes } = getEntryDurations(entry, source.user);
+      return breakMinutes > 0 ? formatMinutesToHours(breakMinutes) : '';
+    },
+    hours: entry => withTimes(entry, () => formatMinutesToHours(getEntryDurations(entry, source.user).netMinutes)),
+    rate: entry => withTimes(entry, () => `${payByEntry.get(entry.id)?.rate ?? entry.hourlyRate} CZK`),
+    pay: entry => withTimes(entry, () => `${payByEntry.get(entry.id)?.totalPay ?? 0} CZK`),
+    project: entry => {
+      const project = findProject(source.projects, entry.projectId);
+      return project ? getProjectLabel(project, source.clients, t) : '';
+    },
+  };
+
+  return exportColumnIds
+    .filter(id => isColumnIncluded(id, options))
+    .map(id => ({
+      id,
+      header: t(`export.columns.${id}`),
+      width: columnWidths[id],
+      value: values[id],
+    }));
+}
+
+/**
+ * Строки таблицы: значения колонок для каждой записи
+ */
+export function buildExportRows(columns: ExportColumn[], entries: TimeEntry[]): string[][] {
+  return entries.map(entry => columns.map(column => column.value(entry)));
+}
@@ -0,0 +1,546 @@
+// Генерация табелей в PDF, Excel и CSV. Работает и в браузере, и на сервере:
+// данные собираются заранее, строки переводятся через переданную функцию t.
+
+import { type TimeEntry, type User } from "./schema";
+import { type EntryPay, type SurchargeItem } from "./pay";
+import { type VacationBalance } from "./vacation";
+import { summarizeByProject, type ProjectCatalog } from "./projects";
+import { formatDate, formatMinutesToHours, formatSurcharge, getMonthName, type Translate } from "./format";
+import { buildExportRows, getExportColumns, type ExportOptions } from "./export-columns";
+import * as XLSX from "xlsx";
+import { jsPDF } from "jspdf";
+import { autoTable, type UserOptions } from "jspdf-autotable";
+
+export { type ExportOptions } from "./export-columns";
+
+export const exportFormats = ["pdf", "xlsx", "csv"] as const;
+
+export type ExportFormat = typeof exportFormats[number];
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  pdf: "application/pdf",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  csv: "text/csv;charset=utf-8",
+};
+
+// Месяц (month: 1-12) или произвольный интервал дат включительно
+export type ExportPeriod =
+  | { year: number; month: number }
+  | { from: Date | string; to: Date | string };
+
+// Итоги периода: для месяца берутся из месячного отчёта и расчёта оплаты
+export interface ExportSummary {
+  workDays: number;
+  workedMinutes: number;
+  grossMinutes: number;
+  vacationDays: number;
+  basePay: number;
+  surcharges: SurchargeItem[];
+  totalPay: number;
+}
+
+// Всё, что нужно для табеля: записи периода, оплата по записям, итоги, отпуск и справочники проектов
+export interface ExportDocument extends ProjectCatalog {
+  user: User;
+  period: ExportPeriod;
+  entries: TimeEntry[];
+  entryPay: EntryPay[];
+  summary: ExportSummary;
+  vacation: VacationBalance;
+}
+
+// Итоги месяца для сводки табеля за несколько месяцев: из месячного отчёта и расчёта оплаты
+export interface ExportMonthTotals {
+  year: number;
+  month: number; // 1-12
+  workedMinutes: number;
+  targetMinutes: number;
+  overtimeMinutes: number;
+  totalPay: number;
+  vacationDays: number;
+  sickDays: number;
+}
+
+// Табель за несколько месяцев: раздел (лист Excel) на каждый месяц и сводка по месяцам в конце
+export interface ExportReport {
+  user: User;
+  period: ExportPeriod;
+  months: ExportDocument[];
+  totals: ExportMonthTotals[];
+}
+
+// TTF-шрифты для PDF в base64: обычное и жирное начертание
+export interface PdfFonts {
+  regular: string;
+  bold: string;
+}
+
+// Содержимое файла: двоичное для PDF и Excel, текст для CSV
+export type ExportContent = ArrayBuffer | string;
+
+function toIsoDay(date: Date | string): string {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${(d.getMonth() + 1).toString().padStart(2, '0')}-${d.getDate().toString().padStart(2, '0')}`;
+}
+
+/**
+ * Имя файла по умолчанию без расширения: Výkaz_práce_5_2025 или Výkaz_práce_2025-01-01_2025-03-31
+ */
+export function getDefaultExportFilename(period: ExportPeriod): string {
+  return 'year' in period
+    ? `Výkaz_práce_${period.month}_${period.year}`
+    : `Výkaz_práce_${toIsoDay(period.from)}_${toIsoDay(period.to)}`;
+}
+
+// Подзаголовок табеля: "Май 2025" или "01.01.2025 – 31.03.2025"
+function formatPeriodTitle(period: ExportPeriod, t: Translate): string {
+  return 'year' in period
+    ? t('export.monthYear', { month: getMonthName(period.month, t), year: period.year })
+    : t('export.period', { from: formatDate(period.from), to: formatDate(period.to) });
+}
+
+// Строки промежуточных итогов по проектам: "Проект: 12:30 h, 2375 CZK"; без оплаты — только время
+function formatProjectSubtotals(doc: ExportDocument, options: ExportOptions, t: Translate): string[] {
+  const payByEntry = new Map(doc.entryPay.map(item => [item.entryId, item]));
+  const getPayment = (entry: TimeEntry) => payByEntry.get(entry.id)?.totalPay ?? 0;
+  return summarizeByProject(doc.entries, doc, doc.user, getPayment, t).map(item => {
+    const hours = formatMinutesToHours(item.minutes);
+    return options.includeSalary
+      ? t('export.projectSubtotal', { project: item.label, hours, amount: Math.round(item.payment) })
+      : t('export.projectHours', { project: item.label, hours });
+  });
+}
+
+// Строки итогов оплаты: базовая оплата и доплаты по правилам
+function formatPaySummary(summary: ExportSummary, t: Translate): string[] {
+  return [
+    t('export.basePay', { amount: summary.basePay }),
+    ...summary.surcharges.map(item => formatSurcharge(item, t)),
+    t('export.totalPayment', { amount: summary.totalPay }),
+  ];
+}
+
+// Строки отпуска: дни за период и баланс за год
+function formatVacationSummary(summary: ExportSummary, vacation: VacationBalance, t: Translate): string[] {
+  return [
+    t('export.vacationMonth', { days: summary.vacationDays }),
+    t('export.vacationBalance', {
+      year: vacation.year,
+      entitled: vacation.entitledDays,
+      carried: vacation.carriedOverDays,
+      taken: vacation.takenDays,
+      planned: vacation.plannedDays,
+      remaining: vacation.remainingDays,
+    }),
+  ];
+}
+
+// Строка итогов с временем до вычета перерывов
+function formatGrossSummary(summary: ExportSummary, t: Translate): string {
+  return t('export.totalGross', {
+    hours: formatMinutesToHours(summary.grossMinutes),
+    breaks: formatMinutesToHours(summary.grossMinutes - summary.workedMinutes),
+  });
+}
+
+// Итоги периода одинаково во всех форматах; оплата — только с includeSalary
+function buildSummaryLines(doc: ExportDocument, options: ExportOptions, t: Translate): string[] {
+  const { summary } = doc;
+  return [
+    t('export.workDays', { count: summary.workDays }),
+    t('export.totalWorked', { hours: formatMinutesToHours(summary.workedMinutes) }),
+    formatGrossSummary(summary, t),
+    ...(options.includeSalary ? formatPaySummary(summary, t) : []),
+    ...formatVacationSummary(summary, doc.vacation, t),
+  ];
+}
+
+function buildProfileRows(user: User, t: Translate): [string, string][] {
+  return [
+    [t('export.profile.name'), user.fullName || ''],
+    [t('export.profile.position'), user.position || ''],
+    [t('export.profile.contact'), user.email || ''],
+  ];
+}
+
+// Шрифт с кириллицей и чешской диакритикой: встроенная Helvetica в jsPDF знает только Latin-1
+const PDF_FONT = 'DejaVuSans';
+
+// Поля страницы PDF в мм; внизу место под номер страницы
+const PDF_MARGIN = { top: 20, right: 15, bottom: 20, left: 15 };
+
+// Регистрирует TTF-шрифты в документе и делает обычное начертание текущим
+function embedPdfFonts(pdf: jsPDF, fonts: PdfFonts) {
+  pdf.addFileToVFS(`${PDF_FONT}.ttf`, fonts.regular);
+  pdf.addFont(`${PDF_FONT}.ttf`, PDF_FONT, 'normal');
+  pdf.addFileToVFS(`${PDF_FONT}-Bold.ttf`, fonts.bold);
+  pdf.addFont(`${PDF_FONT}-Bold.ttf`, PDF_FONT, 'bold');
+  pdf.setFont(PDF_FONT, 'normal');
+}
+
+// Номера страниц проставляются в конце, когда известно их общее количество
+function addPageNumbers(pdf: jsPDF, t: Translate) {
+  const pageWidth = pdf.internal.pageSize.width;
+  const pageHeight = pdf.internal.pageSize.height;
+  const total = pdf.getNumberOfPages();
+
+  pdf.setFont(PDF_FONT, 'normal');
+  pdf.setFontSize(8);
+  for (let page = 1; page <= total; page++) {
+    pdf.setPage(page);
+    pdf.text(t('export.page', { page, total }), pageWidth - PDF_MARGIN.right, pageHeight - 10, { align: 'right' });
+  }
+}
+
+// Заголовок табеля с периодом вверху текущей страницы
+function drawPdfTitle(pdf: jsPDF, period: ExportPeriod, t: Translate) {
+  const pageWidth = pdf.internal.pageSize.width;
+
+  pdf.setFont(PDF_FONT, 'normal');
+  pdf.setFontSize(18);
+  pdf.text(t('export.title'), pageWidth / 2, 15, { align: 'center' });
+
+  pdf.setFontSize(11);
+  pdf.text(formatPeriodTitle(period, t), pageWidth / 2, 23, { align: 'center' });
+}
+
+// Табель одного периода начиная с текущей страницы: шапка, таблица записей, итоги и подпись
+function drawPdfDocument(pdf: jsPDF, doc: ExportDocument, options: ExportOptions, t: Translate) {
+  const pageWidth = pdf.internal.pageSize.width;
+  const pageHeight = pdf.internal.pageSize.height;
+  const columns = getExportColumns(doc, options, t);
+
+  // Заголовок и информация о профиле
+  drawPdfTitle(pdf, doc.period, t);
+
+  let yPos = 35;
+
+  if (options.includeProfile) {
+    pdf.setFontSize(10);
+    for (const [label, value] of buildProfileRows(doc.user, t)) {
+      pdf.text(`${label}: ${value}`, PDF_MARGIN.left, yPos);
+      yPos += 7;
+    }
+    yPos += 3;
+  }
+
+  // Ширина таблицы — вся страница без полей, колонки делят её пропорционально ширине в символах
+  const tableWidth = pageWidth - PDF_MARGIN.left - PDF_MARGIN.right;
+  const totalWidth = columns.reduce((total, column) => total + column.width, 0);
+
+  autoTable(pdf, {
+    ...pdfTableStyles,
+    startY: yPos,
+    head: [columns.map(column => column.header)],
+    body: buildExportRows(columns, doc.entries),
+    styles: { ...pdfTableStyles.styles, fontSize: columns.length > 9 ? 7 : 8 },
+    columnStyles: Object.fromEntries(
+      columns.map((column, i) => [i, { cellWidth: column.width / totalWidth * tableWidth }])
+    ),
+    didDrawPage: data => {
+      yPos = data.cursor?.y ?? yPos;
+    },
+  });
+
+  // Рисуем итоговую информацию; длинные строки переносятся по ширине таблицы
+  const addLine = (text: string) => {
+    for (const line of pdf.splitTextToSize(text, tableWidth) as string[]) {
+      if (yPos > pageHeight - PDF_MARGIN.bottom - 7) {
+        pdf.addPage();
+        yPos = PDF_MARGIN.top;
+      }
+      pdf.text(line, PDF_MARGIN.left, yPos);
+      yPos += 7;
+    }
+  };
+
+  yPos += 10;
+  pdf.setFontSize(10);
+  pdf.setFont(PDF_FONT, 'bold');
+  addLine(t('export.summary'));
+  pdf.setFont(PDF_FONT, 'normal');
+  buildSummaryLines(doc, options, t).forEach(addLine);
+
+  // Промежуточные итоги по проектам
+  if (options.includeProjects) {
+    yPos += 7;
+    pdf.setFont(PDF_FONT, 'bold');
+    addLine(t('export.projectSubtotals'));
+    pdf.setFont(PDF_FONT, 'normal');
+    formatProjectSubtotals(doc, options, t).forEach(addLine);
+  }
+  yPos += 7;
+
+  // Подпись и дата
+  if (yPos > pageHeight - PDF_MARGIN.bottom - 7) {
+    pdf.addPage();
+    yPos = PDF_MARGIN.top;
+  }
+  pdf.text(t('export.date', { date: formatDate(new Date()) }), PDF_MARGIN.left, yPos);
+  pdf.text(t('export.signature'), 100, yPos);
+}
+
+// Общий вид таблиц PDF: встроенный шрифт, перенос длинных значений, заголовок на каждой странице
+const pdfTableStyles = {
+  margin: PDF_MARGIN,
+  showHead: 'everyPage',
+  styles: {
+    font: PDF_FONT,
+    cellPadding: 1.5,
+    overflow: 'linebreak',
+    textColor: 0,
+  },
+  headStyles: { fillColor: [220, 220, 220], fontStyle: 'bold' },
+  bodyStyles: { fillColor: [255, 255, 255] },
+  alternateRowStyles: { fillColor: [245, 245, 245] },
+} satisfies UserOptions;
+
+/**
+ * Табель в PDF (jsPDF): шапка, таблица записей и итоги.
+ * Текст выводится встроенным Unicode-шрифтом, длинные значения переносятся по строкам,
+ * заголовки таблицы повторяются на каждой странице.
+ */
+export function generatePdfExport(doc: ExportDocument, options: ExportOptions, t: Translate, fonts: PdfFonts): ArrayBuffer {
+  const pdf = new jsPDF();
+  embedPdfFonts(pdf, fonts);
+  drawPdfDocument(pdf, doc, options, t);
+  addPageNumbers(pdf, t);
+  return pdf.output('arraybuffer');
+}
+
+// Лист Excel с шапкой, таблицей записей и итогами одного периода
+function buildExcelSheet(doc: ExportDocument, options: ExportOptions, t: Translate): XLSX.WorkSheet {
+  const columns = getExportColumns(doc, options, t);
+
+  const titleRows: string[][] = [
+    [t('export.title')],
+    [formatPeriodTitle(doc.period, t)],
+    [],
+  ];
+
+  if (options.includeProfile) {
+    titleRows.push(...buildProfileRows(doc.user, t).map(([label, value]) => [`${label}:`, value]), []);
+  }
+
+  const projectRows = options.includeProjects
+    ? [[], [t('export.projectSubtotals')], ...formatProjectSubtotals(doc, options, t).map(line => [line])]
+    : [];
+
+  const wsData = [
+    ...titleRows,
+    columns.map(column => column.header),
+    ...buildExportRows(columns, doc.entries),
+    [],
+    [t('export.summary')],
+    ...buildSummaryLines(doc, options, t).map(line => [line]),
+    ...projectRows,
+    [],
+    [t('export.date', { date: formatDate(new Date()) })],
+    [t('export.signature')]
+  ];
+
+  const worksheet = XLSX.utils.aoa_to_sheet(wsData);
+  worksheet['!cols'] = columns.map(column => ({ wch: column.width }));
+  return worksheet;
+}
+
+/**
+ * Табель в Excel (xlsx): один лист с шапкой, таблицей записей и итогами
+ */
+export function generateExcelExport(doc: ExportDocument, options: ExportOptions, t: Translate): ArrayBuffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, buildExcelSheet(doc, options, t), t('export.title'));
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+}
+
+// Значение CSV в кавычках, если в нём есть запятая, кавычка или перевод строки
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function csvLine(values: string[]): string {
+  return values.map(csvCell).join(',') + '\n';
+}
+
+// Записи, итоги и профиль одного периода
+function buildCsvSection(doc: ExportDocument, options: ExportOptions, t: Translate): string {
+  const columns = getExportColumns(doc, options, t);
+
+  let csvContent = csvLine(columns.map(column => column.header));
+  for (const row of buildExportRows(columns, doc.entries)) {
+    csvContent += csvLine(row);
+  }
+
+  csvContent += `\n${csvLine([t('export.summary')])}`;
+  csvContent += csvLine([formatPeriodTitle(doc.period, t)]);
+  for (const line of buildSummaryLines(doc, options, t)) {
+    csvContent += csvLine([line]);
+  }
+  if (options.includeProjects) {
+    csvContent += `\n${csvLine([t('export.projectSubtotals')])}`;
+    for (const line of formatProjectSubtotals(doc, options, t)) {
+      csvContent += csvLine([line]);
+    }
+  }
+  if (options.includeProfile) {
+    csvContent += `\n${csvLine([t('export.profileInfo')])}`;
+    for (const row of buildProfileRows(doc.user, t)) {
+      csvContent += csvLine(row);
+    }
+  }
+  return csvContent;
+}
+
+/**
+ * Табель в CSV: записи, итоги и профиль
+ */
+export function generateCsvExport(doc: ExportDocument, options: ExportOptions, t: Translate): string {
+  return `sep=,\n${buildCsvSection(doc, options, t)}`;
+}
+
+export function generateExport(
+  format: ExportFormat,
+  doc: ExportDocument,
+  options: ExportOptions,
+  t: Translate,
+  fonts: PdfFonts
+): ExportContent {
+  switch (format) {
+    case 'pdf':
+      return generatePdfExport(doc, options, t, fonts);
+    case 'xlsx':
+      return generateExcelExport(doc, options, t);
+    case 'csv':
+      return generateCsvExport(doc, options, t);
+  }
+}
+
+// Сводка по месяцам: заголовки, строка на месяц и итог; оплата — только с includeSalary
+function buildTotalsRows(totals: ExportMonthTotals[], options: ExportOptions, t: Translate): string[][] {
+  const toRow = (label: string, item: Omit<ExportMonthTotals, 'year' | 'month'>) => [
+    label,
+    formatMinutesToHours(item.workedMinutes),
+    formatMinutesToHours(item.targetMinutes),
+    formatMinutesToHours(item.overtimeMinutes),
+    ...(options.includeSalary ? [`${Math.round(item.totalPay)} CZK`] : []),
+    String(item.vacationDays),
+    String(item.sickDays),
+  ];
+
+  const sum = (key: keyof Omit<ExportMonthTotals, 'year' | 'month'>) =>
+    totals.reduce((total, item) => total + item[key], 0);
+
+  return [
+    [
+      t('export.totals.month'),
+      t('export.totals.worked'),
+      t('export.totals.target'),
+      t('export.totals.overtime'),
+      ...(options.includeSalary ? [t('export.totals.pay')] : []),
+      t('export.totals.vacation'),
+      t('export.totals.sick'),
+    ],
+    ...totals.map(item => toRow(t('export.monthYear', { month: getMonthName(item.month, t), year: item.year }), item)),
+    toRow(t('export.totals.total'), {
+      workedMinutes: sum('workedMinutes'),
+      targetMinutes: sum('targetMinutes'),
+      overtimeMinutes: sum('overtimeMinutes'),
+      totalPay: sum('totalPay'),
+      vacationDays: sum('vacationDays'),
+      sickDays: sum('sickDays'),
+    }),
+  ];
+}
+
+/**
+ * Табель за несколько месяцев в PDF: каждый месяц с новой страницы, в конце сводка по месяцам
+ */
+export function generatePdfReport(report: ExportReport, options: ExportOptions, t: Translate, fonts: PdfFonts): ArrayBuffer {
+  const pdf = new jsPDF();
+  embedPdfFonts(pdf, fonts);
+
+  report.months.forEach((doc, index) => {
+    if (index > 0) pdf.addPage();
+    drawPdfDocument(pdf, doc, options, t);
+  });
+
+  pdf.addPage();
+  drawPdfTitle(pdf, report.period, t);
+  pdf.setFontSize(12);
+  pdf.setFont(PDF_FONT, 'bold');
+  pdf.text(t('export.totals.title'), PDF_MARGIN.left, 35);
+
+  const [head, ...body] = buildTotalsRows(report.totals, options, t);
+  autoTable(pdf, {
+    ...pdfTableStyles,
+    startY: 40,
+    head: [head],
+    body: body.slice(0, -1),
+    foot: [body[body.length - 1]],
+    showFoot: 'lastPage',
+    styles: { ...pdfTableStyles.styles, fontSize: 9 },
+    footStyles: { fillColor: [220, 220, 220], textColor: 0, fontStyle: 'bold' },
+  });
+
+  addPageNumbers(pdf, t);
+  return pdf.output('arraybuffer');
+}
+
+/**
+ * Табель за несколько месяцев в Excel: лист на каждый месяц и лист сводки в конце
+ */
+export function generateExcelReport(report: ExportReport, options: ExportOptions, t: Translate): ArrayBuffer {
+  const workbook = XLSX.utils.book_new();
+
+  for (const doc of report.months) {
+    const { year, month } = doc.period as { year: number; month: number };
+    const sheetName = t('export.monthYear', { month: getMonthName(month, t), year });
+    XLSX.utils.book_append_sheet(workbook, buildExcelSheet(doc, options, t), sheetName);
+  }
+
+  const totalsRows = buildTotalsRows(report.totals, options, t);
+  const worksheet = XLSX.utils.aoa_to_sheet([
+    [t('export.title')],
+    [formatPeriodTitle(report.period, t)],
+    [],
+    ...totalsRows,
+  ]);
+  worksheet['!cols'] = totalsRows[0].map((_, i) => ({ wch: i === 0 ? 18 : 12 }));
+  XLSX.utils.book_append_sheet(workbook, worksheet, t('export.totals.sheet'));
+
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+}
+
+/**
+ * Табель за несколько месяцев в CSV: разделы месяцев друг за другом и сводка в конце
+ */
+export function generateCsvReport(report: ExportReport, options: ExportOptions, t: Translate): string {
+  let csvContent = 'sep=,\n';
+  for (const doc of report.months) {
+    csvContent += `${csvLine([formatPeriodTitle(doc.period, t)])}${buildCsvSection(doc, options, t)}\n`;
+  }
+
+  csvContent += csvLine([t('export.totals.title')]);
+  csvContent += csvLine([formatPeriodTitle(report.period, t)]);
+  for (const row of buildTotalsRows(report.totals, options, t)) {
+    csvContent += csvLine(row);
+  }
+  return csvContent;
+}
+
+export function generateReportExport(
+  format: ExportFormat,
+  report: ExportReport,
+  options: ExportOptions,
+  t: Translate,
+  fonts: PdfFonts
+): ExportContent {
+  switch (format) {
+    case 'pdf':
+      return generatePdfReport(report, options, t, fonts);
+    case 'xlsx':
+      return generateExcelReport(report, options, t);
+    case 'csv':
+      return generateCsvReport(report, options, t);
+  }
+}
@@ -0,0 +1,68 @@
+// Форматирование для таблиц и экспорта, общее для клиента и сервера.
+// Строки переводятся через переданную функцию t: на клиенте это i18next, на сервере — экземпляр с языком запроса.
+
+import { crossesMidnight } from "./time";
+import { type SurchargeItem } from "./pay";
+
+export type Translate = (key: string, options?: Record<string, unknown>) => string;
+
+export function formatMinutesToHours(minutes: number): string {
+  const hours = Math.floor(Math.abs(minutes) / 60);
+  const remainingMinutes = Math.abs(minutes) % 60;
+  const sign = minutes < 0 ? '-' : '';
+
+  return `${sign}${hours}:${remainingMinutes.toString().padStart(2, '0')}`;
+}
+
+// Время окончания для отображения, с пометкой "+1" для смен, заканчивающихся на следующий день
+export function formatShiftEnd(start: string, end: string): string {
+  return crossesMidnight(start, end) ? `${end} (+1)` : end;
+}
+
+// Дата в формате ДД.ММ.ГГГГ
+export function formatDate(date: Date | string): string {
+  const d = new Date(date);
+  const day = d.getDate().toString().padStart(2, '0');
+  const month = (d.getMonth() + 1).toString().padStart(2, '0');
+  return `${day}.${month}.${d.getFullYear()}`;
+}
+
+export function getMonthName(month: number, t: Translate): string {
+  // month: 1-12
+  return t(`dates.months.${month - 1}`);
+}
+
+export function getDayOfWeekName(dayNumber: number, t: Translate): string {
+  // dayNumber: 1-7 (Пн-Нд)
+  return t(`dates.days.${(dayNumber - 1) % 7}`);
+}
+
+export function getEntryKindLabel(kind: string, t: Translate): string {
+  return t(`entry_kinds.${kind}`);
+}
+
+// Описание записи для таблицы и экспорта: тип отсутствия (с пометкой половинного дня) и заметка
+export function describeEntry(
+  entry: { kind: string; notes: string | null; halfDay?: boolean | null },
+  t: Translate
+): string {
+  if (entry.kind === 'work') {
+    return entry.notes || '';
+  }
+  const kindLabel = getEntryKindLabel(entry.kind, t);
+  const label = entry.halfDay ? `${kindLabel} (${t('half_day')})` : kindLabel;
+  return entry.notes ? `${label}: ${entry.notes}` : label;
+}
+
+export function getSurchargeLabel(kind: SurchargeItem["kind"], t: Translate): string {
+  return t(`surcharges.${kind}`);
+}
+
+// Строка доплаты для итогов: "Сверхурочные: 12:30 ч, 1250 CZK"
+export function formatSurcharge(item: SurchargeItem, t: Translate): string {
+  return t('export.surcharge', {
+    name: getSurchargeLabel(item.kind, t),
+    hours: formatMinutesToHours(item.minutes),
+    amount: item.amount,
+  });
+}
@@ -0,0 +1,70 @@
+// Импорт записей из файлов: старый «Výkaz práce», произвольные таблицы XLSX/CSV и календари .ics
+
+import { z } from "zod";
+import { entryKinds, type EntryKind } from "./entry-kinds";
+import { breakSegmentSchema } from "./schema";
+import { TIME_PATTERN, type BreakSegment } from "./time";
+
+export const importFormats = ["vykaz", "table"] as const;
+
+export type ImportFormat = typeof importFormats[number];
+
+// Поля записи, которые можно сопоставить со столбцами таблицы
+export const importFields = ["date", "startTime", "endTime", "breakMinutes", "kind", "hourlyRate", "notes"] as const;
+
+export type ImportField = typeof importFields[number];
+
+// Номер столбца (с нуля) для каждого сопоставленного поля
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+// Строк в одном импорте не больше: предпросмотр и импорт проверяют каждую строку по записям пользователя
+export const MAX_IMPORT_ROWS = 1000;
+
+export const importRowStatuses = ["new", "duplicate", "overlap", "invalid"] as const;
+
+export type ImportRowStatus = typeof importRowStatuses[number];
+
+export interface ImportRow {
+  rowNumber: number; // Номер строки в файле, как в Excel; для календаря — номер события
+  date: string | null; // ISO строка с полуднем, как у даты записи
+  kind: EntryKind;
+  startTime: string;
+  endTime: string;
+  breaks: BreakSegment[];
+  hourlyRate: number | null; // Без ставки в файле берётся ставка из истории
+  notes: string | null;
+  halfDay: boolean;
+  status: ImportRowStatus;
+  message: string | null; // Причина, по которой строка не будет импортирована
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  columns: string[]; // Заголовки таблицы; для «Výkaz práce» пусто
+  mapping: ColumnMapping;
+  rows: ImportRow[];
+}
+
+// Черновики записей из календаря .ics: проверяются по одному в форме добавления записи
+export interface CalendarDrafts {
+  drafts: ImportRow[];
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number; // Дубликаты существующих записей
+}
+
+export const importRowSchema = z.object({
+  rowNumber: z.number().int().positive(),
+  date: z.string().refine((val) => !isNaN(new Date(val).getTime()), "Invalid date"),
+  kind: z.enum(entryKinds),
+  startTime: z.string().regex(TIME_PATTERN, "Start time must be in HH:MM format"),
+  endTime: z.string().regex(TIME_PATTERN, "End time must be in HH:MM format"),
+  breaks: z.array(breakSegmentSchema),
+  hourlyRate: z.number().int().min(0).nullable(),
+  notes: z.string().nullable(),
+  halfDay: z.boolean(),
+});
+
+export type ImportRowData = z.infer<typeof importRowSchema>;
@@ -0,0 +1,59 @@
+// Защита входа от подбора пароля: после нескольких неудач каждая следующая попытка ждёт всё дольше,
+// а после порога адрес или имя пользователя блокируются на время. Счётчики хранятся в базе.
+
+export const loginAttemptOutcomes = ["success", "failed", "blocked"] as const;
+
+export type LoginAttemptOutcome = typeof loginAttemptOutcomes[number];
+
+export interface LoginThrottlePolicy {
+  freeAttempts: number; // Неудачи без задержки
+  maxDelaySeconds: number; // Предел растущей задержки
+  lockoutAttempts: number; // После стольких неудач — блокировка
+  lockoutMinutes: number;
+  resetAfterMinutes: number; // Счётчик начинается заново после паузы без неудач
+}
+
+// За одним адресом может быть целый офис, поэтому порог по IP выше, чем по имени
+export const loginThrottlePolicies = {
+  username: { freeAttempts: 3, maxDelaySeconds: 60, lockoutAttempts: 10, lockoutMinutes: 15, resetAfterMinutes: 60 },
+  ip: { freeAttempts: 10, maxDelaySeconds: 60, lockoutAttempts: 50, lockoutMinutes: 60, resetAfterMinutes: 60 },
+} satisfies Record<string, LoginThrottlePolicy>;
+
+export type LoginThrottleScope = keyof typeof loginThrottlePolicies;
+
+/**
+ * Сколько секунд ждать после указанного числа неудач подряд: 0, затем 1, 2, 4… до предела, затем блокировка
+ */
+export function getLoginDelaySeconds(policy: LoginThrottlePolicy, failures: number): number {
+  if (failures >= policy.lockoutAttempts) return policy.lockoutMinutes * 60;
+  if (failures < policy.freeAttempts) return 0;
+  return Math.min(2 ** (failures - policy.freeAttempts), policy.maxDelaySeconds);
+}
+
+export interface LoginThrottleState {
+  failures: number;
+  lastFailureAt: Date;
+  blockedUntil: Date | null;
+}
+
+/**
+ * Состояние счётчика после ещё одной неудачи; старые неудачи забываются после паузы
+ */
+export function addLoginFailure(policy: LoginThrottlePolicy, state: LoginThrottleState | undefined, now: Date): LoginThrottleState {
+  const isStale = !state || now.getTime() - state.lastFailureAt.getTime() > policy.resetAfterMinutes * 60 * 1000;
+  const failures = isStale ? 1 : state.failures + 1;
+  const delaySeconds = getLoginDelaySeconds(policy, failures);
+  return {
+    failures,
+    lastFailureAt: now,
+    blockedUntil: delaySeconds > 0 ? new Date(now.getTime() + delaySeconds * 1000) : null,
+  };
+}
+
+/**
+ * Сколько секунд осталось до следующей разрешённой попытки; 0 — можно входить
+ */
+export function getRetryAfterSeconds(state: LoginThrottleState | undefined, now: Date): number {
+  if (!state?.blockedUntil) return 0;
+  return Math.max(0, Math.ceil((state.blockedUntil.getTime() - now.getTime()) / 1000));
+}
@@ -0,0 +1,305 @@
+// Расчёт оплаты с доплатами за сверхурочные, ночную работу, выходные и праздники
+// (по умолчанию — минимальные доплаты по zákoník práce: §114, §116, §118, §115)
+
+import { isPublicHoliday, isWorkingDay, parseWorkDays } from "./calendar";
+import { getEntryDurations, getEntryKindRule, hasRecordedTimes } from "./entry-kinds";
+import { resolveEntryRate, type RateRecord } from "./rates";
+import { getBreakIntervals, MINUTES_PER_DAY, parseTimeToMinutes, calculateShiftMinutes, type BreakSegment, type BreakSettings } from "./time";
+
+export const payRuleKinds = ["overtime", "night", "weekend", "holiday"] as const;
+export type PayRuleKind = typeof payRuleKinds[number];
+
+export const payRuleModes = ["percent", "fixed"] as const;
+export type PayRuleMode = typeof payRuleModes[number];
+
+export interface PayRuleSettings {
+  kind: PayRuleKind;
+  enabled: boolean;
+  mode: PayRuleMode; // percent — процент от ставки записи, fixed — CZK за час
+  value: number;
+  windowStart: string | null; // Только для ночной работы: начало ночного интервала "HH:MM"
+  windowEnd: string | null;
+}
+
+export const DEFAULT_NIGHT_START = "22:00";
+export const DEFAULT_NIGHT_END = "06:00";
+
+export const defaultPayRules: Record<PayRuleKind, PayRuleSettings> = {
+  overtime: { kind: "overtime", enabled: true, mode: "percent", value: 25, windowStart: null, windowEnd: null },
+  night: { kind: "night", enabled: true, mode: "percent", value: 10, windowStart: DEFAULT_NIGHT_START, windowEnd: DEFAULT_NIGHT_END },
+  weekend: { kind: "weekend", enabled: true, mode: "percent", value: 10, windowStart: null, windowEnd: null },
+  holiday: { kind: "holiday", enabled: true, mode: "percent", value: 100, windowStart: null, windowEnd: null },
+};
+
+/**
+ * Правила пользователя, дополненные значениями по умолчанию для отсутствующих типов
+ */
+export function mergePayRules(rules: PayRuleSettings[]): PayRuleSettings[] {
+  return payRuleKinds.map(kind => {
+    const rule = rules.find(item => item.kind === kind) ?? defaultPayRules[kind];
+    return {
+      kind,
+      enabled: rule.enabled,
+      mode: rule.mode,
+      value: rule.value,
+      windowStart: rule.windowStart,
+      windowEnd: rule.windowEnd,
+    };
+  });
+}
+
+export interface PayEntry {
+  id: number;
+  date: Date | string;
+  kind: string;
+  startTime: string;
+  endTime: string;
+  breaks?: BreakSegment[] | null;
+  hourlyRate: number;
+  projectId: number | null;
+}
+
+export interface PaySettings extends BreakSettings {
+  workHoursPerDay: number;
+  workDays: string;
+}
+
+export interface SurchargeItem {
+  kind: PayRuleKind;
+  minutes: number;
+  amount: number;
+}
+
+export interface EntryPay {
+  entryId: number;
+  rate: number;
+  minutes: number; // Оплачиваемые минуты (без перерывов)
+  basePay: number;
+  surcharges: SurchargeItem[];
+  totalPay: number;
+}
+
+export interface MonthPay {
+  year: number;
+  month: number;
+  minutes: number;
+  basePay: number;
+  surcharges: SurchargeItem[];
+  totalPay: number;
+}
+
+export interface PayBreakdown {
+  entries: EntryPay[];
+  month: MonthPay;
+}
+
+// Часть записи, пришедшаяся на один календарный день
+interface DayPortion {
+  entry: PayEntry;
+  rate: number;
+  day: Date;
+  startMinute: number; // Начало части относительно полуночи дня записи, для порядка внутри дня
+  minutes: number;
+  nightMinutes: number;
+  overtimeMinutes: number;
+}
+
+function isNightMinute(minuteOfDay: number, windowStart: number, windowEnd: number): boolean {
+  return windowStart > windowEnd
+    ? minuteOfDay >= windowStart || minuteOfDay < windowEnd
+    : minuteOfDay >= windowStart && minuteOfDay < windowEnd;
+}
+
+function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+/**
+ * Делит отработанное время записи по календарным дням с подсчётом ночных минут.
+ * Записанные перерывы вырезаются по времени, автоперерыв распределяется пропорционально.
+ */
+function splitEntryByDay(entry: PayEntry, settings: PaySettings, nightRule: PayRuleSettings, rate: number): DayPortion[] {
+  const durations = getEntryDurations(entry, settings);
+  if (durations.netMinutes === 0) return [];
+
+  const entryDate = new Date(entry.date);
+  const shiftStart = parseTimeToMinutes(entry.startTime);
+  const shiftEnd = shiftStart + calculateShiftMinutes(entry.startTime, entry.endTime);
+  const breakIntervals = getBreakIntervals(entry.startTime, entry.endTime, entry.breaks ?? []);
+  const windowStart = parseTimeToMinutes(nightRule.windowStart ?? DEFAULT_NIGHT_START);
+  const windowEnd = parseTimeToMinutes(nightRule.windowEnd ?? DEFAULT_NIGHT_END);
+
+  const portions = new Map<number, { minutes: number; nightMinutes: number; startMinute: number }>();
+  let recordedMinutes = 0;
+
+  for (let minute = shiftStart; minute < shiftEnd; minute++) {
+    if (breakIntervals.some(interval => minute >= interval.start && minute < interval.end)) continue;
+
+    const dayOffset = Math.floor(minute / MINUTES_PER_DAY);
+    const portion = portions.get(dayOffset) ?? { minutes: 0, nightMinutes: 0, startMinute: minute };
+    portion.minutes++;
+    if (isNightMinute(minute % MINUTES_PER_DAY, windowStart, windowEnd)) {
+      portion.nightMinutes++;
+    }
+    portions.set(dayOffset, portion);
+    recordedMinutes++;
+  }
+
+  // Автоперерыв не привязан ко времени — уменьшаем все части смены в одной пропорции
+  const scale = recordedMinutes > 0 ? durations.netMinutes / recordedMinutes : 0;
+
+  return Array.from(portions.entries()).map(([dayOffset, portion]) => ({
+    entry,
+    rate,
+    day: new Date(entryDate.getFullYear(), entryDate.getMonth(), entryDate.getDate() + dayOffset),
+    startMinute: portion.startMinute,
+    minutes: portion.minutes * scale,
+    nightMinutes: portion.nightMinutes * scale,
+    overtimeMinutes: 0,
+  }));
+}
+
+/**
+ * Сверхурочные по дням: в рабочий день — всё сверх workHoursPerDay,
+ * в нерабочий день (выходной или праздник) — всё отработанное время
+ */
+function assignOvertime(portions: DayPortion[], settings: PaySettings): void {
+  const workDays = parseWorkDays(settings.workDays);
+  const byDay = new Map<string, DayPortion[]>();
+
+  for (const portion of portions) {
+    const key = toDayKey(portion.day);
+    byDay.set(key, [...(byDay.get(key) ?? []), portion]);
+  }
+
+  for (const dayPortions of Array.from(byDay.values())) {
+    const day = dayPortions[0].day;
+    let remaining = isWorkingDay(day, workDays) ? settings.workHoursPerDay * 60 : 0;
+
+    // Норма дня заполняется по порядку начала смен, сверхурочными считаются более поздние минуты
+    dayPortions.sort((a, b) => a.startMinute - b.startMinute);
+    for (const portion of dayPortions) {
+      const regular = Math.min(portion.minutes, remaining);
+      remaining -= regular;
+      portion.overtimeMinutes = portion.minutes - regular;
+    }
+  }
+}
+
+function surchargeAmount(rule: PayRuleSettings, minutes: number, rate: number): number {
+  if (!rule.enabled || minutes <= 0) return 0;
+  return rule.mode === "percent"
+    ? minutes / 60 * rate * rule.value / 100
+    : minutes / 60 * rule.value;
+}
+
+function portionSurcharges(portion: DayPortion, rules: Record<PayRuleKind, PayRuleSettings>): SurchargeItem[] {
+  const isWeekend = portion.day.getDay() === 0 || portion.day.getDay() === 6;
+  const minutesByKind: Record<PayRuleKind, number> = {
+    overtime: portion.overtimeMinutes,
+    night: portion.nightMinutes,
+    weekend: isWeekend ? portion.minutes : 0,
+    holiday: isPublicHoliday(portion.day) ? portion.minutes : 0,
+  };
+
+  return payRuleKinds
+    .filter(kind => rules[kind].enabled && minutesByKind[kind] > 0)
+    .map(kind => ({
+      kind,
+      minutes: minutesByKind[kind],
+      amount: surchargeAmount(rules[kind], minutesByKind[kind], portion.rate),
+    }));
+}
+
+function addSurcharges(target: SurchargeItem[], items: SurchargeItem[]): void {
+  for (const item of items) {
+    const existing = target.find(surcharge => surcharge.kind === item.kind);
+    if (existing) {
+      existing.minutes += item.minutes;
+      existing.amount += item.amount;
+    } else {
+      target.push({ ...item });
+    }
+  }
+}
+
+function roundSurcharges(items: SurchargeItem[]): SurchargeItem[] {
+  return items
+    .map(item => ({ kind: item.kind, minutes: Math.round(item.minutes), amount: Math.round(item.amount) }))
+    .sort((a, b) => payRuleKinds.indexOf(a.kind) - payRuleKinds.indexOf(b.kind));
+}
+
+/**
+ * Подробный расчёт оплаты по записям и за месяц (month: 1-12).
+ * Записи соседних месяцев учитываются только в той части, что попадает в месяц,
+ * поэтому в entries стоит передавать и последний день предыдущего месяца.
+ */
+export function calculatePayBreakdown(
+  entries: PayEntry[],
+  settings: PaySettings,
+  payRules: PayRuleSettings[],
+  rates: RateRecord[],
+  year: number,
+  month: number
+): PayBreakdown {
+  const rules = Object.fromEntries(
+    mergePayRules(payRules).map(rule => [rule.kind, rule])
+  ) as Record<PayRuleKind, PayRuleSettings>;
+
+  const portions: DayPortion[] = [];
+  const paidEntries = entries.filter(entry => getEntryKindRule(entry.kind).countsAsWorked && hasRecordedTimes(entry));
+
+  for (const entry of paidEntries) {
+    portions.push(...splitEntryByDay(entry, settings, rules.night, resolveEntryRate(entry, rates)));
+  }
+  assignOvertime(portions, settings);
+
+  const entryPay = new Map<number, { minutes: number; surcharges: SurchargeItem[] }>();
+  const monthTotals = { minutes: 0, basePay: 0, surcharges: [] as SurchargeItem[] };
+
+  for (const portion of portions) {
+    const surcharges = portionSurcharges(portion, rules);
+
+    const item = entryPay.get(portion.entry.id) ?? { minutes: 0, surcharges: [] };
+    item.minutes += portion.minutes;
+    addSurcharges(item.surcharges, surcharges);
+    entryPay.set(portion.entry.id, item);
+
+    if (portion.day.getFullYear() === year && portion.day.getMonth() === month - 1) {
+      monthTotals.minutes += portion.minutes;
+      monthTotals.basePay += portion.minutes / 60 * portion.rate;
+      addSurcharges(monthTotals.surcharges, surcharges);
+    }
+  }
+
+  const entryBreakdown = paidEntries.map(entry => {
+    const rate = resolveEntryRate(entry, rates);
+    const item = entryPay.get(entry.id) ?? { minutes: 0, surcharges: [] };
+    const minutes = Math.round(item.minutes);
+    const basePay = Math.round(minutes / 60 * rate);
+    const surcharges = roundSurcharges(item.surcharges);
+    return {
+      entryId: entry.id,
+      rate,
+      minutes,
+      basePay,
+      surcharges,
+      totalPay: basePay + surcharges.reduce((total, surcharge) => total + surcharge.amount, 0),
+    };
+  });
+
+  const monthSurcharges = roundSurcharges(monthTotals.surcharges);
+  const monthBasePay = Math.round(monthTotals.basePay);
+
+  return {
+    entries: entryBreakdown,
+    month: {
+      year,
+      month,
+      minutes: Math.round(monthTotals.minutes),
+      basePay: monthBasePay,
+      surcharges: monthSurcharges,
+      totalPay: monthBasePay + monthSurcharges.reduce((total, surcharge) => total + surcharge.amount, 0),
+    },
+  };
+}
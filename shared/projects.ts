@@ -0,0 +1,69 @@
+// Подписи проектов и итоги по проектам для таблиц и экспорта
+
+import { type Client, type Project, type TimeEntry } from "./schema";
+import { getEntryDurations } from "./entry-kinds";
+import { type BreakSettings } from "./time";
+import { type Translate } from "./format";
+
+export interface ProjectTotals {
+  projectId: number | null; // null — записи без проекта
+  label: string;
+  minutes: number; // Отработанное время без перерывов
+  payment: number;
+}
+
+// Проекты и клиенты пользователя для подписей в таблицах и экспорте
+export interface ProjectCatalog {
+  projects: Project[];
+  clients: Client[];
+}
+
+// Название проекта с клиентом: "Клиент / Проект"
+export function getProjectLabel(project: Project | undefined, clients: Client[], t: Translate): string {
+  if (!project) {
+    return t('no_project');
+  }
+  const client = clients.find(item => item.id === project.clientId);
+  return client ? `${client.name} / ${project.name}` : project.name;
+}
+
+export function findProject(projects: Project[], projectId: number | null | undefined): Project | undefined {
+  return projectId ? projects.find(project => project.id === projectId) : undefined;
+}
+
+/**
+ * Итоги по проектам: время и оплата; записи без проекта собираются в отдельную строку в конце
+ */
+export function summarizeByProject(
+  entries: TimeEntry[],
+  catalog: ProjectCatalog,
+  settings: BreakSettings | null | undefined,
+  getPayment: (entry: TimeEntry) => number,
+  t: Translate
+): ProjectTotals[] {
+  const totals = new Map<number | null, ProjectTotals>();
+
+  for (const entry of entries) {
+    const minutes = getEntryDurations(entry, settings ?? undefined).netMinutes;
+    if (minutes === 0) continue;
+
+    const project = findProject(catalog.projects, entry.projectId);
+    const key = project ? project.id : null;
+    const item = totals.get(key) ?? {
+      projectId: key,
+      label: getProjectLabel(project, catalog.clients, t),
+      minutes: 0,
+      payment: 0,
+    };
+
+    item.minutes += minutes;
+    item.payment += getPayment(entry);
+    totals.set(key, item);
+  }
+
+  return Array.from(totals.values()).sort((a, b) => {
+    if (a.projectId === null) return 1;
+    if (b.projectId === null) return -1;
+    return a.label.localeCompare(b.label);
+  });
+}
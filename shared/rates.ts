@@ -0,0 +1,47 @@
+// Определение почасовой ставки по истории ставок пользователя
+
+export interface RateRecord {
+  projectId: number | null;
+  rate: number;
+  effectiveFrom: Date | string;
+}
+
+function toDayValue(date: Date | string): number {
+  const value = new Date(date);
+  return value.getFullYear() * 10000 + (value.getMonth() + 1) * 100 + value.getDate();
+}
+
+/**
+ * Ставка, действующая на дату: сначала ищется ставка проекта, затем общая ставка пользователя.
+ * Из подходящих берётся последняя по дате начала действия. Без подходящей ставки возвращает undefined.
+ */
+export function resolveHourlyRate(
+  rates: RateRecord[],
+  date: Date | string,
+  projectId?: number | null
+): number | undefined {
+  const day = toDayValue(date);
+  const findLatest = (candidates: RateRecord[]) => candidates
+    .filter(rate => toDayValue(rate.effectiveFrom) <= day)
+    .sort((a, b) => toDayValue(b.effectiveFrom) - toDayValue(a.effectiveFrom))[0];
+
+  const projectRate = projectId
+    ? findLatest(rates.filter(rate => rate.projectId === projectId))
+    : undefined;
+  const userRate = findLatest(rates.filter(rate => rate.projectId === null));
+
+  return (projectRate ?? userRate)?.rate;
+}
+
+/**
+ * Ставка для расчёта оплаты записи: сохранённая в записи, а для записей без ставки — из истории ставок
+ */
+export function resolveEntryRate(
+  entry: { date: Date | string; hourlyRate: number; projectId: number | null },
+  rates: RateRecord[]
+): number {
+  if (entry.hourlyRate > 0) {
+    return entry.hourlyRate;
+  }
+  return resolveHourlyRate(rates, entry.date, entry.projectId) ?? 0;
+}
@@ -0,0 +1,52 @@
+// Согласование месячного табеля: черновик → отправлен → утверждён или отклонён.
+// Отправленный и утверждённый месяц закрыт для изменения записей, пока его не вернут в черновик.
+// Отправляет и возвращает в черновик сам сотрудник, утверждает и отклоняет его руководитель или администратор.
+
+import type { ReportStatusChange } from "./schema";
+
+export const reportStatuses = ["draft", "submitted", "approved", "rejected"] as const;
+
+export type ReportStatus = typeof reportStatuses[number];
+
+export const reportActions = ["submit", "approve", "reject", "reopen"] as const;
+
+export type ReportAction = typeof reportActions[number];
+
+interface ReportTransition {
+  from: ReportStatus[];
+  to: ReportStatus;
+  requiresComment: boolean; // Причина обязательна: отклонение и возврат в черновик
+  byReviewer: boolean; // Действие проверяющего, а не владельца табеля
+}
+
+export const reportTransitions: Record<ReportAction, ReportTransition> = {
+  submit: { from: ["draft", "rejected"], to: "submitted", requiresComment: false, byReviewer: false },
+  approve: { from: ["submitted"], to: "approved", requiresComment: false, byReviewer: true },
+  reject: { from: ["submitted"], to: "rejected", requiresComment: true, byReviewer: true },
+  reopen: { from: ["submitted", "approved"], to: "draft", requiresComment: true, byReviewer: false },
+};
+
+/**
+ * Статус после действия; null — действие недоступно в текущем статусе
+ */
+export function getNextReportStatus(status: ReportStatus, action: ReportAction): ReportStatus | null {
+  const transition = reportTransitions[action];
+  return transition.from.includes(status) ? transition.to : null;
+}
+
+// Действия владельца табеля или проверяющего, доступные в текущем статусе
+export function getAvailableReportActions(status: ReportStatus, asReviewer = false): ReportAction[] {
+  return reportActions.filter(action =>
+    reportTransitions[action].byReviewer === asReviewer && getNextReportStatus(status, action) !== null
+  );
+}
+
+// Записи отправленного и утверждённого месяца менять нельзя
+export function isReportLocked(status: ReportStatus): boolean {
+  return status === "submitted" || status === "approved";
+}
+
+// Запись журнала согласования с именем того, кто изменил статус
+export interface ReportHistoryItem extends ReportStatusChange {
+  changedByName: string;
+}
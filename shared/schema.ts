@@ -1,7 +1,15 @@
-import { pgTable, text, serial, integer, timestamp, boolean, primaryKey, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, real, timestamp, boolean, jsonb, primaryKey, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import { z } from "zod";
+import { TIME_PATTERN, type BreakSegment } from "./time";
+import { entryKinds } from "./entry-kinds";
+import { payRuleKinds, payRuleModes } from "./pay";
+import { reportActions, reportStatuses } from "./report-status";
+import { userRoles } from "./teams";
+import { loginAttemptOutcomes } from "./login-attempts";
+import { apiTokenScopes } from "./api-tokens";
+import { auditActions, auditEntityTypes, type AuditValues } from "./audit";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -16,11 +24,171 @@ export const users = pgTable("users", {
   breakMinutes: integer("break_minutes").notNull().default(60),
   autoBreak: boolean("auto_break").notNull().default(true),
   workDays: text("work_days").notNull().default("1,2,3,4,5"), // Comma-separated list of day numbers (1=Monday, 7=Sunday)
+  autoBreakAfterMinutes: integer("auto_break_after_minutes").notNull().default(360), // Автоперерыв вычитается из смен длиннее этого порога
+  overtimeCapHours: integer("overtime_cap_hours"), // Максимальный переносимый остаток переработки; null — без ограничения
+  overtimeExpiryMonths: integer("overtime_expiry_months"), // Через сколько месяцев сгорает неиспользованная переработка; null — не сгорает
+  vacationDaysPerYear: integer("vacation_days_per_year").notNull().default(20), // Годовой отпуск в рабочих днях
+  vacationCarryOverDays: integer("vacation_carry_over_days").notNull().default(0), // Сколько неиспользованных дней переходит на следующий год
+  calendarToken: text("calendar_token").unique(), // Секрет ссылки на календарь .ics; null — ссылка отключена
+  role: text("role", { enum: userRoles }).notNull().default("employee"),
+  teamId: integer("team_id").references((): AnyPgColumn => teams.id, { onDelete: "set null" }), // Команда, в которой работает сотрудник
+  isActive: boolean("is_active").notNull().default(true), // Отключённый администратором пользователь не может войти
+  mustChangePassword: boolean("must_change_password").notNull().default(false), // Пароль выдан администратором и должен быть сменён при входе
+  totpSecret: text("totp_secret"), // Секрет TOTP в base32; null — двухфакторная аутентификация выключена
+  totpLastUsedStep: integer("totp_last_used_step"), // Шаг последнего принятого кода: один код нельзя использовать дважды
 });
 
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+  team: one(teams, {
+    fields: [users.teamId],
+    references: [teams.id],
+    relationName: "teamMembers"
+  }),
   timeEntries: many(timeEntries),
   monthlyReports: many(monthlyReports),
+  clients: many(clients),
+  projects: many(projects),
+  hourlyRates: many(hourlyRates),
+  payRules: many(payRules),
+  runningTimer: one(runningTimers),
+}));
+
+// Команда сотрудников; руководитель команды видит и её подкоманды
+export const teams = pgTable("teams", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  managerId: integer("manager_id").references(() => users.id, { onDelete: "set null" }),
+  parentId: integer("parent_id").references((): AnyPgColumn => teams.id, { onDelete: "set null" }), // Вышестоящая команда
+});
+
+export const teamsRelations = relations(teams, ({ one, many }) => ({
+  manager: one(users, {
+    fields: [teams.managerId],
+    references: [users.id],
+    relationName: "teamManager"
+  }),
+  members: many(users, { relationName: "teamMembers" }),
+  parent: one(teams, {
+    fields: [teams.parentId],
+    references: [teams.id],
+    relationName: "subteams"
+  }),
+  subteams: many(teams, { relationName: "subteams" }),
+}));
+
+// Настройки приложения: одна строка, которую меняет администратор
+export const appSettings = pgTable("app_settings", {
+  id: serial("id").primaryKey(),
+  registrationEnabled: boolean("registration_enabled").notNull().default(true), // Самостоятельная регистрация через /api/register
+  dataVersion: integer("data_version").notNull().default(0), // Номер последнего выполненного разового переноса данных
+});
+
+export const clients = pgTable("clients", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  notes: text("notes"),
+  archived: boolean("archived").notNull().default(false),
+});
+
+export const clientsRelations = relations(clients, ({ one, many }) => ({
+  user: one(users, {
+    fields: [clients.userId],
+    references: [users.id]
+  }),
+  projects: many(projects),
+}));
+
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  clientId: integer("client_id").references(() => clients.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  code: text("code"), // Краткий код проекта для таблиц и экспорта
+  archived: boolean("archived").notNull().default(false),
+});
+
+export const projectsRelations = relations(projects, ({ one, many }) => ({
+  user: one(users, {
+    fields: [projects.userId],
+    references: [users.id]
+  }),
+  client: one(clients, {
+    fields: [projects.clientId],
+    references: [clients.id]
+  }),
+  timeEntries: many(timeEntries),
+  hourlyRates: many(hourlyRates),
+}));
+
+// История ставок: ставка действует с effectiveFrom до следующей записи;
+// ставка проекта имеет приоритет над общей ставкой пользователя
+export const hourlyRates = pgTable("hourly_rates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  rate: integer("rate").notNull(), // Ставка в чешских кронах (CZK) за час
+  effectiveFrom: timestamp("effective_from").notNull(),
+});
+
+export const hourlyRatesRelations = relations(hourlyRates, ({ one }) => ({
+  user: one(users, {
+    fields: [hourlyRates.userId],
+    references: [users.id]
+  }),
+  project: one(projects, {
+    fields: [hourlyRates.projectId],
+    references: [projects.id]
+  }),
+}));
+
+// Доплаты к ставке; отсутствующие у пользователя правила берутся из defaultPayRules
+export const payRules = pgTable("pay_rules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  kind: text("kind", { enum: payRuleKinds }).notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  mode: text("mode", { enum: payRuleModes }).notNull().default("percent"),
+  value: integer("value").notNull(), // Процент от ставки или CZK за час
+  windowStart: text("window_start"), // Ночной интервал для правила night
+  windowEnd: text("window_end"),
+}, (table) => ({
+  userKindUnique: unique().on(table.userId, table.kind),
+}));
+
+export const payRulesRelations = relations(payRules, ({ one }) => ({
+  user: one(users, {
+    fields: [payRules.userId],
+    references: [users.id]
+  }),
+}));
+
+// Пауза запущенного таймера; endedAt отсутствует, пока пауза идёт
+export interface TimerPause {
+  startedAt: string; // ISO-время
+  endedAt?: string;
+}
+
+// Запущенный таймер рабочего времени: у пользователя не больше одного, при остановке становится записью
+export const runningTimers = pgTable("running_timers", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id).unique(),
+  startedAt: timestamp("started_at").notNull(),
+  pauses: jsonb("pauses").$type<TimerPause[]>().notNull().default([]),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+  notes: text("notes"),
+  timezoneOffset: integer("timezone_offset").notNull().default(0), // Смещение часового пояса клиента (Date.getTimezoneOffset) для перевода во время записи
+});
+
+export const runningTimersRelations = relations(runningTimers, ({ one }) => ({
+  user: one(users, {
+    fields: [runningTimers.userId],
+    references: [users.id]
+  }),
+  project: one(projects, {
+    fields: [runningTimers.projectId],
+    references: [projects.id]
+  }),
 }));
 
 export const timeEntries = pgTable("time_entries", {
@@ -29,12 +197,12 @@ export const timeEntries = pgTable("time_entries", {
   date: timestamp("date").notNull(),
   startTime: text("start_time").notNull(),
   endTime: text("end_time").notNull(),
-  // Удаляем поля, связанные с перерывом
-  // breakStartTime: text("break_start_time"),
-  // breakEndTime: text("break_end_time"),
-  // hasBreak: boolean("has_break").notNull().default(false),
+  breaks: jsonb("breaks").$type<BreakSegment[]>().notNull().default([]), // Перерывы внутри смены
   hourlyRate: integer("hourly_rate").notNull().default(0), // Добавляем ставку в чешских кронах (CZK)
   notes: text("notes"),
+  kind: text("kind", { enum: entryKinds }).notNull().default("work"), // Тип записи: работа, отпуск, больничный и т.д.
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+  halfDay: boolean("half_day").notNull().default(false), // Отсутствие на половину рабочего дня
 });
 
 export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
@@ -42,6 +210,10 @@ export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
     fields: [timeEntries.userId],
     references: [users.id]
   }),
+  project: one(projects, {
+    fields: [timeEntries.projectId],
+    references: [projects.id]
+  }),
 }));
 
 export const monthlyReports = pgTable("monthly_reports", {
@@ -52,19 +224,117 @@ export const monthlyReports = pgTable("monthly_reports", {
   workDays: integer("work_days").notNull(),
   workedMinutes: integer("worked_minutes").notNull(),
   targetMinutes: integer("target_minutes").notNull(),
+  targetMinutesOverride: integer("target_minutes_override"), // Норма, заданная вручную; null — по производственному календарю
   overtimeMinutes: integer("overtime_minutes").notNull(),
-  vacationDays: integer("vacation_days").notNull().default(0),
+  grossMinutes: integer("gross_minutes").notNull().default(0), // Отработано без вычета перерывов
+  vacationDays: real("vacation_days").notNull().default(0), // С учётом половинных дней
+  sickDays: real("sick_days").notNull().default(0), // Больничные рабочие дни, с учётом половинных
   carriedFromMinutes: integer("carried_from_minutes").notNull().default(0),
   carriedToMinutes: integer("carried_to_minutes").notNull().default(0),
-});
+  timeOffMinutes: integer("time_off_minutes").notNull().default(0), // Отгулы за переработку, списанные с остатка
+  expiredMinutes: integer("expired_minutes").notNull().default(0), // Переработка, сгоревшая по сроку или сверх лимита
+  status: text("status", { enum: reportStatuses }).notNull().default("draft"), // Согласование табеля; отправленный и утверждённый месяц закрыт для правок
+  submittedAt: timestamp("submitted_at"),
+  submittedBy: integer("submitted_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"), // Утверждение или отклонение
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+}, (table) => ({
+  userMonthUnique: unique().on(table.userId, table.year, table.month),
+}));
 
-export const monthlyReportsRelations = relations(monthlyReports, ({ one }) => ({
+export const monthlyReportsRelations = relations(monthlyReports, ({ one, many }) => ({
   user: one(users, {
     fields: [monthlyReports.userId],
     references: [users.id]
   }),
+  statusChanges: many(reportStatusChanges),
+}));
+
+// Журнал согласования табеля: каждое действие со статусом, включая возврат в черновик
+export const reportStatusChanges = pgTable("report_status_changes", {
+  id: serial("id").primaryKey(),
+  reportId: integer("report_id").notNull().references(() => monthlyReports.id, { onDelete: "cascade" }),
+  action: text("action", { enum: reportActions }).notNull(),
+  fromStatus: text("from_status", { enum: reportStatuses }).notNull(),
+  toStatus: text("to_status", { enum: reportStatuses }).notNull(),
+  changedBy: integer("changed_by").notNull().references(() => users.id),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+  comment: text("comment"), // Причина отклонения или возврата в черновик
+});
+
+export const reportStatusChangesRelations = relations(reportStatusChanges, ({ one }) => ({
+  report: one(monthlyReports, {
+    fields: [reportStatusChanges.reportId],
+    references: [monthlyReports.id]
+  }),
 }));
 
+// Журнал попыток входа: успешные, с неверным паролем и отклонённые из-за блокировки
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull(), // Имя, которое ввели, даже если такого пользователя нет
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  ip: text("ip").notNull(),
+  outcome: text("outcome", { enum: loginAttemptOutcomes }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Счётчики неудачных попыток входа по адресу и по имени пользователя; переживают перезапуск сервера
+export const loginThrottles = pgTable("login_throttles", {
+  key: text("key").primaryKey(), // "ip:203.0.113.5" или "username:anna"
+  failures: integer("failures").notNull(),
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+  blockedUntil: timestamp("blocked_until"), // До этого момента попытки отклоняются без проверки пароля
+});
+
+// Одноразовые коды восстановления на случай потери телефона; хранится только хеш
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+// Личные токены доступа к API; хранится только хеш, сам токен показывается один раз при создании
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(), // Первые символы токена, чтобы узнать его в списке
+  scopes: text("scopes", { enum: apiTokenScopes }).array().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
+// Журнал изменений записей, отчётов и настроек пользователя; строки только добавляются
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type", { enum: auditEntityTypes }).notNull(),
+  entityId: integer("entity_id").notNull(), // Запись может быть уже удалена, поэтому без внешнего ключа
+  userId: integer("user_id").notNull().references(() => users.id), // Чьи данные изменены
+  actorId: integer("actor_id").references(() => users.id), // Кто изменил; null — система: пересчёт отчётов, регистрация
+  action: text("action", { enum: auditActions }).notNull(),
+  before: jsonb("before").$type<AuditValues>(), // Для правки — только изменившиеся поля
+  after: jsonb("after").$type<AuditValues>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const breakSegmentSchema = z.object({
+  startTime: z.string().regex(TIME_PATTERN, "Break start time must be in HH:MM format"),
+  endTime: z.string().regex(TIME_PATTERN, "Break end time must be in HH:MM format"),
+});
+
+// Записи допустимы с 2000 года до конца следующего: отчёты пересчитываются помесячно от самой ранней записи
+const MIN_ENTRY_YEAR = 2000;
+export const ENTRY_DATE_RANGE_MESSAGE = `Date must be between ${MIN_ENTRY_YEAR} and the end of next year`;
+
+export function isEntryDateInRange(date: Date): boolean {
+  const year = date.getUTCFullYear();
+  return year >= MIN_ENTRY_YEAR && year <= new Date().getUTCFullYear() + 1;
+}
+
 export const insertUserSchema = createInsertSchema(users).omit({ id: true });
 // Создаем схему для проверки данных и изменяем правила для поля date
 export const insertTimeEntrySchema = createInsertSchema(timeEntries)
@@ -74,27 +344,137 @@ export const insertTimeEntrySchema = createInsertSchema(timeEntries)
     date: z.union([
       z.string().transform((val) => new Date(val)),
       z.date()
-    ])
+    ]).refine(isEntryDateInRange, ENTRY_DATE_RANGE_MESSAGE),
+    // Время в формате HH:MM; конец раньше начала означает ночную смену до следующего дня
+    startTime: z.string().regex(TIME_PATTERN, "Start time must be in HH:MM format"),
+    endTime: z.string().regex(TIME_PATTERN, "End time must be in HH:MM format"),
+    breaks: z.array(breakSegmentSchema).optional(),
   });
-export const insertMonthlyReportSchema = createInsertSchema(monthlyReports).omit({ id: true });
+// Статус табеля меняется только действиями согласования, а не при пересчёте или правке отчёта
+export const insertMonthlyReportSchema = createInsertSchema(monthlyReports).omit({
+  id: true,
+  status: true,
+  submittedAt: true,
+  submittedBy: true,
+  reviewedAt: true,
+  reviewedBy: true,
+});
+export const insertTeamSchema = createInsertSchema(teams, {
+  name: (schema) => schema.trim().min(1, "Team name is required"),
+}).omit({ id: true });
+export const insertClientSchema = createInsertSchema(clients, {
+  name: (schema) => schema.trim().min(1, "Client name is required"),
+}).omit({ id: true });
+export const insertProjectSchema = createInsertSchema(projects, {
+  name: (schema) => schema.trim().min(1, "Project name is required"),
+}).omit({ id: true });
+export const insertHourlyRateSchema = createInsertSchema(hourlyRates, {
+  rate: (schema) => schema.int().min(0, "Rate must not be negative"),
+})
+  .omit({ id: true })
+  .extend({
+    effectiveFrom: z.union([
+      z.string().transform((val) => new Date(val)),
+      z.date()
+    ]),
+  });
+
+export const insertPayRuleSchema = createInsertSchema(payRules, {
+  value: (schema) => schema.int().min(0, "Surcharge must not be negative"),
+  windowStart: (schema) => schema.regex(TIME_PATTERN, "Window start must be in HH:MM format"),
+  windowEnd: (schema) => schema.regex(TIME_PATTERN, "Window end must be in HH:MM format"),
+}).omit({ id: true });
+
+// Самостоятельная регистрация: только учётные и личные данные, роль и доступ назначаются по умолчанию
+export const registerUserSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(6, "Password must be at least 6 characters").max(200),
+  fullName: z.string().trim().min(2, "Full name must be at least 2 characters").max(200),
+  email: z.string().trim().email("Invalid email address"),
+  position: z.string().trim().max(200).optional(),
+}).strict();
+
+// Личные данные, которые пользователь меняет сам; имя входа, пароль, роль и доступ так не меняются
+export const profileUpdateSchema = z.object({
+  fullName: z.string().trim().min(2, "Full name must be at least 2 characters").max(200),
+  email: z.union([z.string().trim().email("Invalid email address"), z.literal("")]).nullable(),
+  phone: z.string().trim().max(50).nullable(),
+  position: z.string().trim().max(200).nullable(),
+  profileImage: z.string().nullable(),
+}).partial().strict();
+
+// Настройки учёта, которые пользователь меняет сам; норму часов и рабочие дни назначает администратор
+export const userSettingsUpdateSchema = z.object({
+  autoBreak: z.boolean(),
+  breakMinutes: z.number().int().min(0, "Break must not be negative").max(480),
+  autoBreakAfterMinutes: z.number().int().min(0, "Auto break threshold must not be negative").max(1440),
+  overtimeCapHours: z.number().int().min(0, "Overtime cap must not be negative").nullable(),
+  overtimeExpiryMonths: z.number().int().min(1, "Overtime expiry must be at least 1 month").nullable(),
+  vacationDaysPerYear: z.number().int().min(0, "Vacation days must not be negative").max(366),
+  vacationCarryOverDays: z.number().int().min(0, "Carry-over days must not be negative").max(366),
+}).partial().strict();
+
+// PATCH /api/user: профиль и настройки одной формой
+export const userUpdateSchema = profileUpdateSchema.merge(userSettingsUpdateSchema).strict();
+
+// Ручная правка итогов месяца: только норма, остальное пересчитывается из записей.
+// null возвращает норму по производственному календарю
+export const monthlyReportAdjustmentSchema = z.object({
+  targetMinutesOverride: z.number().int().min(0).max(31 * 24 * 60).nullable(),
+}).partial().strict();
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type ProfileUpdate = z.infer<typeof profileUpdateSchema>;
+export type UserSettingsUpdate = z.infer<typeof userSettingsUpdateSchema>;
+export type UserUpdate = z.infer<typeof userUpdateSchema>;
+export type MonthlyReportAdjustment = z.infer<typeof monthlyReportAdjustmentSchema>;
 export type InsertTimeEntry = z.infer<typeof insertTimeEntrySchema>;
 export type InsertMonthlyReport = z.infer<typeof insertMonthlyReportSchema>;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type InsertClient = z.infer<typeof insertClientSchema>;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type InsertHourlyRate = z.infer<typeof insertHourlyRateSchema>;
+export type InsertPayRule = z.infer<typeof insertPayRuleSchema>;
+export type InsertRunningTimer = typeof runningTimers.$inferInsert;
+export type InsertReportStatusChange = typeof reportStatusChanges.$inferInsert;
+export type InsertAppSettings = typeof appSettings.$inferInsert;
+export type InsertLoginAttempt = typeof loginAttempts.$inferInsert;
+export type InsertRecoveryCode = typeof recoveryCodes.$inferInsert;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+export type InsertAuditLog = typeof auditLog.$inferInsert;
 
 export type User = typeof users.$inferSelect;
 export type TimeEntry = typeof timeEntries.$inferSelect;
 export type MonthlyReport = typeof monthlyReports.$inferSelect;
+export type Team = typeof teams.$inferSelect;
+export type Client = typeof clients.$inferSelect;
+export type Project = typeof projects.$inferSelect;
+export type HourlyRate = typeof hourlyRates.$inferSelect;
+export type PayRule = typeof payRules.$inferSelect;
+export type RunningTimer = typeof runningTimers.$inferSelect;
+export type ReportStatusChange = typeof reportStatusChanges.$inferSelect;
+export type AppSettings = typeof appSettings.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type AuditLog = typeof auditLog.$inferSelect;
+
+// Поля согласования месячного отчёта
+export type MonthlyReportApproval = Pick<MonthlyReport, "status" | "submittedAt" | "submittedBy" | "reviewedAt" | "reviewedBy">;
 
-export const userInitialData: InsertUser = {
-  username: "user",
-  password: "password",
-  fullName: "Олександр Коваленко",
-  email: "oleksandr@example.com",
-  phone: "+380 12 345 6789",
-  position: "Розробник",
+// Первый администратор пустой базы; пароль генерируется при создании и выводится в журнал сервера
+export const userInitialData: Omit<InsertUser, "password"> = {
+  username: "admin",
+  fullName: "Administrator",
+  role: "admin",
+  mustChangePassword: true,
   workHoursPerDay: 8,
   breakMinutes: 60,
   autoBreak: true,
   workDays: "1,2,3,4,5",
+  autoBreakAfterMinutes: 360,
+  vacationDaysPerYear: 20,
+  vacationCarryOverDays: 0,
 };
@@ -0,0 +1,47 @@
+// Роли пользователей и команды: руководитель видит записи и отчёты своих команд и всех вложенных в них
+
+import type { MonthlyReport, Team, User } from "./schema";
+
+export const userRoles = ["employee", "manager", "admin"] as const;
+
+export type UserRole = typeof userRoles[number];
+
+// Руководитель видит свои команды, администратор — все
+export function canViewTeams(role: UserRole): boolean {
+  return role === "manager" || role === "admin";
+}
+
+// Данные сотрудника, которые видит руководитель: без пароля, токенов и настроек
+export type TeamMember = Pick<User, "id" | "fullName" | "position" | "email" | "phone" | "role" | "teamId">;
+
+export function toTeamMember(user: User): TeamMember {
+  return {
+    id: user.id,
+    fullName: user.fullName,
+    position: user.position,
+    email: user.email,
+    phone: user.phone,
+    role: user.role,
+    teamId: user.teamId,
+  };
+}
+
+export interface TeamWithMembers extends Team {
+  members: TeamMember[];
+}
+
+// Строка обзора команды за месяц: итоги из месячного отчёта сотрудника
+export interface TeamOverviewRow {
+  member: TeamMember;
+  report: Pick<
+    MonthlyReport,
+    "workDays" | "workedMinutes" | "targetMinutes" | "overtimeMinutes" | "carriedToMinutes" | "vacationDays" | "sickDays" | "status"
+  >;
+}
+
+export interface TeamOverview {
+  year: number;
+  month: number; // 1-12
+  teams: Team[];
+  rows: TeamOverviewRow[];
+}
@@ -0,0 +1,147 @@
+// Расчёт продолжительности смен, общий для клиента и сервера.
+// Время хранится строками "HH:MM"; если конец раньше начала, смена заканчивается на следующий день.
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface ShiftDaySegment {
+  date: Date; // Локальная полночь дня, к которому относится отрезок
+  minutes: number;
+}
+
+export function parseTimeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function crossesMidnight(startTime: string, endTime: string): boolean {
+  return parseTimeToMinutes(endTime) < parseTimeToMinutes(startTime);
+}
+
+/**
+ * Продолжительность смены в минутах; ночная смена 22:00–06:00 даёт 480 минут
+ */
+export function calculateShiftMinutes(startTime: string, endTime: string): number {
+  const start = parseTimeToMinutes(startTime);
+  const end = parseTimeToMinutes(endTime);
+  return end >= start ? end - start : end + MINUTES_PER_DAY - start;
+}
+
+/**
+ * Делит смену по полуночи: часть до 24:00 относится к дню начала, остаток — к следующему дню
+ */
+export function splitShiftByDay(date: Date | string, startTime: string, endTime: string): ShiftDaySegment[] {
+  const entryDate = new Date(date);
+  const day = new Date(entryDate.getFullYear(), entryDate.getMonth(), entryDate.getDate());
+
+  if (!crossesMidnight(startTime, endTime)) {
+    return [{ date: day, minutes: calculateShiftMinutes(startTime, endTime) }];
+  }
+
+  const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+  return [
+    { date: day, minutes: MINUTES_PER_DAY - parseTimeToMinutes(startTime) },
+    { date: nextDay, minutes: parseTimeToMinutes(endTime) },
+  ].filter(segment => segment.minutes > 0);
+}
+
+/**
+ * Минуты смены, приходящиеся на указанный месяц (month: 1-12)
+ */
+export function getShiftMinutesInMonth(
+  date: Date | string,
+  startTime: string,
+  endTime: string,
+  year: number,
+  month: number
+): number {
+  return splitShiftByDay(date, startTime, endTime)
+    .filter(segment => segment.date.getFullYear() === year && segment.date.getMonth() === month - 1)
+    .reduce((total, segment) => total + segment.minutes, 0);
+}
+
+export interface ShiftInterval {
+  start: number; // Минуты от полуночи опорного дня
+  end: number;
+}
+
+/**
+ * Интервал смены относительно полуночи указанного дня (reference); позволяет сравнивать
+ * смены соседних дней, в том числе ночные
+ */
+export function getShiftInterval(
+  date: Date | string,
+  startTime: string,
+  endTime: string,
+  reference: Date | string = date
+): ShiftInterval {
+  const entryDate = new Date(date);
+  const referenceDate = new Date(reference);
+  const entryDay = Date.UTC(entryDate.getFullYear(), entryDate.getMonth(), entryDate.getDate());
+  const referenceDay = Date.UTC(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate());
+  const dayOffset = Math.round((entryDay - referenceDay) / (MINUTES_PER_DAY * 60 * 1000)) * MINUTES_PER_DAY;
+
+  const start = dayOffset + parseTimeToMinutes(startTime);
+  return { start, end: start + calculateShiftMinutes(startTime, endTime) };
+}
+
+export function intervalsOverlap(a: ShiftInterval, b: ShiftInterval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+export interface BreakSegment {
+  startTime: string;
+  endTime: string;
+}
+
+export interface BreakSettings {
+  autoBreak: boolean;
+  breakMinutes: number; // Продолжительность автоматического перерыва
+  autoBreakAfterMinutes: number; // Минимальная длина смены, после которой вычитается перерыв
+}
+
+export interface ShiftDurations {
+  grossMinutes: number; // Время от начала до конца смены
+  breakMinutes: number; // Вычтенный перерыв
+  netMinutes: number; // Отработанное время без перерыва
+}
+
+/**
+ * Интервалы перерывов относительно полуночи дня начала смены;
+ * перерыв ночной смены после полуночи переносится на следующий день
+ */
+export function getBreakIntervals(startTime: string, endTime: string, breaks: BreakSegment[]): ShiftInterval[] {
+  const shiftStart = parseTimeToMinutes(startTime);
+  const overnight = crossesMidnight(startTime, endTime);
+
+  return breaks.map(segment => {
+    let start = parseTimeToMinutes(segment.startTime);
+    if (overnight && start < shiftStart) {
+      start += MINUTES_PER_DAY;
+    }
+    return { start, end: start + calculateShiftMinutes(segment.startTime, segment.endTime) };
+  });
+}
+
+/**
+ * Брутто, перерыв и нетто смены. Записанные перерывы вычитаются всегда; при включённом
+ * autoBreak для смены длиннее порога вычитается не меньше breakMinutes.
+ */
+export function calculateShiftDurations(
+  startTime: string,
+  endTime: string,
+  breaks: BreakSegment[] = [],
+  settings?: BreakSettings
+): ShiftDurations {
+  const grossMinutes = calculateShiftMinutes(startTime, endTime);
+  let breakMinutes = getBreakIntervals(startTime, endTime, breaks)
+    .reduce((total, interval) => total + (interval.end - interval.start), 0);
+
+  if (settings?.autoBreak && grossMinutes > settings.autoBreakAfterMinutes) {
+    breakMinutes = Math.max(breakMinutes, settings.breakMinutes);
+  }
+
+  breakMinutes = Math.min(breakMinutes, grossMinutes);
+  return { grossMinutes, breakMinutes, netMinutes: grossMinutes - breakMinutes };
+}
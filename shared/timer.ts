@@ -0,0 +1,76 @@
+// Таймер рабочего времени: прошедшее время и превращение в запись при остановке
+
+import { MINUTES_PER_DAY, type BreakSegment } from "./time";
+
+export interface TimerState {
+  startedAt: Date | string;
+  pauses: { startedAt: string; endedAt?: string }[];
+  timezoneOffset: number;
+}
+
+export interface TimerShift {
+  date: string; // ISO строка с полуднем, как у даты записи
+  startTime: string;
+  endTime: string;
+  breaks: BreakSegment[];
+}
+
+export function isTimerPaused(timer: Pick<TimerState, "pauses">): boolean {
+  return timer.pauses.some(pause => !pause.endedAt);
+}
+
+/**
+ * Прошедшее время таймера в секундах без учёта пауз
+ */
+export function getTimerElapsedSeconds(timer: TimerState, now: Date = new Date()): number {
+  const nowMs = now.getTime();
+  const pausedMs = timer.pauses.reduce((total, pause) => {
+    const end = pause.endedAt ? new Date(pause.endedAt).getTime() : nowMs;
+    return total + Math.max(0, end - new Date(pause.startedAt).getTime());
+  }, 0);
+  const elapsedMs = nowMs - new Date(timer.startedAt).getTime() - pausedMs;
+  return Math.max(0, Math.floor(elapsedMs / 1000));
+}
+
+// Местное время клиента, записанное в UTC-поля даты
+function toClientTime(date: Date | string, timezoneOffset: number): Date {
+  return new Date(new Date(date).getTime() - timezoneOffset * 60 * 1000);
+}
+
+function formatClientTime(date: Date): string {
+  return `${date.getUTCHours().toString().padStart(2, '0')}:${date.getUTCMinutes().toString().padStart(2, '0')}`;
+}
+
+/**
+ * Смена из таймера во времени клиента: время округляется до минут, паузы становятся перерывами.
+ * Возвращает сообщение об ошибке, если таймер нельзя записать одной записью.
+ */
+export function buildTimerShift(timer: TimerState, now: Date = new Date()): TimerShift | string {
+  const totalMinutes = Math.floor((now.getTime() - new Date(timer.startedAt).getTime()) / 60000);
+  if (totalMinutes >= MINUTES_PER_DAY) {
+    return "Timer ran for 24 hours or longer; discard it and add the entry manually";
+  }
+
+  const start = toClientTime(timer.startedAt, timer.timezoneOffset);
+  const end = toClientTime(now, timer.timezoneOffset);
+  const startTime = formatClientTime(start);
+  const endTime = formatClientTime(end);
+  if (startTime === endTime) {
+    return "Timer ran for less than a minute";
+  }
+
+  const breaks = timer.pauses
+    .map(pause => ({
+      startTime: formatClientTime(toClientTime(pause.startedAt, timer.timezoneOffset)),
+      endTime: formatClientTime(toClientTime(pause.endedAt ?? now, timer.timezoneOffset)),
+    }))
+    // Паузы короче минуты после округления исчезают
+    .filter(pause => pause.startTime !== pause.endTime);
+
+  return {
+    date: `${start.toISOString().split('T')[0]}T12:00:00.000Z`,
+    startTime,
+    endTime,
+    breaks,
+  };
+}
@@ -0,0 +1,39 @@
+// Двухфакторная аутентификация: код из приложения-аутентификатора (TOTP, RFC 6238)
+// или одноразовый код восстановления
+
+import { z } from "zod";
+import type { User } from "./schema";
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Данные пользователя, которые уходят клиенту: без хеша пароля и секрета TOTP
+export type PublicUser = Omit<User, "password" | "totpSecret" | "totpLastUsedStep"> & {
+  twoFactorEnabled: boolean;
+};
+
+export function toPublicUser(user: User): PublicUser {
+  const { password, totpSecret, totpLastUsedStep, ...rest } = user;
+  return { ...rest, twoFactorEnabled: totpSecret !== null };
+}
+
+// Код из приложения (6 цифр) или код восстановления (XXXXX-XXXXX)
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Code is required").max(20),
+});
+
+// Новый секрет для подключения приложения: показывается, пока подключение не подтверждено кодом
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string; // PNG в виде data URL
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesLeft: number;
+}
+
+// Ответ на вход по паролю, если нужен второй шаг
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+}
@@ -0,0 +1,92 @@
+// Годовой отпуск: положенные дни, перенос остатка на следующий год и использование
+
+import { isWorkingDay, parseWorkDays } from "./calendar";
+import { getAbsenceDayFraction, getEntryKindRule } from "./entry-kinds";
+
+export interface VacationEntry {
+  date: Date | string;
+  kind: string;
+  halfDay?: boolean | null;
+}
+
+export interface VacationSettings {
+  workDays: string;
+  vacationDaysPerYear: number;
+  vacationCarryOverDays: number;
+}
+
+export interface VacationBalance {
+  year: number;
+  entitledDays: number;
+  carriedOverDays: number; // Остаток прошлого года, перенесённый в этот
+  takenDays: number; // Отпуск до сегодняшнего дня включительно
+  plannedDays: number; // Отпуск, записанный на будущие даты
+  remainingDays: number;
+}
+
+function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+/**
+ * Дни отпуска по рабочим дням года; половинный день считается как 0,5,
+ * несколько записей на один день — не больше одного дня
+ */
+function collectVacationDays(entries: VacationEntry[], year: number, workDays: number[]): Map<string, { date: Date; days: number }> {
+  const days = new Map<string, { date: Date; days: number }>();
+
+  for (const entry of entries) {
+    const date = new Date(entry.date);
+    if (date.getFullYear() !== year || !getEntryKindRule(entry.kind).countsAsVacation || !isWorkingDay(date, workDays)) {
+      continue;
+    }
+
+    const key = toDayKey(date);
+    const existing = days.get(key)?.days ?? 0;
+    days.set(key, { date, days: Math.min(1, existing + getAbsenceDayFraction(entry)) });
+  }
+
+  return days;
+}
+
+/**
+ * Баланс отпуска за год. Остаток переносится из года в год начиная с года первой записи,
+ * но не больше vacationCarryOverDays; entries — все записи пользователя.
+ */
+export function calculateVacationBalance(
+  entries: VacationEntry[],
+  settings: VacationSettings,
+  year: number,
+  today: Date = new Date()
+): VacationBalance {
+  const workDays = parseWorkDays(settings.workDays);
+  const firstYear = entries.reduce((min, entry) => Math.min(min, new Date(entry.date).getFullYear()), year);
+
+  let carriedOverDays = 0;
+  for (let previousYear = firstYear; previousYear < year; previousYear++) {
+    const usedDays = Array.from(collectVacationDays(entries, previousYear, workDays).values())
+      .reduce((total, item) => total + item.days, 0);
+    const unusedDays = settings.vacationDaysPerYear + carriedOverDays - usedDays;
+    carriedOverDays = Math.min(settings.vacationCarryOverDays, Math.max(0, unusedDays));
+  }
+
+  const endOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59, 999);
+  let takenDays = 0;
+  let plannedDays = 0;
+  for (const item of Array.from(collectVacationDays(entries, year, workDays).values())) {
+    if (item.date <= endOfToday) {
+      takenDays += item.days;
+    } else {
+      plannedDays += item.days;
+    }
+  }
+
+  return {
+    year,
+    entitledDays: settings.vacationDaysPerYear,
+    carriedOverDays,
+    takenDays,
+    plannedDays,
+    remainingDays: settings.vacationDaysPerYear + carriedOverDays - takenDays - plannedDays,
+  };
+}